@@ -87,6 +87,16 @@ export const createAuth = (env: Bindings) => {
           type: "string",
           required: false, // 🔧 修正：词汇等级是可选字段，用户注册时可以为空
         },
+        timezone: {
+          type: "string",
+          required: false,
+          defaultValue: "Asia/Shanghai",
+        },
+        dayStartHour: {
+          type: "number",
+          required: false,
+          defaultValue: 0,
+        },
         lastLoginAt: {
           type: "date",
           required: false,
@@ -11,7 +11,11 @@ import {
   doublePrecision,
   text,
   pgEnum,
+  jsonb,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
+import { type CustomSessionFilter } from "../utils/custom-session";
+import { type KeyBindings } from "../utils/key-bindings";
 
 // ==================== 枚举定义 ====================
 
@@ -60,6 +64,41 @@ export const paymentProviderEnum = pgEnum("payment_provider", [
 // 🔄 修改：货币改为 pgEnum
 export const currencyEnum = pgEnum("currency", ["CNY", "USD"]);
 
+// 复习调度算法枚举
+export const schedulerTypeEnum = pgEnum("scheduler_type", [
+  "sm2", // 简化版 Anki SM-2
+  "fsrs", // FSRS 记忆模型（稳定性/难度/可提取性）
+]);
+
+// 卡片学习状态枚举
+export const cardStateEnum = pgEnum("card_state", [
+  "new", // 新卡片（从未复习过）
+  "learning", // 学习中（处于日内学习步骤）
+  "review", // 复习中（按天间隔复习）
+  "relearning", // 重学中（遗忘后处于日内重学步骤）
+]);
+
+// 难记卡片（leech）处理方式枚举
+export const leechActionEnum = pgEnum("leech_action", [
+  "tag", // 只标记为难记卡片
+  "suspend", // 标记并自动暂停复习
+]);
+
+// 卡片模板枚举（同一个含义可以生成多种卡片，各自独立调度）
+export const cardTemplateEnum = pgEnum("card_template", [
+  "recognition", // 看单词 → 回忆中文含义
+  "reverse", // 看中文含义 → 回忆英文单词
+  "cloze", // 例句挖空 → 填出单词
+]);
+
+// 复习评级枚举
+export const reviewRatingEnum = pgEnum("review_rating", [
+  "again", // 完全忘记
+  "hard", // 困难
+  "good", // 良好
+  "easy", // 简单
+]);
+
 // 文章状态枚举
 export const articleStatusEnum = pgEnum("article_status", [
   "pending", // 已保存但未分析陌生词汇
@@ -95,6 +134,12 @@ export const users = pgTable("users", {
   // 扩展字段：业务相关
   vocabularyLevel: vocabularyLevelEnum("vocabulary_level"),
 
+  // 扩展字段：学习日边界（每日统计、配额、今日到期等按该时区的"学习日"分桶）
+  timezone: varchar("timezone", { length: 64 })
+    .notNull()
+    .default("Asia/Shanghai"), // IANA 时区
+  dayStartHour: integer("day_start_hour").notNull().default(0), // 每天开始的小时（0-23，当地时间）
+
   // 扩展字段：活跃度追踪
   lastLoginAt: timestamp("last_login_at", { withTimezone: true }),
 });
@@ -345,6 +390,18 @@ export const userLearnedMeanings = pgTable(
     }),
     // 来源文章ID（关联到用户上传的文本）
 
+    // ===== 卡片模板字段 =====
+    cardTemplate: cardTemplateEnum("card_template")
+      .default("recognition")
+      .notNull(),
+    // 卡片模板（recognition 为含义本身，其余模板由它派生）
+
+    parentId: integer("parent_id").references(
+      (): AnyPgColumn => userLearnedMeanings.id,
+      { onDelete: "cascade" }
+    ),
+    // 派生卡片所属的 recognition 记录 ID（recognition 卡片为 null）
+
     // ===== Anki复习算法字段 =====
     easeFactor: doublePrecision("ease_factor").default(2.5).notNull(),
     // 难度系数（Anki算法核心参数，默认2.5，范围通常1.3-2.5）
@@ -364,6 +421,33 @@ export const userLearnedMeanings = pgTable(
     totalReviews: integer("total_reviews").default(0).notNull(),
     // 累计复习次数（包括错误的复习）
 
+    // ===== 难记卡片（leech）字段 =====
+    lapses: integer("lapses").default(0).notNull(),
+    // 遗忘次数（复习阶段答 again 的次数）
+
+    isLeech: boolean("is_leech").default(false).notNull(),
+    // 是否为难记卡片（遗忘次数达到用户设置的阈值）
+
+    isSuspended: boolean("is_suspended").default(false).notNull(),
+    // 是否暂停复习（暂停的卡片不会出现在复习队列中）
+
+    buriedUntil: timestamp("buried_until", { withTimezone: true }),
+    // 搁置到该时间为止（之前不会出现在复习队列中，null 表示未搁置）
+
+    // ===== 学习步骤字段 =====
+    cardState: cardStateEnum("card_state").default("new").notNull(),
+    // 卡片学习状态（旧数据默认为 new，repetitions > 0 时按 review 处理）
+
+    learningStep: integer("learning_step"),
+    // 当前所处的学习/重学步骤下标（不在步骤中为 null）
+
+    // ===== FSRS 算法字段 =====
+    stability: doublePrecision("stability"),
+    // 记忆稳定性（天）：回忆概率降到 90% 所需的天数，null 表示尚未使用 FSRS 复习
+
+    difficulty: doublePrecision("difficulty"),
+    // 记忆难度（1-10）：null 表示尚未使用 FSRS 复习
+
     // ===== 追踪字段 =====
     createdAt: timestamp("created_at", { withTimezone: true })
       .defaultNow()
@@ -382,6 +466,12 @@ export const userLearnedMeanings = pgTable(
       table.userId,
       table.nextReviewDate
     ),
+
+    // 唯一索引：同一个含义的每种模板只生成一张卡片
+    parentTemplateIdx: uniqueIndex("idx_parent_template").on(
+      table.parentId,
+      table.cardTemplate
+    ),
   })
 );
 // 为上面的表添加类型推导
@@ -458,6 +548,258 @@ export const userLearningStats = pgTable(
 export type UserLearningStats = typeof userLearningStats.$inferSelect;
 export type NewUserLearningStats = typeof userLearningStats.$inferInsert;
 
+// ==================== 用户复习设置表 🆕 ====================
+
+/**
+ * 用户复习设置表：存储每个用户的复习偏好
+ *
+ * 设计要点：
+ * - 每个用户最多一行记录，没有记录时使用默认设置
+ * - 只在用户修改设置时才写入（UPSERT）
+ */
+export const userReviewSettings = pgTable("user_review_settings", {
+  id: serial("id").primaryKey(),
+
+  userId: integer("user_id")
+    .notNull()
+    .unique()
+    .references(() => users.id, { onDelete: "cascade" }),
+
+  // 复习调度算法：sm2（默认）或 fsrs
+  schedulerType: schedulerTypeEnum("scheduler_type").notNull().default("sm2"),
+
+  // 学习步骤（分钟）：新卡片在当天按这些间隔复习，全部完成后进入按天复习
+  learningSteps: integer("learning_steps").array().notNull().default([1, 10]),
+
+  // 重学步骤（分钟）：遗忘的卡片在当天按这些间隔复习
+  relearningSteps: integer("relearning_steps")
+    .array()
+    .notNull()
+    .default([10]),
+
+  // 每日上限：新卡片数量 / 复习卡片数量（学习步骤中的卡片不受限制）
+  newCardsPerDay: integer("new_cards_per_day").notNull().default(20),
+  reviewsPerDay: integer("reviews_per_day").notNull().default(200),
+
+  // 难记卡片：遗忘次数达到阈值后标记，并按设置决定是否自动暂停
+  leechThreshold: integer("leech_threshold").notNull().default(8),
+  leechAction: leechActionEnum("leech_action").notNull().default("tag"),
+
+  // 复习某个含义后，将同一单词的其他含义搁置到明天（避免相互剧透）
+  burySiblings: boolean("bury_siblings").notNull().default(true),
+
+  // 输入模式：reverse / cloze 卡片通过输入单词作答，由服务端评分
+  typedAnswerMode: boolean("typed_answer_mode").notNull().default(false),
+
+  // 翻转卡片时自动朗读单词
+  autoPlayAudio: boolean("auto_play_audio").notNull().default(false),
+
+  // 复习快捷键（操作 → 按键，缺少的操作使用默认按键）
+  keyBindings: jsonb("key_bindings")
+    .$type<Partial<KeyBindings>>()
+    .notNull()
+    .default({}),
+
+  // 额外启用的卡片模板（recognition 始终启用）
+  extraCardTemplates: cardTemplateEnum("extra_card_templates")
+    .array()
+    .notNull()
+    .default([]),
+
+  // 目标保留率（0.7 - 0.97）：FSRS 直接使用，SM-2 换算为间隔系数
+  desiredRetention: doublePrecision("desired_retention").notNull().default(0.9),
+
+  // 负载均衡：在间隔的随机范围内选择到期卡片最少的一天
+  loadBalancing: boolean("load_balancing").notNull().default(true),
+
+  // ===== 调度参数（由参数优化器根据复习日志拟合，默认为经典 SM-2 取值） =====
+  // 按 SM-2 原始间隔复习时的预计保留率（目标保留率据此换算间隔系数）
+  baselineRetention: doublePrecision("baseline_retention")
+    .notNull()
+    .default(0.9),
+  // 新卡片毕业时的初始难度系数
+  startingEase: doublePrecision("starting_ease").notNull().default(2.5),
+  // Hard / Easy 的间隔倍数
+  hardMultiplier: doublePrecision("hard_multiplier").notNull().default(1.2),
+  easyBonus: doublePrecision("easy_bonus").notNull().default(1.3),
+  // 最近一次应用优化结果的时间（从未优化为 null）
+  parametersOptimizedAt: timestamp("parameters_optimized_at", {
+    withTimezone: true,
+  }),
+
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+});
+
+// TypeScript 类型推导
+export type UserReviewSettings = typeof userReviewSettings.$inferSelect;
+export type NewUserReviewSettings = typeof userReviewSettings.$inferInsert;
+
+// ==================== 复习会话表 🆕 ====================
+
+/**
+ * 复习会话表：记录一次完整的复习过程（开始 → 逐张答题 → 结束）
+ *
+ * 用途：
+ * - 由服务端统计本次会话的复习数量和答对数量（不再信任客户端上报）
+ * - 记录每次答题用时，累计学习时长（写入 user_learning_stats.timeSpentMinutes）
+ * - 自定义学习会话（筛选卡组）保存筛选条件和待学习的卡片队列
+ */
+export const reviewSessions = pgTable(
+  "review_sessions",
+  {
+    id: serial("id").primaryKey(),
+
+    userId: integer("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+
+    // 会话统计（每次答题时累加，撤销时回退）
+    reviewedCount: integer("reviewed_count").notNull().default(0),
+    correctCount: integer("correct_count").notNull().default(0),
+
+    // 累计答题用时（毫秒，单次答题用时有上限，避免离开页面时虚增）
+    timeSpentMs: integer("time_spent_ms").notNull().default(0),
+
+    // 当前卡片展示给用户的时间（用于计算答题用时，没有展示中的卡片时为 null）
+    cardShownAt: timestamp("card_shown_at", { withTimezone: true }),
+
+    // ===== 自定义学习会话（正常复习会话均为 null） =====
+    filter: jsonb("filter").$type<CustomSessionFilter>(),
+    // 筛选条件（按文章 / 答错 / 新加入 / 提前复习）
+
+    queue: jsonb("queue").$type<number[]>(),
+    // 剩余待学习的卡片 ID（按出卡顺序，答 again 的卡片会被放回队列）
+
+    reschedule: boolean("reschedule").notNull().default(true),
+    // 答题是否改变卡片的复习计划（false 为临时练习，不写入复习日志）
+
+    skippedCardIds: jsonb("skipped_card_ids")
+      .$type<number[]>()
+      .notNull()
+      .default([]),
+    // 本次会话中跳过的卡片（正常复习会话不再出这些卡片；自定义学习会话直接移到队尾）
+
+    startedAt: timestamp("started_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    // 结束时间（null 表示会话进行中）
+    endedAt: timestamp("ended_at", { withTimezone: true }),
+  },
+  (table) => ({
+    // 索引：查询某用户的复习会话
+    userStartedAtIdx: index("review_sessions_user_started_at_idx").on(
+      table.userId,
+      table.startedAt
+    ),
+  })
+);
+
+// TypeScript 类型推导
+export type ReviewSession = typeof reviewSessions.$inferSelect;
+export type NewReviewSession = typeof reviewSessions.$inferInsert;
+
+// ==================== 复习日志表 🆕 ====================
+
+/**
+ * 复习日志表：记录每一次答题（只追加，不修改）
+ *
+ * 用途：
+ * - 审计调度结果（每次答题前后的间隔、难度系数）
+ * - 计算真实的记忆保留率
+ * - 撤销上一次答题
+ * - 训练调度算法参数
+ */
+export const reviewLogs = pgTable(
+  "review_logs",
+  {
+    id: serial("id").primaryKey(),
+
+    userId: integer("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+
+    // 复习的卡片（删除卡片时一并删除日志）
+    cardId: integer("card_id")
+      .notNull()
+      .references(() => userLearnedMeanings.id, { onDelete: "cascade" }),
+
+    // 用户答题评级
+    rating: reviewRatingEnum("rating").notNull(),
+
+    // 答题前后的复习间隔（天）
+    prevIntervalDays: integer("prev_interval_days").notNull(),
+    newIntervalDays: integer("new_interval_days").notNull(),
+
+    // 答题前后的难度系数
+    prevEaseFactor: doublePrecision("prev_ease_factor").notNull(),
+    newEaseFactor: doublePrecision("new_ease_factor").notNull(),
+
+    // 距上次复习经过的天数（可为小数，首次复习为 0）
+    elapsedDays: doublePrecision("elapsed_days").notNull(),
+
+    // ===== 答题前的其余卡片状态（用于撤销） =====
+    prevRepetitions: integer("prev_repetitions").notNull(),
+    prevCardState: cardStateEnum("prev_card_state").notNull(),
+    prevLearningStep: integer("prev_learning_step"),
+    prevLapses: integer("prev_lapses").notNull().default(0),
+    prevIsLeech: boolean("prev_is_leech").notNull().default(false),
+    prevIsSuspended: boolean("prev_is_suspended").notNull().default(false),
+    prevStability: doublePrecision("prev_stability"),
+    prevDifficulty: doublePrecision("prev_difficulty"),
+    prevLastReviewedAt: timestamp("prev_last_reviewed_at", {
+      withTimezone: true,
+    }),
+    prevNextReviewDate: timestamp("prev_next_review_date", {
+      withTimezone: true,
+    }),
+    // 本次答题搁置的兄弟卡片（撤销时解除搁置，答题前已被搁置的不记录）
+    buriedSiblingIds: jsonb("buried_sibling_ids")
+      .$type<number[]>()
+      .notNull()
+      .default([]),
+
+    // 所属复习会话（不通过会话答题时为 null）
+    sessionId: integer("session_id").references(() => reviewSessions.id, {
+      onDelete: "set null",
+    }),
+
+    // 答题用时（毫秒，从卡片展示到提交答案，不通过会话答题时为 null）
+    durationMs: integer("duration_ms"),
+
+    // ===== 计算新间隔时的调度参数（供参数优化器还原原始间隔） =====
+    schedulerType: schedulerTypeEnum("scheduler_type"),
+    // 使用的调度器（旧日志为 null）
+
+    intervalModifier: doublePrecision("interval_modifier")
+      .notNull()
+      .default(1),
+    // SM-2 的间隔系数（由目标保留率换算，FSRS 为 1）
+
+    // 答题时间
+    reviewedAt: timestamp("reviewed_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => ({
+    // 索引：查询某张卡片的复习历史
+    cardIdx: index("review_logs_card_idx").on(table.cardId, table.reviewedAt),
+    // 索引：查询某用户某段时间的复习记录
+    userReviewedAtIdx: index("review_logs_user_reviewed_at_idx").on(
+      table.userId,
+      table.reviewedAt
+    ),
+  })
+);
+
+// TypeScript 类型推导
+export type ReviewLog = typeof reviewLogs.$inferSelect;
+export type NewReviewLog = typeof reviewLogs.$inferInsert;
+
 // ==================== 配额配置表 🆕 ====================
 
 /**
@@ -634,3 +976,56 @@ export const userKnownWords = pgTable(
 // TypeScript 类型推导
 export type UserKnownWord = typeof userKnownWords.$inferSelect;
 export type NewUserKnownWord = typeof userKnownWords.$inferInsert;
+
+/**
+ * ============================================
+ * AI 解释缓存表 (AI Explanation Cache)
+ * ============================================
+ *
+ * 功能：跨用户共享 AI 生成的单词解释，同一篇文章被多个用户分析时不再重复调用 AI
+ *
+ * 缓存键：lemma + 所在句子的 SHA-256 + Prompt 版本 + 接口地址 + 模型
+ * - 同一个词在同一个句子中的含义与用户无关，可以共享
+ * - 修改 Prompt 后提升 PROMPT_VERSION，旧缓存自动失效
+ * - 切换 AI_BASE_URL / AI_MODEL 后只使用新模型生成的解释，
+ *   本地开发模型等生成的解释不会提供给其他配置
+ *
+ * 注意：只缓存完全陌生的词（isExisting=false）
+ * 有学习记录的词需要 AI 结合用户已学含义判断，结果因人而异，不缓存
+ */
+export const aiExplanationCache = pgTable(
+  "ai_explanation_cache",
+  {
+    id: serial("id").primaryKey(),
+
+    // 缓存键
+    lemma: varchar("lemma", { length: 200 }).notNull(), // 单词原型（小写）
+    contextHash: varchar("context_hash", { length: 64 }).notNull(), // 句子的 SHA-256（十六进制）
+    promptVersion: varchar("prompt_version", { length: 20 }).notNull(), // 生成时的 Prompt 版本
+    baseUrl: varchar("base_url", { length: 255 }).notNull(), // 生成解释的接口地址
+    model: varchar("model", { length: 100 }).notNull(), // 生成解释的模型
+
+    // 解释内容
+    meaningText: text("meaning_text").notNull(), // 中文含义
+    pos: varchar("pos", { length: 50 }), // 词性
+    exampleSentence: text("example_sentence").notNull(), // 例句（文章中的原句）
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => ({
+    // 唯一约束：同一个缓存键只保存一条解释
+    cacheKeyUnique: uniqueIndex("ai_explanation_cache_key_unique").on(
+      table.lemma,
+      table.contextHash,
+      table.promptVersion,
+      table.baseUrl,
+      table.model
+    ),
+  })
+);
+
+// TypeScript 类型推导
+export type AIExplanationCache = typeof aiExplanationCache.$inferSelect;
+export type NewAIExplanationCache = typeof aiExplanationCache.$inferInsert;
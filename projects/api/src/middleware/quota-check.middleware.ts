@@ -3,6 +3,8 @@ import { eq, and, sql } from "drizzle-orm";
 import type { Bindings } from "../types/bindings";
 import type { AuthenticatedVariables } from "../types/variables";
 import { subscriptions, quotaConfigs, userLearningStats } from "../db/schema";
+import { getUserDayBoundary } from "../service/user-preferences.service";
+import { getDayStart } from "../utils/day-boundary";
 
 /**
  * 配额检查中间件
@@ -101,8 +103,9 @@ export const quotaCheck = createMiddleware<{
     }
 
     // ========== 步骤 4：校验并扣费（无事务，使用原子操作） ==========
-    const today = new Date();
-    today.setHours(0, 0, 0, 0); // 设置为今天零点
+    // 按用户的学习日计算（与每日统计的分桶方式一致）
+    const boundary = await getUserDayBoundary(db, Number(userId));
+    const today = getDayStart(new Date(), boundary);
 
     // 注意：neon-http driver 不支持事务
     // 我们使用查询 + UPSERT 的方式，虽然不是完全原子的，但对于 MVP 阶段已足够
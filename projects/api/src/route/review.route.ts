@@ -1,12 +1,27 @@
 /**
  * 复习系统路由模块
  *
- * 提供五个核心 API：
+ * 提供以下 API：
  * 1. GET /stats - 获取复习统计数据
  * 2. GET /next - 获取下一张待复习卡片
  * 3. POST /answer - 提交答案并更新复习算法
- * 4. POST /skip - 跳过当前卡片（简单方案，不更新数据库）
- * 5. POST /exit - 退出复习会话并更新统计
+ * 4. POST /skip - 跳过当前卡片（本次会话中不再出现或移到队尾）
+ * 5. POST /exit - 结束复习会话并返回会话汇总
+ * 6. GET /settings - 获取复习设置
+ * 7. PATCH /settings - 更新复习设置
+ * 8. GET /history/:cardId - 获取单张卡片的复习历史
+ * 9. POST /undo - 撤销最近一次答题
+ * 10. POST /grade - 对输入模式下用户输入的单词评分
+ * 11. GET /analytics/heatmap - 学习日历热力图
+ * 12. GET /analytics/retention - 真实记忆保持率
+ * 13. GET /analytics/answers - 答题按钮分布
+ * 14. GET /analytics/maturity - 卡片成熟度分布
+ * 15. GET /forecast - 未来每日到期卡片数量预测
+ * 16. POST /start - 开始复习会话（服务端统计复习数量和学习时长）
+ * 17. POST /custom-session - 开始自定义学习会话（按文章 / 答错 / 新加入 / 提前复习筛选）
+ * 18. GET /custom-session/articles - 可按文章筛选的文章列表
+ * 19. GET /optimizer - 调度参数优化报告（拟合结果、目标保留率与复习量的权衡）
+ * 20. POST /optimizer - 拟合调度参数并写入复习设置
  */
 
 import { Hono } from "hono";
@@ -18,15 +33,74 @@ import { ensureAuthenticated } from "../utils/session";
 import {
   getReviewStats,
   getNextCard,
+  getQueuedCard,
   submitAnswer,
   updateDailyStats,
+  getCardHistory,
+  undoLastAnswer,
+  gradeTypedAnswer,
 } from "../service/review.service";
 import {
   getUserId,
   successResponse,
   handleServiceError,
 } from "../utils/route-helpers";
-import type { ReviewStats, CardData } from "../service/review.service";
+import type {
+  ReviewStats,
+  CardData,
+  ReviewLogEntry,
+  UndoResult,
+  AnswerOutcome,
+} from "../service/review.service";
+import {
+  getReviewSettings,
+  updateReviewSettings,
+  type ReviewSettings,
+} from "../service/review-settings.service";
+import { type AnswerGrade } from "../utils/answer-grader";
+import { createTemplateCards } from "../service/card-template.service";
+import {
+  getReviewHeatmap,
+  getRetentionStats,
+  getAnswerDistribution,
+  getCardMaturity,
+  getReviewForecast,
+  type HeatmapDay,
+  type RetentionStats,
+  type CardMaturityStats,
+  type ReviewForecast,
+} from "../service/review-analytics.service";
+import { type AnswerDistribution } from "../utils/review-analytics";
+import {
+  startReviewSession,
+  startCustomSession,
+  getCustomSessionArticles,
+  getActiveReviewSession,
+  markCardShown,
+  recordSessionAnswer,
+  skipSessionCard,
+  endReviewSession,
+  type ReviewSessionSummary,
+  type CustomSessionArticle,
+} from "../service/review-session.service";
+import { getAnswerDuration } from "../utils/review-timing";
+import { advanceQueue } from "../utils/custom-session";
+import {
+  MIN_DESIRED_RETENTION,
+  MAX_DESIRED_RETENTION,
+  MIN_OPTIMIZER_REVIEWS,
+} from "../utils/scheduler-optimizer";
+import {
+  getSchedulerOptimizerReport,
+  applyOptimizedParameters,
+  type SchedulerOptimizerReport,
+} from "../service/scheduler-optimizer.service";
+import {
+  REVIEW_ACTIONS,
+  isValidKey,
+  resolveKeyBindings,
+  findKeyConflicts,
+} from "../utils/key-bindings";
 
 /**
  * ============================================
@@ -59,6 +133,8 @@ export type SubmitAnswerResponse = {
   success: true;
   data: {
     nextCard: CardData | null;
+    leech: AnswerOutcome;
+    grade: AnswerGrade | null; // 输入模式下的评分结果
   };
 };
 
@@ -73,15 +149,134 @@ export type SkipCardResponse = {
 };
 
 /**
- * POST /exit - 退出会话响应
+ * POST /start - 开始会话响应
+ */
+export type StartSessionResponse = {
+  success: true;
+  data: ReviewSessionSummary;
+};
+
+/**
+ * POST /custom-session - 开始自定义学习会话响应
+ */
+export type CustomSessionResponse = {
+  success: true;
+  data: ReviewSessionSummary;
+};
+
+/**
+ * GET /custom-session/articles - 文章列表响应
+ */
+export type CustomSessionArticlesResponse = {
+  success: true;
+  data: {
+    articles: CustomSessionArticle[];
+  };
+};
+
+/**
+ * POST /exit - 结束会话响应
  */
 export type ExitSessionResponse = {
+  success: true;
+  data: ReviewSessionSummary;
+};
+
+/**
+ * GET /settings、PATCH /settings - 复习设置响应
+ */
+export type ReviewSettingsResponse = {
+  success: true;
+  data: ReviewSettings;
+};
+
+/**
+ * GET /optimizer - 调度参数优化报告响应
+ */
+export type SchedulerOptimizerResponse = {
+  success: true;
+  data: SchedulerOptimizerReport;
+};
+
+/**
+ * POST /optimizer - 应用优化结果响应
+ */
+export type ApplyOptimizerResponse = {
+  success: true;
+  data: {
+    settings: ReviewSettings;
+    report: SchedulerOptimizerReport;
+  };
+};
+
+/**
+ * GET /history/:cardId - 卡片复习历史响应
+ */
+export type CardHistoryResponse = {
   success: true;
   data: {
-    success: true;
+    logs: ReviewLogEntry[];
   };
 };
 
+/**
+ * POST /undo - 撤销答题响应
+ */
+export type UndoAnswerResponse = {
+  success: true;
+  data: UndoResult;
+};
+
+/**
+ * POST /grade - 输入答案评分响应
+ */
+export type GradeAnswerResponse = {
+  success: true;
+  data: AnswerGrade;
+};
+
+/**
+ * GET /analytics/heatmap - 学习日历热力图响应
+ */
+export type ReviewHeatmapResponse = {
+  success: true;
+  data: {
+    days: HeatmapDay[];
+  };
+};
+
+/**
+ * GET /analytics/retention - 记忆保持率响应
+ */
+export type RetentionStatsResponse = {
+  success: true;
+  data: RetentionStats;
+};
+
+/**
+ * GET /analytics/answers - 答题按钮分布响应
+ */
+export type AnswerDistributionResponse = {
+  success: true;
+  data: AnswerDistribution;
+};
+
+/**
+ * GET /analytics/maturity - 卡片成熟度分布响应
+ */
+export type CardMaturityResponse = {
+  success: true;
+  data: CardMaturityStats;
+};
+
+/**
+ * GET /forecast - 到期预测响应
+ */
+export type ReviewForecastResponse = {
+  success: true;
+  data: ReviewForecast;
+};
+
 /**
  * ============================================
  * 请求验证 Schema 定义
@@ -91,17 +286,121 @@ export type ExitSessionResponse = {
 /**
  * POST /answer - 提交答案
  */
-const answerSchema = z.object({
+const answerSchema = z
+  .object({
+    cardId: z.number().int().positive(),
+    rating: z.enum(["again", "hard", "good", "easy"]).optional(),
+    typedAnswer: z.string().max(100).optional(), // 输入模式下用户输入的单词
+    sessionId: z.number().int().positive().optional(), // 所属复习会话
+  })
+  .refine((data) => data.rating || data.typedAnswer !== undefined, {
+    message: "rating 和 typedAnswer 至少需要提供一个",
+  });
+
+/**
+ * POST /grade - 输入答案评分
+ */
+const gradeSchema = z.object({
   cardId: z.number().int().positive(),
-  rating: z.enum(["again", "hard", "good", "easy"]),
+  typedAnswer: z.string().max(100),
 });
 
 /**
- * POST /exit - 退出会话
+ * POST /exit - 结束会话
  */
 const exitSchema = z.object({
-  reviewedCount: z.number().int().min(0), // 本次会话复习数量
-  correctCount: z.number().int().min(0), // 本次会话答对数量
+  sessionId: z.number().int().positive(),
+});
+
+/**
+ * POST /custom-session - 自定义学习会话
+ */
+const daysSchema = z.number().int().min(1).max(365);
+
+const customSessionSchema = z.object({
+  filter: z.discriminatedUnion("type", [
+    z.object({
+      type: z.literal("article"),
+      articleId: z.number().int().positive(),
+    }),
+    z.object({ type: z.literal("failed"), days: daysSchema }),
+    z.object({ type: z.literal("recent"), days: daysSchema }),
+    z.object({ type: z.literal("ahead"), days: daysSchema }),
+  ]),
+  reschedule: z.boolean().optional(), // 不传时按会话类型决定
+});
+
+/**
+ * GET /next - 查询参数
+ */
+const nextQuerySchema = z.object({
+  sessionId: z.coerce.number().int().positive().optional(), // 所属复习会话
+});
+
+/**
+ * POST /skip - 跳过卡片
+ */
+const skipSchema = z.object({
+  cardId: z.number().int().positive(),
+  sessionId: z.number().int().positive().optional(), // 所属复习会话
+});
+
+/**
+ * PATCH /settings - 更新复习设置（所有字段可选）
+ */
+const stepsSchema = z
+  .array(z.number().int().min(1).max(1440)) // 每一步 1 分钟 - 1 天
+  .max(10);
+
+const settingsSchema = z.object({
+  schedulerType: z.enum(["sm2", "fsrs"]).optional(),
+  learningSteps: stepsSchema.optional(),
+  relearningSteps: stepsSchema.optional(),
+  newCardsPerDay: z.number().int().min(0).max(9999).optional(),
+  reviewsPerDay: z.number().int().min(0).max(9999).optional(),
+  leechThreshold: z.number().int().min(1).max(99).optional(),
+  leechAction: z.enum(["tag", "suspend"]).optional(),
+  burySiblings: z.boolean().optional(),
+  extraCardTemplates: z.array(z.enum(["reverse", "cloze"])).max(2).optional(),
+  typedAnswerMode: z.boolean().optional(),
+  autoPlayAudio: z.boolean().optional(),
+  desiredRetention: z
+    .number()
+    .min(MIN_DESIRED_RETENTION)
+    .max(MAX_DESIRED_RETENTION)
+    .optional(),
+  loadBalancing: z.boolean().optional(),
+  keyBindings: z
+    .partialRecord(
+      z.enum(REVIEW_ACTIONS),
+      z.string().refine(isValidKey, "无效的按键")
+    )
+    .refine(
+      (bindings) => findKeyConflicts(resolveKeyBindings(bindings)).length === 0,
+      "同一按键不能绑定多个操作"
+    )
+    .optional(),
+});
+
+/**
+ * GET /history/:cardId - 路径参数
+ */
+const historyParamSchema = z.object({
+  cardId: z.coerce.number().int().positive(),
+});
+
+/**
+ * GET /analytics/* - 统计范围（最近 N 天，包含今天）
+ */
+const analyticsQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+});
+
+/**
+ * GET /forecast - 预测天数（包含今天）
+ */
+const forecastQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(7),
 });
 
 /**
@@ -145,10 +444,13 @@ export const reviewRoute = new Hono<{
   /**
    * GET /next - 获取下一张待复习卡片
    *
+   * 传入 sessionId 时记录卡片展示时间，作为答题计时的起点；
+   * 自定义学习会话按会话的卡片队列出卡
+   *
    * 返回：
    * - CardData 或 null（无待复习卡片）
    */
-  .get("/next", async (c) => {
+  .get("/next", zValidator("query", nextQuerySchema), async (c) => {
     const authError = ensureAuthenticated(c);
     if (authError) return authError;
 
@@ -156,8 +458,17 @@ export const reviewRoute = new Hono<{
     const userId = getUserId(session);
 
     try {
+      const { sessionId } = c.req.valid("query");
       const db = c.get("db");
-      const card = await getNextCard(db, userId);
+      const reviewSession = sessionId
+        ? await getActiveReviewSession(db, userId, sessionId)
+        : null;
+
+      const card = reviewSession?.queue
+        ? await getQueuedCard(db, userId, reviewSession.queue)
+        : await getNextCard(db, userId, reviewSession?.skippedCardIds);
+
+      if (card && reviewSession) await markCardShown(db, reviewSession.id);
 
       return c.json(successResponse({ card }));
     } catch (error) {
@@ -173,12 +484,19 @@ export const reviewRoute = new Hono<{
    * 2. 更新每日学习统计
    * 3. 返回下一张卡片
    *
+   * 自定义学习会话按卡片队列出卡；不重新调度的会话不更新卡片状态，
+   * 也不计入每日复习数量（只累计学习时长）
+   *
    * 请求体：
    * - cardId: 卡片 ID
-   * - rating: 难度评级（again/hard/good/easy）
+   * - rating: 难度评级（again/hard/good/easy，可选）
+   * - typedAnswer: 输入模式下用户输入的单词（可选，未传 rating 时使用评分建议的评级）
+   * - sessionId: 所属复习会话（可选）
    *
    * 返回：
    * - nextCard: 下一张卡片或 null
+   * - leech: 难记卡片检测结果（是否新标记为难记卡片、是否被自动暂停）
+   * - grade: 输入答案的评分结果（未传 typedAnswer 时为 null）
    */
   .post("/answer", zValidator("json", answerSchema), async (c) => {
     const authError = ensureAuthenticated(c);
@@ -188,43 +506,174 @@ export const reviewRoute = new Hono<{
     const userId = getUserId(session);
 
     try {
-      const { cardId, rating } = c.req.valid("json");
+      const {
+        cardId,
+        rating: requestedRating,
+        typedAnswer,
+        sessionId,
+      } = c.req.valid("json");
       const db = c.get("db");
+      const now = new Date();
+
+      // 0. 复习会话：计算答题用时（从卡片展示到现在）
+      const reviewSession = sessionId
+        ? await getActiveReviewSession(db, userId, sessionId)
+        : null;
+      if (sessionId && !reviewSession) {
+        return c.json({ error: "复习会话不存在或已结束" }, 404);
+      }
+      const timing = reviewSession
+        ? {
+            sessionId: reviewSession.id,
+            durationMs: getAnswerDuration(reviewSession.cardShownAt, now),
+          }
+        : undefined;
 
-      // 1. 提交答案并更新卡片状态
-      const success = await submitAnswer(db, userId, cardId, rating);
+      // 1. 输入模式：先评分，未指定评级时使用建议评级
+      let grade: AnswerGrade | null = null;
+      if (typedAnswer !== undefined) {
+        grade = await gradeTypedAnswer(db, userId, cardId, typedAnswer);
+        if (!grade) {
+          return c.json({ error: "卡片不存在或无权限" }, 404);
+        }
+      }
+      const rating = requestedRating ?? grade!.suggestedRating;
+
+      // 2. 提交答案并更新卡片状态（不重新调度的会话只检查卡片属于本次会话）
+      const reschedule = reviewSession?.reschedule ?? true;
+      if (!reschedule && !reviewSession!.queue?.includes(cardId)) {
+        return c.json({ error: "卡片不在本次学习会话中" }, 404);
+      }
+      const outcome = reschedule
+        ? await submitAnswer(db, userId, cardId, rating, timing)
+        : { becameLeech: false, suspended: false };
 
-      if (!success) {
+      if (!outcome) {
         return c.json({ error: "卡片不存在或无权限" }, 404);
       }
 
-      // 2. 更新每日统计（异步，不阻塞响应）
-      const correctCount = rating !== "again" ? 1 : 0;
-      updateDailyStats(db, userId, 1, correctCount).catch((err) => {
+      // 3. 获取下一张卡片（自定义学习会话先推进卡片队列）
+      const queue = reviewSession?.queue
+        ? advanceQueue(reviewSession.queue, cardId, rating)
+        : undefined;
+      const nextCard = queue
+        ? await getQueuedCard(db, userId, queue)
+        : await getNextCard(db, userId, reviewSession?.skippedCardIds);
+
+      // 4. 累加会话统计（返回下一张卡片时重新开始计时）
+      const timeSpentMinutes = reviewSession
+        ? await recordSessionAnswer(
+            db,
+            reviewSession,
+            rating,
+            timing!.durationMs,
+            !!nextCard,
+            queue
+          )
+        : 0;
+
+      // 5. 更新每日统计（异步，不阻塞响应）
+      const reviewedCount = reschedule ? 1 : 0;
+      const correctCount = reschedule && rating !== "again" ? 1 : 0;
+      updateDailyStats(
+        db,
+        userId,
+        reviewedCount,
+        correctCount,
+        timeSpentMinutes
+      ).catch((err) => {
         console.error("更新每日统计失败:", err);
       });
 
-      // 3. 获取下一张卡片
-      const nextCard = await getNextCard(db, userId);
-
-      return c.json(successResponse({ nextCard }));
+      return c.json(successResponse({ nextCard, leech: outcome, grade }));
     } catch (error) {
       return handleServiceError(c, error, "提交答案失败");
     }
   })
 
+  /**
+   * POST /undo - 撤销最近一次答题
+   *
+   * 将最近一次答题的卡片恢复到答题前的状态，并回退每日统计
+   *
+   * 返回：
+   * - card: 恢复后的卡片（重新展示给用户）
+   * - rating: 被撤销的评级
+   */
+  .post("/undo", async (c) => {
+    const authError = ensureAuthenticated(c);
+    if (authError) return authError;
+
+    const session = c.get("session")!;
+    const userId = getUserId(session);
+
+    try {
+      const db = c.get("db");
+      const result = await undoLastAnswer(db, userId);
+
+      if (!result) {
+        return c.json({ error: "没有可撤销的答题" }, 404);
+      }
+
+      return c.json(successResponse(result));
+    } catch (error) {
+      return handleServiceError(c, error, "撤销失败");
+    }
+  })
+
+  /**
+   * POST /grade - 对输入模式下用户输入的单词评分
+   *
+   * 只评分不更新卡片，前端据此展示对错并预选建议评级，
+   * 用户确认（或改选）评级后再调用 POST /answer
+   *
+   * 请求体：
+   * - cardId: 卡片 ID
+   * - typedAnswer: 用户输入的单词
+   *
+   * 返回：
+   * - match: 匹配类型（exact / inflection / typo / wrong）
+   * - expected: 期望答案
+   * - suggestedRating: 建议的难度评级
+   */
+  .post("/grade", zValidator("json", gradeSchema), async (c) => {
+    const authError = ensureAuthenticated(c);
+    if (authError) return authError;
+
+    const session = c.get("session")!;
+    const userId = getUserId(session);
+
+    try {
+      const { cardId, typedAnswer } = c.req.valid("json");
+      const db = c.get("db");
+      const grade = await gradeTypedAnswer(db, userId, cardId, typedAnswer);
+
+      if (!grade) {
+        return c.json({ error: "卡片不存在或无权限" }, 404);
+      }
+
+      return c.json(successResponse(grade));
+    } catch (error) {
+      return handleServiceError(c, error, "评分失败");
+    }
+  })
+
   /**
    * POST /skip - 跳过当前卡片
    *
-   * 简单方案：不更新数据库，只返回下一张卡片
-   * 被跳过的卡片保持原 nextReviewDate，下次复习时仍会出现
+   * 不改变卡片的复习计划，被跳过的卡片保持原 nextReviewDate：
+   * - 正常复习会话：本次会话中不再出现，下次复习时仍会出现
+   * - 自定义学习会话：移到队列末尾
+   * - 不传 sessionId 时只在本次请求中排除该卡片
    *
-   * 请求体：无需参数（跳过不需要记录）
+   * 请求体：
+   * - cardId: 跳过的卡片 ID
+   * - sessionId: 所属复习会话（可选）
    *
    * 返回：
    * - nextCard: 下一张卡片或 null
    */
-  .post("/skip", async (c) => {
+  .post("/skip", zValidator("json", skipSchema), async (c) => {
     const authError = ensureAuthenticated(c);
     if (authError) return authError;
 
@@ -232,10 +681,27 @@ export const reviewRoute = new Hono<{
     const userId = getUserId(session);
 
     try {
+      const { cardId, sessionId } = c.req.valid("json");
       const db = c.get("db");
 
-      // 直接获取下一张卡片（不更新任何数据）
-      const nextCard = await getNextCard(db, userId);
+      const reviewSession = sessionId
+        ? await getActiveReviewSession(db, userId, sessionId)
+        : null;
+      if (sessionId && !reviewSession) {
+        return c.json({ error: "复习会话不存在或已结束" }, 404);
+      }
+
+      let nextCard: CardData | null;
+      if (reviewSession) {
+        const updated = await skipSessionCard(db, reviewSession, cardId);
+        nextCard = updated.queue
+          ? await getQueuedCard(db, userId, updated.queue)
+          : await getNextCard(db, userId, updated.skippedCardIds);
+        // 跳过的卡片不计时，从下一张卡片展示时重新开始
+        if (nextCard) await markCardShown(db, reviewSession.id);
+      } else {
+        nextCard = await getNextCard(db, userId, [cardId]);
+      }
 
       return c.json(successResponse({ nextCard }));
     } catch (error) {
@@ -244,16 +710,113 @@ export const reviewRoute = new Hono<{
   })
 
   /**
-   * POST /exit - 退出复习会话并更新统计
+   * POST /start - 开始复习会话
    *
-   * 用于记录本次会话的学习数据，更新 userLearningStats 表
+   * 返回的会话 ID 需要在 GET /next、POST /answer 和 POST /exit 中传入，
+   * 服务端据此计算答题用时并累计会话统计
+   *
+   * 返回：
+   * - 会话汇总（计数均为 0）
+   */
+  .post("/start", async (c) => {
+    const authError = ensureAuthenticated(c);
+    if (authError) return authError;
+
+    const session = c.get("session")!;
+    const userId = getUserId(session);
+
+    try {
+      const db = c.get("db");
+      const summary = await startReviewSession(db, userId);
+
+      return c.json(successResponse(summary));
+    } catch (error) {
+      return handleServiceError(c, error, "开始复习会话失败");
+    }
+  })
+
+  /**
+   * POST /custom-session - 开始自定义学习会话（筛选卡组）
+   *
+   * 按筛选条件生成卡片队列，之后和普通复习会话一样通过 GET /next、
+   * POST /answer 和 POST /exit 学习，不受每日上限和搁置限制
+   *
+   * 请求体：
+   * - filter: 筛选条件
+   *   - { type: "article", articleId }: 某篇文章中的所有单词
+   *   - { type: "failed", days }: 最近 N 天内答错过的卡片
+   *   - { type: "recent", days }: 最近 N 天内新加入的单词
+   *   - { type: "ahead", days }: 提前复习未来 N 天内到期的卡片
+   * - reschedule: 答题是否改变复习计划（可选，默认只有提前复习会重新调度）
+   *
+   * 返回：
+   * - 会话汇总（remainingCount 为队列中的卡片数）
+   */
+  .post(
+    "/custom-session",
+    zValidator("json", customSessionSchema),
+    async (c) => {
+      const authError = ensureAuthenticated(c);
+      if (authError) return authError;
+
+      const session = c.get("session")!;
+      const userId = getUserId(session);
+
+      try {
+        const { filter, reschedule } = c.req.valid("json");
+        const db = c.get("db");
+        const summary = await startCustomSession(
+          db,
+          userId,
+          filter,
+          reschedule
+        );
+
+        if (!summary) {
+          return c.json({ error: "没有符合条件的卡片" }, 404);
+        }
+
+        return c.json(successResponse(summary));
+      } catch (error) {
+        return handleServiceError(c, error, "创建自定义学习会话失败");
+      }
+    }
+  )
+
+  /**
+   * GET /custom-session/articles - 可按文章筛选的文章列表
+   *
+   * 返回：
+   * - articles: 保存过单词的文章（最多 50 篇，最近保存的在前）
+   */
+  .get("/custom-session/articles", async (c) => {
+    const authError = ensureAuthenticated(c);
+    if (authError) return authError;
+
+    const session = c.get("session")!;
+    const userId = getUserId(session);
+
+    try {
+      const db = c.get("db");
+      const articles = await getCustomSessionArticles(db, userId);
+
+      return c.json(successResponse({ articles }));
+    } catch (error) {
+      return handleServiceError(c, error, "获取文章列表失败");
+    }
+  })
+
+  /**
+   * POST /exit - 结束复习会话
+   *
+   * 会话的复习数量、答对数量和学习时长都由服务端在答题时累计，
+   * 每日统计也已随答题更新，这里只标记会话结束
    *
    * 请求体：
-   * - reviewedCount: 本次会话复习数量
-   * - correctCount: 本次会话答对数量
+   * - sessionId: 会话 ID
    *
    * 返回：
-   * - success: true
+   * - 会话汇总（复习数量、答对数量、学习时长）
    */
   .post("/exit", zValidator("json", exitSchema), async (c) => {
     const authError = ensureAuthenticated(c);
@@ -263,17 +826,334 @@ export const reviewRoute = new Hono<{
     const userId = getUserId(session);
 
     try {
-      const { reviewedCount, correctCount } = c.req.valid("json");
+      const { sessionId } = c.req.valid("json");
       const db = c.get("db");
+      const summary = await endReviewSession(db, userId, sessionId);
 
-      // 更新每日统计
-      if (reviewedCount > 0) {
-        await updateDailyStats(db, userId, reviewedCount, correctCount);
+      if (!summary) {
+        return c.json({ error: "复习会话不存在或已结束" }, 404);
       }
 
-      return c.json(successResponse({ success: true }));
+      return c.json(successResponse(summary));
+    } catch (error) {
+      return handleServiceError(c, error, "结束复习会话失败");
+    }
+  })
+
+  /**
+   * GET /settings - 获取复习设置
+   *
+   * 返回：
+   * - schedulerType: 调度算法（sm2 / fsrs）
+   * - learningSteps: 学习步骤（分钟）
+   * - relearningSteps: 重学步骤（分钟）
+   * - newCardsPerDay: 每日新卡片上限
+   * - reviewsPerDay: 每日复习上限
+   * - leechThreshold: 难记卡片阈值（遗忘次数）
+   * - leechAction: 难记卡片处理方式（tag / suspend）
+   * - burySiblings: 是否搁置同一单词的其他含义
+   * - extraCardTemplates: 额外启用的卡片模板（reverse / cloze）
+   * - typedAnswerMode: reverse / cloze 卡片是否通过输入单词作答
+   * - autoPlayAudio: 翻转卡片时是否自动朗读单词
+   * - keyBindings: 复习快捷键（操作 → 按键）
+   * - desiredRetention: 目标保留率
+   * - loadBalancing: 是否按每日到期数量均衡复习间隔
+   */
+  .get("/settings", async (c) => {
+    const authError = ensureAuthenticated(c);
+    if (authError) return authError;
+
+    const session = c.get("session")!;
+    const userId = getUserId(session);
+
+    try {
+      const db = c.get("db");
+      const settings = await getReviewSettings(db, userId);
+
+      return c.json(successResponse(settings));
+    } catch (error) {
+      return handleServiceError(c, error, "获取复习设置失败");
+    }
+  })
+
+  /**
+   * PATCH /settings - 更新复习设置
+   *
+   * 请求体（均为可选）：
+   * - schedulerType: 调度算法（sm2 / fsrs）
+   * - learningSteps: 学习步骤（分钟，空数组表示不使用学习步骤）
+   * - relearningSteps: 重学步骤（分钟，空数组表示不使用重学步骤）
+   * - newCardsPerDay: 每日新卡片上限
+   * - reviewsPerDay: 每日复习上限
+   * - leechThreshold: 难记卡片阈值（遗忘次数）
+   * - leechAction: 难记卡片处理方式（tag：只标记 / suspend：标记并暂停）
+   * - burySiblings: 复习后是否将同一单词的其他含义搁置到明天
+   * - extraCardTemplates: 额外启用的卡片模板
+   *   （reverse：看含义回忆单词 / cloze：例句填空），启用后为已有含义补充生成卡片
+   * - typedAnswerMode: reverse / cloze 卡片是否通过输入单词作答
+   * - autoPlayAudio: 翻转卡片时是否自动朗读单词
+   * - desiredRetention: 目标保留率（0.7 - 0.97）
+   * - loadBalancing: 是否在间隔的随机范围内选择到期卡片最少的一天
+   * - keyBindings: 复习快捷键（未传入的操作使用默认按键，同一按键不能绑定多个操作）
+   *
+   * 返回：
+   * - 更新后的完整设置
+   */
+  .patch("/settings", zValidator("json", settingsSchema), async (c) => {
+    const authError = ensureAuthenticated(c);
+    if (authError) return authError;
+
+    const session = c.get("session")!;
+    const userId = getUserId(session);
+
+    try {
+      const { keyBindings, ...updates } = c.req.valid("json");
+      const db = c.get("db");
+      const settings = await updateReviewSettings(db, userId, {
+        ...updates,
+        // 保存完整的绑定（传入空对象表示恢复默认快捷键）
+        ...(keyBindings && { keyBindings: resolveKeyBindings(keyBindings) }),
+      });
+
+      // 新启用的模板需要为已有含义生成卡片（已存在的不会重复生成）
+      if (updates.extraCardTemplates) {
+        await createTemplateCards(db, userId, settings.extraCardTemplates);
+      }
+
+      return c.json(successResponse(settings));
+    } catch (error) {
+      return handleServiceError(c, error, "更新复习设置失败");
+    }
+  })
+
+  /**
+   * GET /optimizer - 调度参数优化报告
+   *
+   * 根据复习日志拟合调度参数（只计算，不修改设置）
+   *
+   * 返回：
+   * - reviewCount / observedRetention: 参与拟合的复习次数和实际保留率
+   * - parameters: 拟合出的参数（复习记录不足时为 null）
+   * - current / desiredRetention: 当前使用的参数和目标保留率
+   * - tradeoffs: 各目标保留率下的间隔系数和相对复习量
+   */
+  .get("/optimizer", async (c) => {
+    const authError = ensureAuthenticated(c);
+    if (authError) return authError;
+
+    const session = c.get("session")!;
+    const userId = getUserId(session);
+
+    try {
+      const db = c.get("db");
+      const report = await getSchedulerOptimizerReport(db, userId);
+
+      return c.json(successResponse(report));
+    } catch (error) {
+      return handleServiceError(c, error, "获取优化报告失败");
+    }
+  })
+
+  /**
+   * POST /optimizer - 拟合调度参数并写入复习设置
+   *
+   * 返回：
+   * - settings: 更新后的完整设置
+   * - report: 优化报告
+   */
+  .post("/optimizer", async (c) => {
+    const authError = ensureAuthenticated(c);
+    if (authError) return authError;
+
+    const session = c.get("session")!;
+    const userId = getUserId(session);
+
+    try {
+      const db = c.get("db");
+      const { settings, report } = await applyOptimizedParameters(db, userId);
+
+      if (!settings) {
+        return c.json(
+          {
+            error: `复习记录不足，至少需要 ${MIN_OPTIMIZER_REVIEWS} 次复习（当前 ${report.reviewCount} 次）`,
+          },
+          400
+        );
+      }
+
+      return c.json(successResponse({ settings, report }));
+    } catch (error) {
+      return handleServiceError(c, error, "优化调度参数失败");
+    }
+  })
+
+  /**
+   * GET /history/:cardId - 获取单张卡片的复习历史
+   *
+   * 返回：
+   * - logs: 复习日志列表（按答题时间倒序）
+   */
+  .get(
+    "/history/:cardId",
+    zValidator("param", historyParamSchema),
+    async (c) => {
+      const authError = ensureAuthenticated(c);
+      if (authError) return authError;
+
+      const session = c.get("session")!;
+      const userId = getUserId(session);
+
+      try {
+        const { cardId } = c.req.valid("param");
+        const db = c.get("db");
+        const logs = await getCardHistory(db, userId, cardId);
+
+        if (!logs) {
+          return c.json({ error: "卡片不存在或无权限" }, 404);
+        }
+
+        return c.json(successResponse({ logs }));
+      } catch (error) {
+        return handleServiceError(c, error, "获取复习历史失败");
+      }
+    }
+  )
+
+  /**
+   * GET /analytics/heatmap - 学习日历热力图
+   *
+   * 返回：
+   * - days: 每日复习 / 新词 / 文章分析数量（没有记录的日期补 0）
+   */
+  .get(
+    "/analytics/heatmap",
+    zValidator("query", analyticsQuerySchema),
+    async (c) => {
+      const authError = ensureAuthenticated(c);
+      if (authError) return authError;
+
+      const session = c.get("session")!;
+      const userId = getUserId(session);
+
+      try {
+        const { days } = c.req.valid("query");
+        const db = c.get("db");
+        const heatmap = await getReviewHeatmap(db, userId, days);
+
+        return c.json(successResponse({ days: heatmap }));
+      } catch (error) {
+        return handleServiceError(c, error, "获取学习日历失败");
+      }
+    }
+  )
+
+  /**
+   * GET /analytics/retention - 真实记忆保持率
+   *
+   * 只统计复习阶段的答题（不含新卡片和学习步骤），again 视为遗忘
+   *
+   * 返回：
+   * - series: 每日保持率
+   * - young / mature: 范围内各阶段的答对数和总数
+   * - retention: 范围内整体保持率
+   */
+  .get(
+    "/analytics/retention",
+    zValidator("query", analyticsQuerySchema),
+    async (c) => {
+      const authError = ensureAuthenticated(c);
+      if (authError) return authError;
+
+      const session = c.get("session")!;
+      const userId = getUserId(session);
+
+      try {
+        const { days } = c.req.valid("query");
+        const db = c.get("db");
+        const stats = await getRetentionStats(db, userId, days);
+
+        return c.json(successResponse(stats));
+      } catch (error) {
+        return handleServiceError(c, error, "获取记忆保持率失败");
+      }
+    }
+  )
+
+  /**
+   * GET /analytics/answers - 答题按钮分布
+   *
+   * 返回：learning / young / mature 三个阶段中每种评级的答题次数
+   */
+  .get(
+    "/analytics/answers",
+    zValidator("query", analyticsQuerySchema),
+    async (c) => {
+      const authError = ensureAuthenticated(c);
+      if (authError) return authError;
+
+      const session = c.get("session")!;
+      const userId = getUserId(session);
+
+      try {
+        const { days } = c.req.valid("query");
+        const db = c.get("db");
+        const distribution = await getAnswerDistribution(db, userId, days);
+
+        return c.json(successResponse(distribution));
+      } catch (error) {
+        return handleServiceError(c, error, "获取答题分布失败");
+      }
+    }
+  )
+
+  /**
+   * GET /analytics/maturity - 卡片成熟度分布
+   *
+   * 返回：
+   * - new / learning / young / mature: 各成熟度的卡片数量
+   * - suspended: 已暂停的卡片数量
+   * - total: 卡片总数
+   */
+  .get("/analytics/maturity", async (c) => {
+    const authError = ensureAuthenticated(c);
+    if (authError) return authError;
+
+    const session = c.get("session")!;
+    const userId = getUserId(session);
+
+    try {
+      const db = c.get("db");
+      const maturity = await getCardMaturity(db, userId);
+
+      return c.json(successResponse(maturity));
+    } catch (error) {
+      return handleServiceError(c, error, "获取卡片成熟度失败");
+    }
+  })
+
+  /**
+   * GET /forecast - 未来每日到期卡片数量预测
+   *
+   * 返回：
+   * - days: 每日到期数量（今天包含已逾期的卡片）
+   * - overdueCount: 已逾期的卡片数
+   * - newCount: 等待学习的新卡片数（不计入每日预测）
+   */
+  .get("/forecast", zValidator("query", forecastQuerySchema), async (c) => {
+    const authError = ensureAuthenticated(c);
+    if (authError) return authError;
+
+    const session = c.get("session")!;
+    const userId = getUserId(session);
+
+    try {
+      const { days } = c.req.valid("query");
+      const db = c.get("db");
+      const forecast = await getReviewForecast(db, userId, days);
+
+      return c.json(successResponse(forecast));
     } catch (error) {
-      return handleServiceError(c, error, "保存进度失败");
+      return handleServiceError(c, error, "获取复习预测失败");
     }
   });
 
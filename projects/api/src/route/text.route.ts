@@ -1,10 +1,11 @@
 /**
  * 文本分析路由模块
  *
- * 提供三个核心 API：
+ * 提供四个核心 API：
  * 1. POST /analyze - 分析文章，返回陌生词汇列表
  * 2. POST /explain - 获取单词的 AI 解释和分类
- * 3. POST /save - 保存选中的单词到词汇表
+ * 3. POST /explain/stream - 分批获取 AI 解释（SSE 流式返回）
+ * 4. POST /save - 保存选中的单词到词汇表
  *
  * 职责：
  * - 请求参数验证（Zod schema）
@@ -14,6 +15,7 @@
  */
 
 import { Hono } from "hono";
+import { streamSSE } from "hono/streaming";
 import { z } from "zod";
 import { zValidator } from "@hono/zod-validator";
 import type { Bindings } from "../types/bindings";
@@ -21,11 +23,15 @@ import type { AppVariables } from "../types/variables";
 import { ensureAuthenticated } from "../utils/session";
 import {
   analyzeArticle,
-  explainWordsByAi,
+  explainWordsWithCache,
   classifyWordMeanings,
   saveWordMeanings,
   queryExistingMeanings,
+  explainWordsInBatches,
+  type ExplanationBatch,
 } from "../service/text.service";
+import { createNLPProvider } from "../service/text-nlp.service";
+import { createAIProvider } from "../service/ai-provider.service";
 import {
   saveOrUpdateArticle,
   calculateWordCount,
@@ -35,7 +41,7 @@ import {
   successResponse,
   handleServiceError,
 } from "../utils/route-helpers";
-import { isFallbackData } from "../utils/ai-fallback";
+import { resolveAIProviderConfig } from "../utils/ai-provider";
 import {
   getUserFriendlyMessage,
   classifyAIError,
@@ -104,10 +110,10 @@ export const textRoute = new Hono<{
   /**
    * POST /analyze - 分析文章
    *
-   * 功能：使用 Google NLP 分析文章，返回陌生词汇列表
+   * 功能：使用 NLP 提供方（Google 或本地分析）分析文章，返回陌生词汇列表
    *
    * 流程：
-   * 1. 调用 Google NLP API 分析文本
+   * 1. 调用 NLP 提供方分析文本
    * 2. 根据用户词汇等级过滤陌生词
    * 3. 返回陌生词列表和统计信息
    */
@@ -126,10 +132,10 @@ export const textRoute = new Hono<{
       try {
         const { content } = c.req.valid("json");
         const db = c.get("db");
-        const googleApiKey = c.env.GOOGLE_NLP_API_KEY;
+        const nlpProvider = createNLPProvider(c.env);
 
-        // 检查 API Key 配置
-        if (!googleApiKey) {
+        // 指定使用 Google NLP 时检查 API Key 配置
+        if (!nlpProvider) {
           return c.json({ error: "Google NLP API Key 未配置" }, 500);
         }
 
@@ -158,7 +164,7 @@ export const textRoute = new Hono<{
         }
 
         // 调用服务层分析文章
-        const result = await analyzeArticle(db, userId, content, googleApiKey);
+        const result = await analyzeArticle(db, userId, content, nlpProvider);
 
         // 返回结果
         return c.json(
@@ -180,10 +186,11 @@ export const textRoute = new Hono<{
    *
    * 流程：
    * 1. 查询用户已学过的含义
-   * 2. 调用 AI 生成上下文相关的解释
-   * 3. AI 判断是否为已掌握的含义（isExisting）
-   * 4. 根据学习历史分类（new/extend/existing）
-   * 5. 返回分类后的解释列表
+   * 2. 完全陌生的词先查询共享缓存（lemma + 所在句子 + Prompt 版本 + 模型）
+   * 3. 未命中的单词调用 AI 生成上下文相关的解释
+   * 4. AI 判断是否为已掌握的含义（isExisting）
+   * 5. 根据学习历史分类（new/extend/existing）
+   * 6. 返回分类后的解释列表和缓存命中统计（cacheHits / cacheMisses）
    */
   .post("/explain", zValidator("json", explainWordsSchema), async (c) => {
     // 认证检查
@@ -196,10 +203,10 @@ export const textRoute = new Hono<{
     try {
       const { unfamiliarWords, articleContent } = c.req.valid("json");
       const db = c.get("db");
-      const apiKey = c.env.AIHUBMIX_API_KEY;
+      const aiConfig = resolveAIProviderConfig(c.env);
 
       // 检查 API Key 配置
-      if (!apiKey) {
+      if (!aiConfig) {
         return c.json({ error: "AI API Key 未配置" }, 500);
       }
 
@@ -210,21 +217,20 @@ export const textRoute = new Hono<{
         db
       );
 
-      // 2. 调用 AI 生成解释（传递所有陌生词汇用于降级方案）
-      const aiExplanations = await explainWordsByAi(
-        articleContent,
-        newWords,
-        wordsWithMeanings,
-        apiKey,
-        unfamiliarWords // 传递所有陌生词汇，用于降级方案
-      );
-
-      // 3. 检查是否为降级数据
-      const isFallback = isFallbackData(aiExplanations);
+      // 2. 查询解释缓存，未命中的单词调用 AI 生成解释
+      // （AI 失败时未命中的单词使用降级数据）
+      const { explanations, isFallback, cacheHits, cacheMisses } =
+        await explainWordsWithCache(
+          articleContent,
+          newWords,
+          wordsWithMeanings,
+          createAIProvider(aiConfig, db),
+          db
+        );
 
-      // 4. 分类（生成 type 字段：new/extend/existing）
+      // 3. 分类（生成 type 字段：new/extend/existing）
       const classifiedMeanings = await classifyWordMeanings(
-        aiExplanations,
+        explanations,
         unfamiliarWords,
         userId,
         db
@@ -233,13 +239,17 @@ export const textRoute = new Hono<{
       console.log("返回给前端的数据：", {
         count: classifiedMeanings.length,
         isFallback,
+        cacheHits,
+        cacheMisses,
       });
 
-      // 5. 返回结果（包含降级标记）
+      // 4. 返回结果（包含降级标记和缓存统计）
       return c.json(
         successResponse({
           results: classifiedMeanings,
           isFallback, // 标记是否为降级数据
+          cacheHits, // 命中缓存的单词数
+          cacheMisses, // 交给 AI 的单词数
         })
       );
     } catch (error) {
@@ -250,6 +260,83 @@ export const textRoute = new Hono<{
     }
   })
 
+  /**
+   * POST /explain/stream - 分批获取 AI 解释（SSE）
+   *
+   * 功能：与 /explain 相同，但将单词分批交给 AI，每批完成后立即推送，
+   * 前端可以逐批展示，不必等待全部完成
+   *
+   * 事件：
+   * - batch：一批解释（ExplanationBatch），AI 失败的批次为降级数据
+   * - done：全部完成（{ fallbackBatches, cacheHits, cacheMisses }）
+   * - error：中途出错（{ error: 用户友好的错误信息 }），之前推送的批次仍然有效
+   */
+  .post(
+    "/explain/stream",
+    zValidator("json", explainWordsSchema),
+    async (c) => {
+      // 认证检查
+      const authError = ensureAuthenticated(c);
+      if (authError) return authError;
+
+      const session = c.get("session")!;
+      const userId = getUserId(session);
+
+      const { unfamiliarWords, articleContent } = c.req.valid("json");
+      const db = c.get("db");
+      const aiConfig = resolveAIProviderConfig(c.env);
+
+      // 检查 API Key 配置（开始推送前以普通 JSON 响应返回）
+      if (!aiConfig) {
+        return c.json({ error: "AI API Key 未配置" }, 500);
+      }
+      const provider = createAIProvider(aiConfig, db);
+
+      return streamSSE(c, async (stream) => {
+        let fallbackBatches = 0;
+        let cacheHits = 0;
+        let cacheMisses = 0;
+
+        try {
+          for await (const batch of explainWordsInBatches(
+            articleContent,
+            unfamiliarWords,
+            provider,
+            userId,
+            db
+          )) {
+            // 客户端已断开，不再继续调用 AI
+            if (stream.aborted) return;
+
+            if (batch.isFallback) fallbackBatches++;
+            cacheHits += batch.cacheHits;
+            cacheMisses += batch.cacheMisses;
+            await stream.writeSSE({
+              event: "batch",
+              data: JSON.stringify(batch),
+            });
+          }
+
+          await stream.writeSSE({
+            event: "done",
+            data: JSON.stringify({
+              fallbackBatches,
+              cacheHits,
+              cacheMisses,
+            }),
+          });
+        } catch (error) {
+          const aiError = classifyAIError(error);
+          console.error("流式生成解释失败：", aiError);
+          await stream.writeSSE({
+            event: "error",
+            data: JSON.stringify({ error: getUserFriendlyMessage(aiError) }),
+          });
+        }
+      });
+    }
+  )
+
   /**
    * POST /save - 保存单词到词汇表
    *
@@ -315,3 +402,14 @@ export const textRoute = new Hono<{
 
 // 导出类型供前端使用
 export type TextRouteType = typeof textRoute;
+
+/**
+ * POST /explain/stream - SSE 事件数据
+ */
+export type ExplainStreamBatchEvent = ExplanationBatch;
+export type ExplainStreamDoneEvent = {
+  fallbackBatches: number; // 降级批次数
+  cacheHits: number; // 命中缓存的单词数
+  cacheMisses: number; // 交给 AI 的单词数
+};
+export type ExplainStreamErrorEvent = { error: string };
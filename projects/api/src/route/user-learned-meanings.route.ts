@@ -1,5 +1,15 @@
 /**
  * 用户学习单词路由模块
+ *
+ * 提供以下 API：
+ * 1. POST /add - 添加学习单词
+ * 2. PUT /update - 更新学习单词
+ * 3. DELETE /remove - 删除学习单词
+ * 4. GET /list - 查询学习单词列表
+ * 5. POST /suspend - 暂停复习
+ * 6. POST /unsuspend - 恢复复习
+ * 7. POST /bury - 搁置到明天
+ * 8. POST /reset - 重置复习进度
  */
 
 import { Hono } from "hono";
@@ -13,6 +23,9 @@ import {
   updateLearningWord,
   removeLearningWord,
   getUserLearningWordsList,
+  setLearningWordSuspended,
+  buryLearningWord,
+  resetLearningWordProgress,
 } from "../service/user-learned-meanings.service";
 import {
   getUserId,
@@ -38,6 +51,10 @@ export type LearningWordItem = {
   nextReviewDate: Date | null;
   lastReviewedAt: Date | null;
   totalReviews: number;
+  lapses: number;
+  isLeech: boolean;
+  isSuspended: boolean;
+  buriedUntil: Date | null;
   createdAt: Date;
 };
 
@@ -71,6 +88,13 @@ export type RemoveLearningWordResponse = {
   };
 };
 
+export type LearningWordActionResponse = {
+  success: true;
+  data: {
+    message: string;
+  };
+};
+
 /**
  * ============================================
  * 请求验证 Schema 定义
@@ -88,12 +112,18 @@ const updateLearningWordSchema = z.object({
   id: z.number().positive("ID必须为正整数"),
   word: z.string().min(1, "单词不能为空"),
   meaningText: z.string().min(1, "含义不能为空"),
+  pos: z.string().nullable().optional(),
+  exampleSentence: z.string().nullable().optional(),
 });
 
 const removeLearningWordSchema = z.object({
   id: z.number().positive("ID必须为正整数"),
 });
 
+const learningWordActionSchema = z.object({
+  id: z.number().positive("ID必须为正整数"),
+});
+
 /**
  * ============================================
  * 路由定义
@@ -139,10 +169,14 @@ export const userLearningWordsRoute = new Hono<{
     const userId = getUserId(session);
 
     try {
-      const { id, word, meaningText } = c.req.valid("json");
+      const { id, word, meaningText, pos, exampleSentence } =
+        c.req.valid("json");
       const db = c.get("db");
 
-      await updateLearningWord(db, userId, id, word, meaningText);
+      await updateLearningWord(db, userId, id, word, meaningText, {
+        pos,
+        exampleSentence,
+      });
 
       return c.json(
         successResponse({
@@ -206,4 +240,96 @@ export const userLearningWordsRoute = new Hono<{
     } catch (error) {
       return handleServiceError(c, error, "查询学习单词失败");
     }
+  })
+
+  .post("/suspend", zValidator("json", learningWordActionSchema), async (c) => {
+    const authError = ensureAuthenticated(c);
+    if (authError) return authError;
+
+    const session = c.get("session")!;
+    const userId = getUserId(session);
+
+    try {
+      const { id } = c.req.valid("json");
+      const db = c.get("db");
+
+      const found = await setLearningWordSuspended(db, userId, id, true);
+      if (!found) {
+        return c.json({ error: "单词不存在或无权限" }, 404);
+      }
+
+      return c.json(successResponse({ message: "已暂停复习" }));
+    } catch (error) {
+      return handleServiceError(c, error, "暂停复习失败");
+    }
+  })
+
+  .post(
+    "/unsuspend",
+    zValidator("json", learningWordActionSchema),
+    async (c) => {
+      const authError = ensureAuthenticated(c);
+      if (authError) return authError;
+
+      const session = c.get("session")!;
+      const userId = getUserId(session);
+
+      try {
+        const { id } = c.req.valid("json");
+        const db = c.get("db");
+
+        const found = await setLearningWordSuspended(db, userId, id, false);
+        if (!found) {
+          return c.json({ error: "单词不存在或无权限" }, 404);
+        }
+
+        return c.json(successResponse({ message: "已恢复复习" }));
+      } catch (error) {
+        return handleServiceError(c, error, "恢复复习失败");
+      }
+    }
+  )
+
+  .post("/bury", zValidator("json", learningWordActionSchema), async (c) => {
+    const authError = ensureAuthenticated(c);
+    if (authError) return authError;
+
+    const session = c.get("session")!;
+    const userId = getUserId(session);
+
+    try {
+      const { id } = c.req.valid("json");
+      const db = c.get("db");
+
+      const found = await buryLearningWord(db, userId, id);
+      if (!found) {
+        return c.json({ error: "单词不存在或无权限" }, 404);
+      }
+
+      return c.json(successResponse({ message: "已搁置到明天" }));
+    } catch (error) {
+      return handleServiceError(c, error, "搁置失败");
+    }
+  })
+
+  .post("/reset", zValidator("json", learningWordActionSchema), async (c) => {
+    const authError = ensureAuthenticated(c);
+    if (authError) return authError;
+
+    const session = c.get("session")!;
+    const userId = getUserId(session);
+
+    try {
+      const { id } = c.req.valid("json");
+      const db = c.get("db");
+
+      const found = await resetLearningWordProgress(db, userId, id);
+      if (!found) {
+        return c.json({ error: "单词不存在或无权限" }, 404);
+      }
+
+      return c.json(successResponse({ message: "已重置复习进度" }));
+    } catch (error) {
+      return handleServiceError(c, error, "重置复习进度失败");
+    }
   });
@@ -11,12 +11,31 @@ import { eq, and } from "drizzle-orm";
 import { type Bindings } from "../types/bindings";
 import type { AuthenticatedVariables } from "../types/variables";
 import { ensureAuthenticated } from "../utils/session";
+import {
+  getUserId,
+  successResponse,
+  handleServiceError,
+} from "../utils/route-helpers";
+import {
+  getUserLearningSummary,
+  type UserLearningSummary,
+} from "../service/user-stats.service";
+import { getUserDayBoundary } from "../service/user-preferences.service";
+import { getDayStart, isValidTimezone } from "../utils/day-boundary";
 
 /**
  * User 路由
  * 注意：注册和登录由 Better Auth 自动提供在 /api/auth/** 路径下
  */
 
+/**
+ * GET /me/stats - 学习统计响应
+ */
+export type UserStatsResponse = {
+  success: true;
+  data: UserLearningSummary;
+};
+
 // 定义更新用户信息的验证 schema
 const updateUserSchema = z.object({
   name: z.string().min(1).max(100).optional(),
@@ -39,6 +58,12 @@ const updateUserSchema = z.object({
     ])
     .optional(),
   onboardingCompleted: z.boolean().optional(),
+  timezone: z
+    .string()
+    .max(64)
+    .refine(isValidTimezone, { message: "无效的时区" })
+    .optional(),
+  dayStartHour: z.number().int().min(0).max(23).optional(),
 });
 
 export const userRoute = new Hono<{
@@ -86,6 +111,8 @@ export const userRoute = new Hono<{
           | "ielts_toefl"
           | "gre";
         onboardingCompleted?: boolean;
+        timezone?: string;
+        dayStartHour?: number;
         updatedAt?: Date;
       } = {
         updatedAt: new Date(),
@@ -106,6 +133,12 @@ export const userRoute = new Hono<{
       if (updateData.vocabularyLevel !== undefined) {
         updatePayload.vocabularyLevel = updateData.vocabularyLevel;
       }
+      if (updateData.timezone !== undefined) {
+        updatePayload.timezone = updateData.timezone;
+      }
+      if (updateData.dayStartHour !== undefined) {
+        updatePayload.dayStartHour = updateData.dayStartHour;
+      }
 
       // 如果没有需要更新的字段（除了 updatedAt），返回错误
       const fieldsToUpdate = Object.keys(updatePayload).filter(
@@ -160,6 +193,8 @@ export const userRoute = new Hono<{
           lastLoginAt: updatedUser.lastLoginAt,
           locale: updatedUser.locale,
           vocabularyLevel: updatedUser.vocabularyLevel,
+          timezone: updatedUser.timezone,
+          dayStartHour: updatedUser.dayStartHour,
           createdAt: updatedUser.createdAt,
           updatedAt: updatedUser.updatedAt,
         },
@@ -230,9 +265,9 @@ export const userRoute = new Hono<{
         );
       }
 
-      // 3. 查询今日已使用次数
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
+      // 3. 查询今日已使用次数（按用户的学习日计算）
+      const boundary = await getUserDayBoundary(db, userId);
+      const today = getDayStart(new Date(), boundary);
 
       const statsResult = await db
         .select({
@@ -272,6 +307,23 @@ export const userRoute = new Hono<{
       );
     }
   })
+  // 获取用户学习统计（首页统计卡片）
+  .get("/me/stats", async (c) => {
+    const authError = ensureAuthenticated(c);
+    if (authError) return authError;
+
+    const session = c.get("session")!;
+    const userId = getUserId(session);
+
+    try {
+      const db = c.get("db");
+      const stats = await getUserLearningSummary(db, userId);
+
+      return c.json(successResponse(stats));
+    } catch (error) {
+      return handleServiceError(c, error, "获取学习统计失败");
+    }
+  })
   // 获取用户订阅信息
   .get("/me/subscription", async (c) => {
     const authError = ensureAuthenticated(c);
@@ -0,0 +1,207 @@
+/**
+ * AI 解释提供方模块
+ *
+ * 职责：
+ * 1. 调用 OpenAI 兼容接口生成单词解释（AIHubMix、本地 LLM 服务等）
+ * 2. 提供不调用 AI 的 stub 实现，根据词汇表生成固定的解释
+ *
+ * 提供方只负责生成原始解释，字段校验和降级处理由 explainWordsByAi 统一完成
+ */
+
+import { type DB } from "../db/db";
+import { vocabulary } from "../db/schema";
+import { inArray } from "drizzle-orm";
+import { getOpenAIClient } from "../utils/openai-client";
+import { buildWordExplanationPrompt, getSystemMessage } from "../utils/prompts";
+import { withTimeout, AIParseError } from "../utils/ai-error-handler";
+import {
+  buildStubExplanations,
+  type AIProviderConfig,
+  type AIProviderName,
+} from "../utils/ai-provider";
+import { type WordExplanation } from "./text-ai.service";
+import { type WordsWithMeanings } from "./text.service";
+
+/**
+ * 生成解释的输入
+ */
+export interface AIExplanationRequest {
+  articleContent: string; // 文章内容（提供上下文）
+  newWords: Array<{ word: string; lemma: string }>; // 完全陌生的单词
+  wordsWithMeanings: WordsWithMeanings[]; // 有学习记录的单词
+}
+
+/**
+ * AI 解释提供方
+ */
+export interface AIExplanationProvider {
+  name: AIProviderName;
+  baseURL: string; // 接口地址（与模型一起区分解释缓存）
+  model: string;
+  /**
+   * 生成单词解释
+   * @returns 未经校验的解释列表
+   */
+  explainWords(request: AIExplanationRequest): Promise<WordExplanation[]>;
+}
+
+/**
+ * 根据配置创建 AI 解释提供方
+ *
+ * @param config - 提供方配置（见 resolveAIProviderConfig）
+ * @param db - 数据库实例（stub 提供方查询词汇表）
+ */
+export function createAIProvider(
+  config: AIProviderConfig,
+  db: DB
+): AIExplanationProvider {
+  return config.provider === "stub"
+    ? createStubAIProvider(config, db)
+    : createOpenAICompatibleProvider(config);
+}
+
+/**
+ * OpenAI 兼容接口提供方
+ */
+function createOpenAICompatibleProvider(
+  config: AIProviderConfig
+): AIExplanationProvider {
+  return {
+    name: "openai",
+    baseURL: config.baseURL,
+    model: config.model,
+    async explainWords({ articleContent, newWords, wordsWithMeanings }) {
+      const openai = getOpenAIClient(config);
+
+      // 构建 Prompt（详见 utils/prompts.ts）
+      // Prompt 包含：文章内容、新单词列表、有学习记录的单词及其已学含义
+      const prompt = buildWordExplanationPrompt(
+        articleContent,
+        newWords,
+        wordsWithMeanings
+      );
+
+      // 调用接口（带超时控制）
+      const completion = await withTimeout(
+        openai.chat.completions.create({
+          model: config.model,
+          messages: [
+            {
+              role: "system",
+              content: getSystemMessage(),
+            },
+            {
+              role: "user",
+              content: prompt,
+            },
+          ],
+          temperature: 0, // 低温度确保输出稳定性和一致性
+          response_format: { type: "json_object" }, // 强制返回 JSON 格式
+        }),
+        config.timeoutMs
+      );
+
+      const responseText = completion.choices[0]?.message?.content;
+
+      if (!responseText) {
+        throw new AIParseError("AI 返回内容为空");
+      }
+
+      return parseExplanations(responseText);
+    },
+  };
+}
+
+/**
+ * 解析 AI 返回的 JSON，提取解释列表
+ *
+ * 兼容多种可能的响应格式：{ words: [...] } 或 { explanations: [...] } 或直接数组
+ *
+ * @throws AIParseError 不是有效的 JSON 或格式不符合预期
+ */
+function parseExplanations(responseText: string): WordExplanation[] {
+  // 使用 unknown 类型而非 any：
+  // - unknown 是类型安全的，必须先进行类型检查才能使用
+  // - any 会绕过所有类型检查，可能导致运行时错误
+  // - AI 响应格式不固定，使用 unknown 强制我们进行运行时验证
+  let parsedResponse: unknown;
+  try {
+    parsedResponse = JSON.parse(responseText);
+  } catch {
+    console.error("JSON 解析失败：", responseText);
+    throw new AIParseError("AI 返回的内容不是有效的 JSON 格式");
+  }
+  console.log("AI响应结果: ", parsedResponse);
+
+  // 使用类型守卫（type guards）进行安全的类型检查：
+  // 1. 先检查 parsedResponse 是否为对象
+  // 2. 使用 'in' 操作符检查属性是否存在
+  // 3. 使用 Array.isArray() 验证是否为数组
+  if (
+    parsedResponse &&
+    typeof parsedResponse === "object" &&
+    "words" in parsedResponse &&
+    Array.isArray(parsedResponse.words)
+  ) {
+    return parsedResponse.words;
+  }
+  if (
+    parsedResponse &&
+    typeof parsedResponse === "object" &&
+    "explanations" in parsedResponse &&
+    Array.isArray(parsedResponse.explanations)
+  ) {
+    return parsedResponse.explanations;
+  }
+  if (Array.isArray(parsedResponse)) {
+    return parsedResponse;
+  }
+
+  console.error("AI 返回的 JSON 格式不符合预期:", parsedResponse);
+  throw new AIParseError("AI 返回的 JSON 格式不符合预期，期望包含 words 数组");
+}
+
+/**
+ * stub 提供方：根据词汇表生成固定的解释，不调用 AI
+ */
+function createStubAIProvider(
+  config: AIProviderConfig,
+  db: DB
+): AIExplanationProvider {
+  return {
+    name: "stub",
+    baseURL: config.baseURL,
+    model: config.model,
+    async explainWords({ articleContent, newWords, wordsWithMeanings }) {
+      const lemmas = [
+        ...new Set(
+          [...newWords, ...wordsWithMeanings].map((w) => w.lemma.toLowerCase())
+        ),
+      ];
+
+      const definitions = new Map<string, string>();
+      if (lemmas.length > 0) {
+        const rows = await db
+          .select({
+            word: vocabulary.word,
+            definition: vocabulary.definition,
+          })
+          .from(vocabulary)
+          .where(inArray(vocabulary.word, lemmas));
+
+        for (const row of rows) {
+          if (row.definition) {
+            definitions.set(row.word.toLowerCase(), row.definition);
+          }
+        }
+      }
+
+      return buildStubExplanations(
+        articleContent,
+        newWords,
+        wordsWithMeanings,
+        definitions
+      );
+    },
+  };
+}
@@ -0,0 +1,166 @@
+/**
+ * 卡片模板服务模块
+ *
+ * 职责：
+ * 1. 为用户的学习含义生成派生卡片（reverse / cloze）
+ * 2. 派生卡片与 recognition 卡片共享单词和含义，但拥有独立的调度状态
+ *
+ * 模板说明：
+ * - recognition：看单词 → 回忆中文含义（学习含义本身，始终存在）
+ * - reverse：看中文含义 → 回忆英文单词
+ * - cloze：例句中单词被挖空 → 填出单词（需要例句中能找到该单词）
+ */
+
+import { type DB } from "../db/db";
+import { type cardTemplateEnum, userLearnedMeanings } from "../db/schema";
+import { eq, and, inArray, isNotNull } from "drizzle-orm";
+import { createClozeSentence } from "../utils/sentence-extractor";
+import { getReviewSettings } from "./review-settings.service";
+
+/**
+ * 卡片模板类型
+ */
+export type CardTemplate = (typeof cardTemplateEnum.enumValues)[number];
+
+/**
+ * 可选启用的派生模板（recognition 始终启用）
+ */
+export type ExtraCardTemplate = Exclude<CardTemplate, "recognition">;
+
+/**
+ * 只匹配 recognition 卡片（即学习含义本身）的查询条件
+ *
+ * 统计词汇量、展示单词列表等场景使用，避免派生卡片被重复计算
+ */
+export const recognitionCardCondition = eq(
+  userLearnedMeanings.cardTemplate,
+  "recognition"
+);
+
+/**
+ * 为用户的学习含义生成缺失的派生卡片
+ *
+ * - 已存在的派生卡片不会重复生成（唯一索引 + onConflictDoNothing）
+ * - cloze 卡片只为例句中能找到该单词的含义生成
+ * - 新生成的卡片为新卡片状态，受每日新卡片上限限制
+ *
+ * @param db - 数据库实例
+ * @param userId - 用户 ID
+ * @param templates - 需要生成的模板
+ * @param meaningIds - 只处理这些 recognition 记录（不传则处理该用户的全部含义）
+ * @returns 新生成的卡片数量
+ */
+export async function createTemplateCards(
+  db: DB,
+  userId: number,
+  templates: ExtraCardTemplate[],
+  meaningIds?: number[]
+): Promise<number> {
+  if (templates.length === 0 || meaningIds?.length === 0) {
+    return 0;
+  }
+
+  const meaningConditions = [
+    eq(userLearnedMeanings.userId, userId),
+    recognitionCardCondition,
+  ];
+  const existingConditions = [
+    eq(userLearnedMeanings.userId, userId),
+    isNotNull(userLearnedMeanings.parentId),
+  ];
+  if (meaningIds) {
+    meaningConditions.push(inArray(userLearnedMeanings.id, meaningIds));
+    existingConditions.push(
+      inArray(userLearnedMeanings.parentId, meaningIds)
+    );
+  }
+
+  const meanings = await db
+    .select({
+      id: userLearnedMeanings.id,
+      word: userLearnedMeanings.word,
+      wordInText: userLearnedMeanings.wordInText,
+      pos: userLearnedMeanings.pos,
+      meaningText: userLearnedMeanings.meaningText,
+      exampleSentence: userLearnedMeanings.exampleSentence,
+      sourceTextId: userLearnedMeanings.sourceTextId,
+    })
+    .from(userLearnedMeanings)
+    .where(and(...meaningConditions));
+
+  if (meanings.length === 0) {
+    return 0;
+  }
+
+  // 查询已存在的派生卡片，只生成缺失的部分
+  const existing = await db
+    .select({
+      parentId: userLearnedMeanings.parentId,
+      cardTemplate: userLearnedMeanings.cardTemplate,
+    })
+    .from(userLearnedMeanings)
+    .where(and(...existingConditions));
+  const existingKeys = new Set(
+    existing.map((card) => `${card.parentId}:${card.cardTemplate}`)
+  );
+
+  const now = new Date();
+  const valuesToInsert = meanings.flatMap((meaning) =>
+    templates
+      .filter((template) => !existingKeys.has(`${meaning.id}:${template}`))
+      .filter(
+        (template) =>
+          template !== "cloze" ||
+          createClozeSentence(meaning.exampleSentence || "", [
+            meaning.wordInText || "",
+            meaning.word,
+          ]) !== null
+      )
+      .map((template) => ({
+        userId,
+        word: meaning.word,
+        wordInText: meaning.wordInText,
+        pos: meaning.pos,
+        meaningText: meaning.meaningText,
+        exampleSentence: meaning.exampleSentence,
+        sourceTextId: meaning.sourceTextId,
+        cardTemplate: template,
+        parentId: meaning.id,
+        nextReviewDate: now, // 立即可复习
+      }))
+  );
+
+  if (valuesToInsert.length === 0) {
+    return 0;
+  }
+
+  const inserted = await db
+    .insert(userLearnedMeanings)
+    .values(valuesToInsert)
+    .onConflictDoNothing()
+    .returning({ id: userLearnedMeanings.id });
+
+  return inserted.length;
+}
+
+/**
+ * 按用户当前启用的模板，为新添加的含义生成派生卡片
+ *
+ * @param db - 数据库实例
+ * @param userId - 用户 ID
+ * @param meaningIds - 新添加的 recognition 记录 ID
+ * @returns 新生成的卡片数量
+ */
+export async function createEnabledTemplateCards(
+  db: DB,
+  userId: number,
+  meaningIds: number[]
+): Promise<number> {
+  const settings = await getReviewSettings(db, userId);
+  return await createTemplateCards(
+    db,
+    userId,
+    settings.extraCardTemplates,
+    meaningIds
+  );
+}
@@ -0,0 +1,162 @@
+/**
+ * AI 解释缓存服务模块
+ *
+ * 职责：
+ * 1. 在调用 AI 之前查询共享缓存，命中的单词直接使用缓存的解释
+ * 2. AI 生成解释后写入缓存，供其他用户分析同一句子时复用
+ *
+ * 只处理完全陌生的词（无学习记录），这类词的解释与用户无关；
+ * 缓存按接口地址和模型区分，切换模型后不会读到其他模型生成的解释
+ */
+
+import { type DB } from "../db/db";
+import { aiExplanationCache } from "../db/schema";
+import { and, eq, inArray } from "drizzle-orm";
+import { PROMPT_VERSION } from "../utils/prompts";
+import { extractSentenceFromArticle } from "../utils/sentence-extractor";
+import { getCacheKey, hashContext } from "../utils/explanation-cache";
+import { type WordExplanation } from "./text-ai.service";
+import { type AIExplanationProvider } from "./ai-provider.service";
+import { type UnfamiliarWord } from "./text.service";
+
+/**
+ * 生成解释的模型（接口地址 + 模型名称）
+ */
+type ExplanationSource = Pick<AIExplanationProvider, "baseURL" | "model">;
+
+/**
+ * 计算单词在文章中所在句子的哈希
+ *
+ * @returns 找不到句子时返回 null（该单词不参与缓存）
+ */
+async function hashWordContext(
+  articleContent: string,
+  word: UnfamiliarWord
+): Promise<string | null> {
+  const sentence = extractSentenceFromArticle(articleContent, word.word);
+  return sentence ? hashContext(sentence) : null;
+}
+
+/**
+ * 查询缓存的解释
+ *
+ * @param db - 数据库实例
+ * @param articleContent - 文章内容
+ * @param words - 完全陌生的单词
+ * @param source - 当前使用的接口地址和模型（只读取同一模型生成的解释）
+ * @returns hits: 命中缓存的解释；misses: 需要交给 AI 的单词
+ */
+export async function lookupCachedExplanations(
+  db: DB,
+  articleContent: string,
+  words: UnfamiliarWord[],
+  source: ExplanationSource
+): Promise<{ hits: WordExplanation[]; misses: UnfamiliarWord[] }> {
+  if (words.length === 0) {
+    return { hits: [], misses: [] };
+  }
+
+  const hashes = await Promise.all(
+    words.map((word) => hashWordContext(articleContent, word))
+  );
+  const lemmas = [...new Set(words.map((w) => w.lemma.toLowerCase()))];
+  const contextHashes = [
+    ...new Set(hashes.filter((hash): hash is string => hash !== null)),
+  ];
+
+  const cached = new Map<string, typeof aiExplanationCache.$inferSelect>();
+  if (contextHashes.length > 0) {
+    const rows = await db
+      .select()
+      .from(aiExplanationCache)
+      .where(
+        and(
+          eq(aiExplanationCache.promptVersion, PROMPT_VERSION),
+          eq(aiExplanationCache.baseUrl, source.baseURL),
+          eq(aiExplanationCache.model, source.model),
+          inArray(aiExplanationCache.lemma, lemmas),
+          inArray(aiExplanationCache.contextHash, contextHashes)
+        )
+      );
+
+    for (const row of rows) {
+      cached.set(getCacheKey(row.lemma, row.contextHash), row);
+    }
+  }
+
+  const hits: WordExplanation[] = [];
+  const misses: UnfamiliarWord[] = [];
+
+  words.forEach((word, i) => {
+    const hash = hashes[i];
+    const row = hash ? cached.get(getCacheKey(word.lemma, hash)) : undefined;
+
+    if (row) {
+      hits.push({
+        wordInText: word.word,
+        lemma: row.lemma,
+        pos: row.pos ?? undefined,
+        meaningText: row.meaningText,
+        isExisting: false,
+        exampleSentence: row.exampleSentence,
+      });
+    } else {
+      misses.push(word);
+    }
+  });
+
+  return { hits, misses };
+}
+
+/**
+ * 将 AI 生成的解释写入缓存
+ *
+ * 只写入本次查询未命中的陌生词（isExisting=false 且有含义），
+ * 缓存键已存在时保留原记录
+ *
+ * @param db - 数据库实例
+ * @param articleContent - 文章内容
+ * @param explanations - AI 生成的解释（已校验）
+ * @param misses - 未命中缓存、交给 AI 的陌生词
+ * @param source - 生成解释的接口地址和模型
+ */
+export async function saveCachedExplanations(
+  db: DB,
+  articleContent: string,
+  explanations: WordExplanation[],
+  misses: UnfamiliarWord[],
+  source: ExplanationSource
+): Promise<void> {
+  // 按 lemma 找到查询时使用的文中形式，保证写入和查询的句子一致
+  const missByLemma = new Map(misses.map((w) => [w.lemma.toLowerCase(), w]));
+
+  const values: (typeof aiExplanationCache.$inferInsert)[] = [];
+  const seen = new Set<string>();
+
+  for (const explanation of explanations) {
+    const lemma = explanation.lemma.toLowerCase();
+    const word = missByLemma.get(lemma);
+    if (!word || explanation.isExisting || !explanation.meaningText.trim()) {
+      continue;
+    }
+
+    const contextHash = await hashWordContext(articleContent, word);
+    if (!contextHash || seen.has(getCacheKey(lemma, contextHash))) continue;
+    seen.add(getCacheKey(lemma, contextHash));
+
+    values.push({
+      lemma,
+      contextHash,
+      promptVersion: PROMPT_VERSION,
+      meaningText: explanation.meaningText,
+      pos: explanation.pos ?? null,
+      exampleSentence: explanation.exampleSentence,
+      baseUrl: source.baseURL,
+      model: source.model,
+    });
+  }
+
+  if (values.length === 0) return;
+
+  await db.insert(aiExplanationCache).values(values).onConflictDoNothing();
+}
@@ -0,0 +1,66 @@
+/**
+ * 发音服务模块
+ *
+ * 职责：
+ * 1. 从词汇表（vocabulary）中查询单词的 IPA 音标
+ *
+ * 朗读由前端使用浏览器的 Speech Synthesis API 完成，服务端只提供音标
+ */
+
+import { type DB } from "../db/db";
+import { vocabulary } from "../db/schema";
+import { inArray } from "drizzle-orm";
+
+/**
+ * 批量查询单词的音标
+ *
+ * 词汇表中的单词为原形小写，查询时统一转为小写匹配
+ *
+ * @param db - 数据库实例
+ * @param words - 单词列表
+ * @returns 小写单词 → 音标（词汇表中没有或没有音标的单词不在结果中）
+ *
+ * @example
+ * const pronunciations = await getPronunciations(db, ["Apple", "run"]);
+ * pronunciations.get("apple"); // "/ˈæp.əl/"
+ */
+export async function getPronunciations(
+  db: DB,
+  words: string[]
+): Promise<Map<string, string>> {
+  const normalized = [...new Set(words.map((word) => word.toLowerCase()))];
+  if (normalized.length === 0) {
+    return new Map();
+  }
+
+  const rows = await db
+    .select({
+      word: vocabulary.word,
+      pronunciation: vocabulary.pronunciation,
+    })
+    .from(vocabulary)
+    .where(inArray(vocabulary.word, normalized));
+
+  const pronunciations = new Map<string, string>();
+  for (const row of rows) {
+    if (row.pronunciation) {
+      pronunciations.set(row.word.toLowerCase(), row.pronunciation);
+    }
+  }
+  return pronunciations;
+}
+
+/**
+ * 查询单个单词的音标
+ *
+ * @param db - 数据库实例
+ * @param word - 单词
+ * @returns 音标，词汇表中没有时返回 undefined
+ */
+export async function getPronunciation(
+  db: DB,
+  word: string
+): Promise<string | undefined> {
+  const pronunciations = await getPronunciations(db, [word]);
+  return pronunciations.get(word.toLowerCase());
+}
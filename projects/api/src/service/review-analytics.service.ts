@@ -0,0 +1,341 @@
+/**
+ * 复习统计分析服务模块
+ *
+ * 职责：
+ * 1. 学习日历热力图（每日复习 / 新词 / 文章分析次数）
+ * 2. 真实记忆保持率（按天统计，区分 young / mature 卡片）
+ * 3. 答题按钮分布（按答题时卡片所处阶段）
+ * 4. 卡片成熟度分布（new / learning / young / mature）
+ * 5. 未来每日到期卡片数量预测
+ *
+ * 数据来源：
+ * - user_learning_stats: 每日学习统计（热力图）
+ * - review_logs: 复习日志（保持率、答题分布）
+ * - user_learned_meanings: 卡片当前状态（成熟度、到期预测）
+ */
+
+import { type DB } from "../db/db";
+import {
+  userLearningStats,
+  reviewLogs,
+  userLearnedMeanings,
+} from "../db/schema";
+import { eq, and, gte, asc } from "drizzle-orm";
+import {
+  buildReviewForecast,
+  buildRetentionSeries,
+  buildAnswerDistribution,
+  classifyCardMaturity,
+  getRetentionRate,
+  type RetentionPoint,
+  type RetentionCount,
+  type AnswerDistribution,
+  type CardMaturity,
+  type ReviewLogSample,
+  type ForecastDay,
+} from "../utils/review-analytics";
+import {
+  type DayBoundary,
+  buildDayKeys,
+  getDayKey,
+  getDayKeyStart,
+  shiftDayKey,
+} from "../utils/day-boundary";
+import { getReviewSettings } from "./review-settings.service";
+import { enabledTemplatesCondition } from "./review.service";
+import { getUserDayBoundary } from "./user-preferences.service";
+
+/**
+ * 热力图中的单日数据
+ */
+export interface HeatmapDay {
+  date: string; // YYYY-MM-DD
+  reviewedCount: number; // 复习次数
+  correctCount: number; // 答对次数
+  newWordsCount: number; // 新增单词数
+  articlesAnalyzedCount: number; // 分析文章数
+}
+
+/**
+ * 记忆保持率统计
+ */
+export interface RetentionStats {
+  series: RetentionPoint[]; // 每日保持率
+  young: RetentionCount; // 范围内 young 卡片汇总
+  mature: RetentionCount; // 范围内 mature 卡片汇总
+  retention: number | null; // 范围内整体保持率（0-1）
+}
+
+/**
+ * 卡片成熟度统计
+ */
+export type CardMaturityStats = Record<CardMaturity, number> & {
+  suspended: number; // 已暂停的卡片（不计入上面的分类）
+  total: number;
+};
+
+/**
+ * 到期预测
+ */
+export interface ReviewForecast {
+  days: ForecastDay[]; // 每日到期数量（今天包含已逾期的卡片）
+  overdueCount: number; // 已逾期的卡片数
+  newCount: number; // 等待学习的新卡片数（受每日上限控制，不计入预测）
+}
+
+/**
+ * 统计范围：包含今天在内的最近 days 个学习日
+ */
+interface DayRange {
+  boundary: DayBoundary;
+  dayKeys: string[]; // 范围内的日期键（升序）
+  startDate: Date; // 第一天开始的时刻
+}
+
+/**
+ * 按用户的学习日边界计算统计范围
+ *
+ * @param direction - past: 今天及之前的 days 天；future: 今天及之后的 days 天
+ */
+async function getDayRange(
+  db: DB,
+  userId: number,
+  days: number,
+  direction: "past" | "future" = "past"
+): Promise<DayRange> {
+  const boundary = await getUserDayBoundary(db, userId);
+  const todayKey = getDayKey(new Date(), boundary);
+  const startKey =
+    direction === "past" ? shiftDayKey(todayKey, -(days - 1)) : todayKey;
+
+  return {
+    boundary,
+    dayKeys: buildDayKeys(startKey, days),
+    startDate: getDayKeyStart(startKey, boundary),
+  };
+}
+
+/**
+ * 查询统计范围内的复习日志
+ */
+async function getReviewLogSamples(
+  db: DB,
+  userId: number,
+  startDate: Date
+): Promise<ReviewLogSample[]> {
+  return db
+    .select({
+      rating: reviewLogs.rating,
+      reviewedAt: reviewLogs.reviewedAt,
+      prevCardState: reviewLogs.prevCardState,
+      prevRepetitions: reviewLogs.prevRepetitions,
+      prevLearningStep: reviewLogs.prevLearningStep,
+      prevIntervalDays: reviewLogs.prevIntervalDays,
+    })
+    .from(reviewLogs)
+    .where(
+      and(eq(reviewLogs.userId, userId), gte(reviewLogs.reviewedAt, startDate))
+    );
+}
+
+/**
+ * 查询学习日历热力图
+ *
+ * @param db - 数据库实例
+ * @param userId - 用户 ID
+ * @param days - 统计天数（包含今天）
+ * @returns 每日学习数据（没有记录的日期补 0）
+ */
+export async function getReviewHeatmap(
+  db: DB,
+  userId: number,
+  days: number
+): Promise<HeatmapDay[]> {
+  const { boundary, dayKeys, startDate } = await getDayRange(db, userId, days);
+
+  const rows = await db
+    .select({
+      date: userLearningStats.date,
+      reviewedCount: userLearningStats.reviewedCount,
+      correctCount: userLearningStats.correctCount,
+      newWordsCount: userLearningStats.newWordsCount,
+      articlesAnalyzedCount: userLearningStats.articlesAnalyzedCount,
+    })
+    .from(userLearningStats)
+    .where(
+      and(
+        eq(userLearningStats.userId, userId),
+        gte(userLearningStats.date, startDate)
+      )
+    )
+    .orderBy(asc(userLearningStats.date));
+
+  const rowsByDate = new Map(
+    rows.map((row) => [getDayKey(row.date, boundary), row])
+  );
+
+  return dayKeys.map((date) => {
+    const row = rowsByDate.get(date);
+    return {
+      date,
+      reviewedCount: row?.reviewedCount || 0,
+      correctCount: row?.correctCount || 0,
+      newWordsCount: row?.newWordsCount || 0,
+      articlesAnalyzedCount: row?.articlesAnalyzedCount || 0,
+    };
+  });
+}
+
+/**
+ * 查询真实记忆保持率
+ *
+ * @param db - 数据库实例
+ * @param userId - 用户 ID
+ * @param days - 统计天数（包含今天）
+ * @returns 每日保持率和范围内汇总
+ */
+export async function getRetentionStats(
+  db: DB,
+  userId: number,
+  days: number
+): Promise<RetentionStats> {
+  const { boundary, dayKeys, startDate } = await getDayRange(db, userId, days);
+  const logs = await getReviewLogSamples(db, userId, startDate);
+  const series = buildRetentionSeries(logs, dayKeys, boundary);
+
+  const young: RetentionCount = { passed: 0, total: 0 };
+  const mature: RetentionCount = { passed: 0, total: 0 };
+  for (const point of series) {
+    young.passed += point.young.passed;
+    young.total += point.young.total;
+    mature.passed += point.mature.passed;
+    mature.total += point.mature.total;
+  }
+
+  return {
+    series,
+    young,
+    mature,
+    retention: getRetentionRate({
+      passed: young.passed + mature.passed,
+      total: young.total + mature.total,
+    }),
+  };
+}
+
+/**
+ * 查询答题按钮分布
+ *
+ * @param db - 数据库实例
+ * @param userId - 用户 ID
+ * @param days - 统计天数（包含今天）
+ * @returns 各阶段中每种评级的答题次数
+ */
+export async function getAnswerDistribution(
+  db: DB,
+  userId: number,
+  days: number
+): Promise<AnswerDistribution> {
+  const { startDate } = await getDayRange(db, userId, days);
+  const logs = await getReviewLogSamples(db, userId, startDate);
+  return buildAnswerDistribution(logs);
+}
+
+/**
+ * 查询卡片成熟度分布（所有卡片，含派生模板卡片）
+ *
+ * @param db - 数据库实例
+ * @param userId - 用户 ID
+ * @returns 各成熟度的卡片数量
+ */
+export async function getCardMaturity(
+  db: DB,
+  userId: number
+): Promise<CardMaturityStats> {
+  const cards = await db
+    .select({
+      cardState: userLearnedMeanings.cardState,
+      repetitions: userLearnedMeanings.repetitions,
+      learningStep: userLearnedMeanings.learningStep,
+      intervalDays: userLearnedMeanings.intervalDays,
+      isSuspended: userLearnedMeanings.isSuspended,
+    })
+    .from(userLearnedMeanings)
+    .where(eq(userLearnedMeanings.userId, userId));
+
+  const stats: CardMaturityStats = {
+    new: 0,
+    learning: 0,
+    young: 0,
+    mature: 0,
+    suspended: 0,
+    total: cards.length,
+  };
+
+  for (const card of cards) {
+    if (card.isSuspended) {
+      stats.suspended++;
+    } else {
+      stats[classifyCardMaturity(card)]++;
+    }
+  }
+
+  return stats;
+}
+
+/**
+ * 预测未来每天到期的卡片数量
+ *
+ * - 只统计学习步骤和复习阶段的卡片；新卡片的学习节奏由每日上限决定，单独返回数量
+ * - 排除已暂停的卡片和未启用的模板
+ * - 搁置中的卡片按搁置结束时间和到期时间中较晚的一个计算
+ *
+ * @param db - 数据库实例
+ * @param userId - 用户 ID
+ * @param days - 预测天数（包含今天）
+ * @returns 每日到期数量
+ */
+export async function getReviewForecast(
+  db: DB,
+  userId: number,
+  days: number
+): Promise<ReviewForecast> {
+  const settings = await getReviewSettings(db, userId);
+
+  const cards = await db
+    .select({
+      cardState: userLearnedMeanings.cardState,
+      repetitions: userLearnedMeanings.repetitions,
+      learningStep: userLearnedMeanings.learningStep,
+      intervalDays: userLearnedMeanings.intervalDays,
+      nextReviewDate: userLearnedMeanings.nextReviewDate,
+      buriedUntil: userLearnedMeanings.buriedUntil,
+    })
+    .from(userLearnedMeanings)
+    .where(
+      and(
+        eq(userLearnedMeanings.userId, userId),
+        eq(userLearnedMeanings.isSuspended, false),
+        enabledTemplatesCondition(settings)
+      )
+    );
+
+  let newCount = 0;
+  const dueDates: Date[] = [];
+  for (const card of cards) {
+    if (classifyCardMaturity(card) === "new") {
+      newCount++;
+    } else if (card.nextReviewDate) {
+      const buried =
+        card.buriedUntil && card.buriedUntil > card.nextReviewDate;
+      dueDates.push(buried ? card.buriedUntil! : card.nextReviewDate);
+    }
+  }
+
+  const { boundary, dayKeys } = await getDayRange(db, userId, days, "future");
+
+  return {
+    ...buildReviewForecast(dueDates, dayKeys, boundary),
+    newCount,
+  };
+}
@@ -0,0 +1,293 @@
+/**
+ * 复习会话服务模块
+ *
+ * 职责：
+ * 1. 开始 / 结束复习会话
+ * 2. 记录卡片展示时间，计算每次答题用时
+ * 3. 由服务端累计会话的复习数量、答对数量和学习时长
+ * 4. 自定义学习会话（筛选卡组）：按筛选条件生成卡片队列
+ * 5. 记录会话中跳过的卡片
+ *
+ * 流程：
+ * - POST /start 创建会话（POST /custom-session 创建自定义学习会话）
+ * - GET /next、POST /answer 返回卡片时记录展示时间
+ * - POST /answer 计算答题用时，累加会话统计，并把新凑满的分钟数写入每日学习时长
+ * - POST /exit 结束会话并返回汇总
+ */
+
+import { type DB } from "../db/db";
+import {
+  reviewSessions,
+  articles,
+  userLearnedMeanings,
+  type ReviewSession,
+} from "../db/schema";
+import { eq, and, isNull, sql, desc } from "drizzle-orm";
+import { type DifficultyRating } from "../utils/anki-algorithm";
+import { getCompletedMinutes, toMinutes } from "../utils/review-timing";
+import {
+  shouldRescheduleByDefault,
+  skipInQueue,
+  type CustomSessionFilter,
+} from "../utils/custom-session";
+import { findCustomSessionCards } from "./review.service";
+import { recognitionCardCondition } from "./card-template.service";
+
+/**
+ * 复习会话汇总
+ */
+export interface ReviewSessionSummary {
+  id: number;
+  reviewedCount: number; // 本次会话复习数量
+  correctCount: number; // 本次会话答对数量
+  timeSpentMinutes: number; // 本次会话学习时长（分钟）
+  filter: CustomSessionFilter | null; // 自定义学习会话的筛选条件
+  reschedule: boolean; // 答题是否改变卡片的复习计划
+  remainingCount: number | null; // 自定义学习会话剩余的卡片数
+  startedAt: Date;
+  endedAt: Date | null;
+}
+
+/**
+ * 答题计时信息（写入复习日志）
+ */
+export interface AnswerTiming {
+  sessionId: number;
+  durationMs: number | null; // 答题用时（毫秒）
+}
+
+/**
+ * 可用于自定义学习会话的文章
+ */
+export interface CustomSessionArticle {
+  id: number;
+  title: string | null;
+  wordCount: number; // 从该文章保存的含义数量
+}
+
+const toSummary = (session: ReviewSession): ReviewSessionSummary => ({
+  id: session.id,
+  reviewedCount: session.reviewedCount,
+  correctCount: session.correctCount,
+  timeSpentMinutes: toMinutes(session.timeSpentMs),
+  filter: session.filter,
+  reschedule: session.reschedule,
+  remainingCount: session.queue ? session.queue.length : null,
+  startedAt: session.startedAt,
+  endedAt: session.endedAt,
+});
+
+/**
+ * 开始复习会话
+ *
+ * @param db - 数据库实例
+ * @param userId - 用户 ID
+ * @returns 新会话的汇总（计数均为 0）
+ */
+export async function startReviewSession(
+  db: DB,
+  userId: number
+): Promise<ReviewSessionSummary> {
+  const [session] = await db
+    .insert(reviewSessions)
+    .values({ userId })
+    .returning();
+
+  return toSummary(session);
+}
+
+/**
+ * 开始自定义学习会话（筛选卡组）
+ *
+ * @param db - 数据库实例
+ * @param userId - 用户 ID
+ * @param filter - 筛选条件
+ * @param reschedule - 答题是否改变复习计划（不传时按会话类型决定）
+ * @returns 新会话的汇总，没有符合条件的卡片时返回 null
+ */
+export async function startCustomSession(
+  db: DB,
+  userId: number,
+  filter: CustomSessionFilter,
+  reschedule: boolean = shouldRescheduleByDefault(filter)
+): Promise<ReviewSessionSummary | null> {
+  const queue = await findCustomSessionCards(db, userId, filter);
+  if (queue.length === 0) return null;
+
+  const [session] = await db
+    .insert(reviewSessions)
+    .values({ userId, filter, queue, reschedule })
+    .returning();
+
+  return toSummary(session);
+}
+
+/**
+ * 查询保存过单词的文章（用于按文章筛选，最近保存的在前）
+ *
+ * @param db - 数据库实例
+ * @param userId - 用户 ID
+ * @returns 文章列表
+ */
+export async function getCustomSessionArticles(
+  db: DB,
+  userId: number
+): Promise<CustomSessionArticle[]> {
+  return db
+    .select({
+      id: articles.id,
+      title: articles.title,
+      wordCount: sql<number>`cast(count(${userLearnedMeanings.id}) as integer)`,
+    })
+    .from(articles)
+    .innerJoin(
+      userLearnedMeanings,
+      eq(userLearnedMeanings.sourceTextId, articles.id)
+    )
+    .where(and(eq(articles.userId, userId), recognitionCardCondition))
+    .groupBy(articles.id, articles.title)
+    .orderBy(desc(sql`max(${userLearnedMeanings.createdAt})`))
+    .limit(50);
+}
+
+/**
+ * 查询进行中的复习会话
+ *
+ * @param db - 数据库实例
+ * @param userId - 用户 ID
+ * @param sessionId - 会话 ID
+ * @returns 会话记录，不存在、不属于该用户或已结束时返回 null
+ */
+export async function getActiveReviewSession(
+  db: DB,
+  userId: number,
+  sessionId: number
+): Promise<ReviewSession | null> {
+  const [session] = await db
+    .select()
+    .from(reviewSessions)
+    .where(
+      and(
+        eq(reviewSessions.id, sessionId),
+        eq(reviewSessions.userId, userId),
+        isNull(reviewSessions.endedAt)
+      )
+    )
+    .limit(1);
+
+  return session ?? null;
+}
+
+/**
+ * 记录卡片展示时间（作为下一次答题计时的起点）
+ *
+ * @param db - 数据库实例
+ * @param sessionId - 会话 ID
+ * @param shownAt - 展示时间
+ */
+export async function markCardShown(
+  db: DB,
+  sessionId: number,
+  shownAt: Date = new Date()
+): Promise<void> {
+  await db
+    .update(reviewSessions)
+    .set({ cardShownAt: shownAt })
+    .where(eq(reviewSessions.id, sessionId));
+}
+
+/**
+ * 在会话中记录一次答题
+ *
+ * @param db - 数据库实例
+ * @param session - 答题前的会话记录
+ * @param rating - 答题评级
+ * @param durationMs - 答题用时（毫秒，无法计算时为 null）
+ * @param nextCardShown - 是否紧接着展示了下一张卡片（是则从现在开始计时）
+ * @param queue - 自定义学习会话推进后的卡片队列（正常复习会话不传）
+ * @returns 本次答题新凑满的学习分钟数（用于累加每日学习时长）
+ */
+export async function recordSessionAnswer(
+  db: DB,
+  session: ReviewSession,
+  rating: DifficultyRating,
+  durationMs: number | null,
+  nextCardShown: boolean,
+  queue?: number[]
+): Promise<number> {
+  const addedMs = durationMs ?? 0;
+  const correct = rating !== "again" ? 1 : 0;
+
+  await db
+    .update(reviewSessions)
+    .set({
+      reviewedCount: sql`${reviewSessions.reviewedCount} + 1`,
+      correctCount: sql`${reviewSessions.correctCount} + ${correct}`,
+      timeSpentMs: sql`${reviewSessions.timeSpentMs} + ${addedMs}`,
+      cardShownAt: nextCardShown ? new Date() : null,
+      ...(queue && { queue }),
+    })
+    .where(eq(reviewSessions.id, session.id));
+
+  return getCompletedMinutes(session.timeSpentMs, addedMs);
+}
+
+/**
+ * 在会话中跳过一张卡片
+ *
+ * - 自定义学习会话：卡片移到队列末尾，学完其他卡片后再出现
+ * - 正常复习会话：记录到跳过列表，本次会话不再出现（下次复习仍会到期）
+ *
+ * @param db - 数据库实例
+ * @param session - 跳过前的会话记录
+ * @param cardId - 跳过的卡片 ID
+ * @returns 更新后的会话记录
+ */
+export async function skipSessionCard(
+  db: DB,
+  session: ReviewSession,
+  cardId: number
+): Promise<ReviewSession> {
+  const updates = session.queue
+    ? { queue: skipInQueue(session.queue, cardId) }
+    : {
+        skippedCardIds: session.skippedCardIds.includes(cardId)
+          ? session.skippedCardIds
+          : [...session.skippedCardIds, cardId],
+      };
+
+  await db
+    .update(reviewSessions)
+    .set(updates)
+    .where(eq(reviewSessions.id, session.id));
+
+  return { ...session, ...updates };
+}
+
+/**
+ * 结束复习会话
+ *
+ * @param db - 数据库实例
+ * @param userId - 用户 ID
+ * @param sessionId - 会话 ID
+ * @returns 会话汇总，会话不存在或已结束时返回 null
+ */
+export async function endReviewSession(
+  db: DB,
+  userId: number,
+  sessionId: number
+): Promise<ReviewSessionSummary | null> {
+  const [session] = await db
+    .update(reviewSessions)
+    .set({ endedAt: new Date(), cardShownAt: null })
+    .where(
+      and(
+        eq(reviewSessions.id, sessionId),
+        eq(reviewSessions.userId, userId),
+        isNull(reviewSessions.endedAt)
+      )
+    )
+    .returning();
+
+  return session ? toSummary(session) : null;
+}
@@ -0,0 +1,191 @@
+/**
+ * 复习设置服务模块
+ *
+ * 职责：
+ * 1. 查询用户的复习设置（无记录时返回默认设置）
+ * 2. 更新用户的复习设置（UPSERT）
+ * 3. 将设置换算为调度器参数
+ */
+
+import { type DB } from "../db/db";
+import { userReviewSettings } from "../db/schema";
+import { eq } from "drizzle-orm";
+import {
+  type SchedulerType,
+  type SchedulerParameters,
+} from "../utils/scheduler";
+import {
+  DEFAULT_DESIRED_RETENTION,
+  DEFAULT_FITTED_PARAMETERS,
+  getIntervalModifier,
+} from "../utils/scheduler-optimizer";
+import {
+  DEFAULT_LEARNING_STEPS,
+  DEFAULT_RELEARNING_STEPS,
+} from "../utils/learning-steps";
+import {
+  type KeyBindings,
+  DEFAULT_KEY_BINDINGS,
+  resolveKeyBindings,
+} from "../utils/key-bindings";
+import { type ExtraCardTemplate } from "./card-template.service";
+
+/**
+ * 难记卡片处理方式：tag 只标记，suspend 标记并暂停
+ */
+export type LeechAction = "tag" | "suspend";
+
+/**
+ * 复习设置类型
+ */
+export interface ReviewSettings {
+  schedulerType: SchedulerType; // 复习调度算法
+  learningSteps: number[]; // 学习步骤（分钟）
+  relearningSteps: number[]; // 重学步骤（分钟）
+  newCardsPerDay: number; // 每日新卡片上限
+  reviewsPerDay: number; // 每日复习上限
+  leechThreshold: number; // 难记卡片阈值（遗忘次数）
+  leechAction: LeechAction; // 难记卡片处理方式
+  burySiblings: boolean; // 复习后搁置同一单词的其他含义
+  extraCardTemplates: ExtraCardTemplate[]; // 额外启用的卡片模板
+  typedAnswerMode: boolean; // reverse / cloze 卡片通过输入单词作答
+  autoPlayAudio: boolean; // 翻转卡片时自动朗读单词
+  keyBindings: KeyBindings; // 复习快捷键
+  desiredRetention: number; // 目标保留率
+  loadBalancing: boolean; // 间隔随机化时选择到期卡片最少的一天
+  baselineRetention: number; // 按 SM-2 原始间隔复习时的预计保留率（优化器拟合）
+  startingEase: number; // 新卡片的初始难度系数（优化器拟合）
+  hardMultiplier: number; // Hard 的间隔倍数（优化器拟合）
+  easyBonus: number; // Easy 的间隔倍数（优化器拟合）
+  parametersOptimizedAt: Date | null; // 最近一次应用优化结果的时间
+}
+
+/**
+ * 默认复习设置（用户从未修改过设置时使用）
+ */
+export const DEFAULT_REVIEW_SETTINGS: ReviewSettings = {
+  schedulerType: "sm2",
+  learningSteps: [...DEFAULT_LEARNING_STEPS],
+  relearningSteps: [...DEFAULT_RELEARNING_STEPS],
+  newCardsPerDay: 20,
+  reviewsPerDay: 200,
+  leechThreshold: 8,
+  leechAction: "tag",
+  burySiblings: true,
+  extraCardTemplates: [],
+  typedAnswerMode: false,
+  autoPlayAudio: false,
+  keyBindings: { ...DEFAULT_KEY_BINDINGS },
+  desiredRetention: DEFAULT_DESIRED_RETENTION,
+  loadBalancing: true,
+  ...DEFAULT_FITTED_PARAMETERS,
+  parametersOptimizedAt: null,
+};
+
+/**
+ * 查询用户的复习设置
+ *
+ * @param db - 数据库实例
+ * @param userId - 用户 ID
+ * @returns 复习设置（无记录时返回默认值）
+ */
+export async function getReviewSettings(
+  db: DB,
+  userId: number
+): Promise<ReviewSettings> {
+  const [settings] = await db
+    .select({
+      schedulerType: userReviewSettings.schedulerType,
+      learningSteps: userReviewSettings.learningSteps,
+      relearningSteps: userReviewSettings.relearningSteps,
+      newCardsPerDay: userReviewSettings.newCardsPerDay,
+      reviewsPerDay: userReviewSettings.reviewsPerDay,
+      leechThreshold: userReviewSettings.leechThreshold,
+      leechAction: userReviewSettings.leechAction,
+      burySiblings: userReviewSettings.burySiblings,
+      extraCardTemplates: userReviewSettings.extraCardTemplates,
+      typedAnswerMode: userReviewSettings.typedAnswerMode,
+      autoPlayAudio: userReviewSettings.autoPlayAudio,
+      keyBindings: userReviewSettings.keyBindings,
+      desiredRetention: userReviewSettings.desiredRetention,
+      loadBalancing: userReviewSettings.loadBalancing,
+      baselineRetention: userReviewSettings.baselineRetention,
+      startingEase: userReviewSettings.startingEase,
+      hardMultiplier: userReviewSettings.hardMultiplier,
+      easyBonus: userReviewSettings.easyBonus,
+      parametersOptimizedAt: userReviewSettings.parametersOptimizedAt,
+    })
+    .from(userReviewSettings)
+    .where(eq(userReviewSettings.userId, userId))
+    .limit(1);
+
+  if (!settings) {
+    return { ...DEFAULT_REVIEW_SETTINGS };
+  }
+
+  return {
+    ...settings,
+    // recognition 始终启用，不属于额外模板
+    extraCardTemplates: settings.extraCardTemplates.filter(
+      (template): template is ExtraCardTemplate => template !== "recognition"
+    ),
+    keyBindings: resolveKeyBindings(settings.keyBindings),
+  };
+}
+
+/**
+ * 更新用户的复习设置
+ *
+ * 只更新传入的字段，其余字段保持不变（首次写入时使用默认值补全）
+ *
+ * @param db - 数据库实例
+ * @param userId - 用户 ID
+ * @param updates - 需要更新的设置字段
+ * @returns 更新后的完整设置
+ */
+export async function updateReviewSettings(
+  db: DB,
+  userId: number,
+  updates: Partial<ReviewSettings>
+): Promise<ReviewSettings> {
+  const current = await getReviewSettings(db, userId);
+  const merged: ReviewSettings = { ...current, ...updates };
+
+  await db
+    .insert(userReviewSettings)
+    .values({
+      userId,
+      ...merged,
+    })
+    .onConflictDoUpdate({
+      target: userReviewSettings.userId,
+      set: {
+        ...updates,
+        updatedAt: new Date(),
+      },
+    });
+
+  return merged;
+}
+
+/**
+ * 将复习设置换算为调度器参数
+ *
+ * @param settings - 复习设置
+ * @returns 调度参数（SM-2 的间隔系数由目标保留率和基准保留率换算）
+ */
+export function getSchedulerParameters(
+  settings: ReviewSettings
+): SchedulerParameters {
+  return {
+    desiredRetention: settings.desiredRetention,
+    sm2: {
+      hardMultiplier: settings.hardMultiplier,
+      easyBonus: settings.easyBonus,
+      intervalModifier: getIntervalModifier(
+        settings.desiredRetention,
+        settings.baselineRetention
+      ),
+    },
+  };
+}
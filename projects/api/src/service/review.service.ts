@@ -6,16 +6,75 @@
  * 2. 获取待复习卡片（基于 Anki 算法）
  * 3. 更新复习记录（提交答案后更新间隔）
  * 4. 更新学习统计（每日学习数据）
+ * 5. 记录复习日志并查询单张卡片的复习历史
+ * 6. 撤销最近一次答题（基于复习日志恢复卡片状态）
+ * 7. 对输入模式下用户输入的单词评分
  */
 
 import { type DB } from "../db/db";
-import { userLearnedMeanings, userLearningStats } from "../db/schema";
-import { eq, and, lte, sql } from "drizzle-orm";
 import {
-  calculateNextReview,
-  getNextReviewDate,
+  userLearnedMeanings,
+  userLearningStats,
+  reviewLogs,
+  reviewSessions,
+  type UserLearnedMeaning,
+} from "../db/schema";
+import {
+  eq,
+  and,
+  or,
+  lt,
+  lte,
+  gte,
+  asc,
+  sql,
+  desc,
+  isNotNull,
+  isNull,
+  ne,
+  inArray,
+  notInArray,
+  type SQL,
+} from "drizzle-orm";
+import {
   type DifficultyRating,
+  getFuzzRange,
 } from "../utils/anki-algorithm";
+import { getScheduler, getElapsedDays } from "../utils/scheduler";
+import {
+  scheduleWithSteps,
+  applyIntervalFuzz,
+  resolveCardState,
+  addMinutes,
+  LEARN_AHEAD_MINUTES,
+} from "../utils/learning-steps";
+import {
+  getReviewSettings,
+  getSchedulerParameters,
+  type ReviewSettings,
+} from "./review-settings.service";
+import { getUserDayBoundary } from "./user-preferences.service";
+import {
+  type DayBoundary,
+  getDayKey,
+  getDayKeyStart,
+  getDayStart,
+  getNextDayStart,
+  shiftDayKey,
+  diffDayKeys,
+} from "../utils/day-boundary";
+import {
+  recognitionCardCondition,
+  type CardTemplate,
+} from "./card-template.service";
+import { createClozeSentence } from "../utils/sentence-extractor";
+import { gradeAnswer, type AnswerGrade } from "../utils/answer-grader";
+import { type AnswerTiming } from "./review-session.service";
+import { getPronunciation } from "./pronunciation.service";
+import {
+  MAX_CUSTOM_SESSION_CARDS,
+  type CustomSessionFilter,
+} from "../utils/custom-session";
 
 /**
  * 复习统计数据类型
@@ -34,19 +93,178 @@ export interface ReviewStats {
  */
 export interface CardData {
   id: number;
+  meaningId: number; // 所属含义的 ID（reverse / cloze 卡片为对应的看词忆义卡片，编辑时使用）
   word: string; // 单词在文中的形式（用于展示）
-  pronunciation?: string; // 音标（暂时为空，后续可扩展）
+  pronunciation?: string; // IPA 音标（来自词汇表，没有时为空）
   pos?: string; // 词性
   meaning: string; // 中文含义
   sentence?: string; // 例句
   highlightedWord: string; // 例句中高亮的单词
   type: "new" | "extend"; // 类型（动态计算）
   learnedMeanings?: string[]; // 已学过的其他含义（仅 extend 类型）
+  template: CardTemplate; // 卡片模板（决定正面展示的内容）
+  clozeSentence?: string; // 挖空后的例句（仅 cloze 模板）
+}
+
+/**
+ * 答题结果类型
+ */
+export interface AnswerOutcome {
+  becameLeech: boolean; // 本次答题后成为难记卡片
+  suspended: boolean; // 本次答题后被自动暂停
+}
+
+/**
+ * 复习日志条目类型
+ */
+export interface ReviewLogEntry {
+  id: number;
+  rating: DifficultyRating;
+  prevIntervalDays: number;
+  newIntervalDays: number;
+  prevEaseFactor: number;
+  newEaseFactor: number;
+  elapsedDays: number;
+  reviewedAt: Date;
+}
+
+/**
+ * 今日剩余的新卡片 / 复习额度
+ */
+interface DailyAllowance {
+  newCards: number;
+  reviews: number;
+}
+
+/**
+ * 卡片分类条件
+ * - 学习步骤中：learningStep 不为 null（不受每日上限限制）
+ * - 新卡片：从未复习过
+ * - 复习卡片：其余卡片
+ */
+const inStepsCondition = isNotNull(userLearnedMeanings.learningStep);
+const newCardCondition = and(
+  eq(userLearnedMeanings.cardState, "new"),
+  eq(userLearnedMeanings.repetitions, 0)
+)!;
+const reviewCardCondition = and(
+  isNull(userLearnedMeanings.learningStep),
+  sql`not (${newCardCondition})`
+)!;
+
+/**
+ * 未被搁置的卡片（没有搁置时间或搁置已到期）
+ */
+function notBuried(now: Date) {
+  return or(
+    isNull(userLearnedMeanings.buriedUntil),
+    lte(userLearnedMeanings.buriedUntil, now)
+  )!;
+}
+
+/**
+ * 计算今日剩余额度
+ *
+ * 根据今日的复习日志统计已学的新卡片数和已复习的卡片数，
+ * 与用户设置的每日上限相减
+ *
+ * @param db - 数据库实例
+ * @param userId - 用户 ID
+ * @param settings - 用户复习设置
+ * @param boundary - 用户的学习日边界
+ * @returns 今日剩余额度
+ */
+async function getDailyAllowance(
+  db: DB,
+  userId: number,
+  settings: ReviewSettings,
+  boundary: DayBoundary
+): Promise<DailyAllowance> {
+  const today = getDayStart(new Date(), boundary);
+
+  // 答题前为新卡片 → 计入新卡片；答题前为复习卡片 → 计入复习
+  const wasNew = sql`${reviewLogs.prevCardState} = 'new' and ${reviewLogs.prevRepetitions} = 0`;
+  const wasReview = sql`${reviewLogs.prevLearningStep} is null and not (${wasNew})`;
+
+  const [counts] = await db
+    .select({
+      newCards: sql<number>`cast(count(*) filter (where ${wasNew}) as integer)`,
+      reviews: sql<number>`cast(count(*) filter (where ${wasReview}) as integer)`,
+    })
+    .from(reviewLogs)
+    .where(
+      and(eq(reviewLogs.userId, userId), gte(reviewLogs.reviewedAt, today))
+    );
+
+  return {
+    newCards: Math.max(0, settings.newCardsPerDay - (counts?.newCards || 0)),
+    reviews: Math.max(0, settings.reviewsPerDay - (counts?.reviews || 0)),
+  };
+}
+
+/**
+ * 统计间隔随机化范围内每天到期的卡片数（负载均衡使用）
+ *
+ * @param db - 数据库实例
+ * @param userId - 用户 ID
+ * @param intervalDays - 调度器计算出的间隔天数
+ * @param now - 答题时间
+ * @param boundary - 用户的学习日边界
+ * @returns 间隔天数 → 当天到期的卡片数（不需要随机化时返回 undefined）
+ */
+async function getDueCountsByInterval(
+  db: DB,
+  userId: number,
+  intervalDays: number,
+  now: Date,
+  boundary: DayBoundary
+): Promise<Map<number, number> | undefined> {
+  const { min, max } = getFuzzRange(intervalDays);
+  if (min === max) return undefined;
+
+  const todayKey = getDayKey(now, boundary);
+  const cards = await db
+    .select({ nextReviewDate: userLearnedMeanings.nextReviewDate })
+    .from(userLearnedMeanings)
+    .where(
+      and(
+        eq(userLearnedMeanings.userId, userId),
+        eq(userLearnedMeanings.isSuspended, false),
+        gte(
+          userLearnedMeanings.nextReviewDate,
+          getDayKeyStart(shiftDayKey(todayKey, min), boundary)
+        ),
+        lt(
+          userLearnedMeanings.nextReviewDate,
+          getDayKeyStart(shiftDayKey(todayKey, max + 1), boundary)
+        )
+      )
+    );
+
+  const counts = new Map<number, number>();
+  for (const { nextReviewDate } of cards) {
+    if (!nextReviewDate) continue;
+    const days = diffDayKeys(todayKey, getDayKey(nextReviewDate, boundary));
+    counts.set(days, (counts.get(days) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * 用户启用的卡片模板条件（recognition 始终启用）
+ */
+export function enabledTemplatesCondition(settings: ReviewSettings): SQL {
+  return inArray(userLearnedMeanings.cardTemplate, [
+    "recognition",
+    ...settings.extraCardTemplates,
+  ]);
 }
 
 /**
  * 查询用户的复习统计数据
  *
+ * 待复习数量会扣除超出每日上限的新卡片和复习卡片
+ *
  * @param db - 数据库实例
  * @param userId - 用户 ID
  * @returns 复习统计数据
@@ -56,53 +274,77 @@ export async function getReviewStats(
   userId: number
 ): Promise<ReviewStats> {
   const now = new Date();
+  const settings = await getReviewSettings(db, userId);
+  const boundary = await getUserDayBoundary(db, userId);
+  const allowance = await getDailyAllowance(db, userId, settings, boundary);
 
-  // 查询所有待复习的卡片（nextReviewDate <= now）
+  // 查询所有待复习的卡片（nextReviewDate <= now，排除暂停和搁置中的卡片）
   const dueCards = await db
     .select({
       id: userLearnedMeanings.id,
       intervalDays: userLearnedMeanings.intervalDays,
       repetitions: userLearnedMeanings.repetitions,
+      cardState: userLearnedMeanings.cardState,
+      learningStep: userLearnedMeanings.learningStep,
     })
     .from(userLearnedMeanings)
     .where(
       and(
         eq(userLearnedMeanings.userId, userId),
+        eq(userLearnedMeanings.isSuspended, false),
+        notBuried(now),
+        enabledTemplatesCondition(settings),
         lte(userLearnedMeanings.nextReviewDate, now)
       )
+    )
+    // 与 getNextCard 的出卡顺序一致，保证被上限截掉的是同一批卡片
+    .orderBy(
+      userLearnedMeanings.repetitions,
+      userLearnedMeanings.nextReviewDate
     );
 
   // 分类统计
   let newCards = 0;
   let learning = 0;
   let reviewing = 0;
+  let reviewsCounted = 0;
 
   for (const card of dueCards) {
-    if (card.repetitions === 0) {
-      // 从未复习过
-      newCards++;
-    } else if (card.intervalDays < 21) {
-      // 学习中（短期记忆）
+    const cardState = resolveCardState(card.cardState, card.repetitions);
+
+    if (card.learningStep !== null) {
+      // 学习步骤中的卡片不受上限限制
       learning++;
-    } else {
-      // 复习中（长期记忆）
-      reviewing++;
+    } else if (cardState === "new") {
+      // 从未复习过（受每日新卡片上限限制）
+      if (newCards < allowance.newCards) newCards++;
+    } else if (reviewsCounted < allowance.reviews) {
+      // 复习卡片（受每日复习上限限制）
+      reviewsCounted++;
+      if (card.intervalDays < 21) {
+        // 学习中（短期记忆）
+        learning++;
+      } else {
+        // 复习中（长期记忆）
+        reviewing++;
+      }
     }
   }
 
-  // 查询总词汇量
+  // 查询总词汇量（只统计含义本身，不含派生卡片）
   const [totalVocabResult] = await db
     .select({
       count: sql<number>`cast(count(*) as integer)`,
     })
     .from(userLearnedMeanings)
-    .where(eq(userLearnedMeanings.userId, userId));
+    .where(
+      and(eq(userLearnedMeanings.userId, userId), recognitionCardCondition)
+    );
 
   const totalVocab = totalVocabResult?.count || 0;
 
   // 查询今日已完成数量（从 userLearningStats 表）
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  const today = getDayStart(now, boundary);
 
   const [todayStatsResult] = await db
     .select({
@@ -120,7 +362,7 @@ export async function getReviewStats(
   const completedToday = todayStatsResult?.reviewedCount || 0;
 
   return {
-    todayDue: dueCards.length,
+    todayDue: newCards + learning + reviewing,
     newCards,
     learning,
     reviewing,
@@ -133,20 +375,38 @@ export async function getReviewStats(
  * 获取下一张待复习卡片
  *
  * 策略：
- * 1. 优先返回新卡片（repetitions = 0）
- * 2. 其次返回学习中的卡片（intervalDays < 21）
- * 3. 最后返回复习中的卡片（intervalDays >= 21）
- * 4. 同优先级按 nextReviewDate 升序排序（越早到期的越优先）
+ * 1. 最优先返回已到期的学习步骤卡片（learning / relearning）
+ * 2. 其次返回新卡片（repetitions = 0）
+ * 3. 再其次返回学习中的卡片（intervalDays < 21）
+ * 4. 然后返回复习中的卡片（intervalDays >= 21）
+ * 5. 没有其他卡片时，提前返回 LEARN_AHEAD_MINUTES 内到期的学习步骤卡片
+ * 6. 同优先级按 nextReviewDate 升序排序（越早到期的越优先）
+ * 7. 今日新卡片 / 复习数量达到用户设置的上限后，不再返回对应类型的卡片
+ * 8. 跳过已暂停的卡片（如被自动暂停的难记卡片）和搁置中的卡片
+ * 9. 只返回用户启用的卡片模板
+ * 10. 排除本次复习会话中跳过的卡片
  *
  * @param db - 数据库实例
  * @param userId - 用户 ID
+ * @param excludeIds - 不返回的卡片 ID（会话中跳过的卡片）
  * @returns 卡片数据或 null（无待复习卡片）
  */
 export async function getNextCard(
   db: DB,
-  userId: number
+  userId: number,
+  excludeIds: number[] = []
 ): Promise<CardData | null> {
   const now = new Date();
+  const learnAheadLimit = addMinutes(now, LEARN_AHEAD_MINUTES);
+  const inSteps = inStepsCondition; // 处于学习步骤中的卡片
+
+  // 根据今日剩余额度决定可以出哪些类型的卡片
+  const settings = await getReviewSettings(db, userId);
+  const boundary = await getUserDayBoundary(db, userId);
+  const allowance = await getDailyAllowance(db, userId, settings, boundary);
+  const allowedTypes: SQL[] = [inSteps];
+  if (allowance.newCards > 0) allowedTypes.push(newCardCondition);
+  if (allowance.reviews > 0) allowedTypes.push(reviewCardCondition);
 
   // 查询待复习的卡片（按优先级排序）
   const cards = await db
@@ -157,6 +417,8 @@ export async function getNextCard(
       pos: userLearnedMeanings.pos,
       meaningText: userLearnedMeanings.meaningText,
       exampleSentence: userLearnedMeanings.exampleSentence,
+      cardTemplate: userLearnedMeanings.cardTemplate,
+      parentId: userLearnedMeanings.parentId,
       repetitions: userLearnedMeanings.repetitions,
       intervalDays: userLearnedMeanings.intervalDays,
       nextReviewDate: userLearnedMeanings.nextReviewDate,
@@ -165,10 +427,29 @@ export async function getNextCard(
     .where(
       and(
         eq(userLearnedMeanings.userId, userId),
-        lte(userLearnedMeanings.nextReviewDate, now)
+        eq(userLearnedMeanings.isSuspended, false),
+        notBuried(now),
+        enabledTemplatesCondition(settings),
+        excludeIds.length > 0
+          ? notInArray(userLearnedMeanings.id, excludeIds)
+          : undefined,
+        or(...allowedTypes),
+        or(
+          lte(userLearnedMeanings.nextReviewDate, now),
+          and(
+            inSteps,
+            lte(userLearnedMeanings.nextReviewDate, learnAheadLimit)
+          )
+        )
       )
     )
     .orderBy(
+      // 已到期的学习步骤卡片 → 其他到期卡片 → 提前学习的卡片
+      sql`case
+        when ${inSteps} and ${userLearnedMeanings.nextReviewDate} <= ${now} then 0
+        when ${inSteps} then 2
+        else 1
+      end`,
       // 优先级排序：repetitions 升序（新卡片优先）
       userLearnedMeanings.repetitions,
       // 同优先级按到期时间排序
@@ -180,8 +461,165 @@ export async function getNextCard(
     return null; // 无待复习卡片
   }
 
-  const card = cards[0];
+  return await buildCardData(db, userId, cards[0]);
+}
+
+/**
+ * 按自定义学习会话的队列顺序获取下一张卡片
+ *
+ * 不受每日上限和搁置限制；跳过队列中已删除或已暂停的卡片
+ *
+ * @param db - 数据库实例
+ * @param userId - 用户 ID
+ * @param queue - 会话剩余的卡片 ID（按出卡顺序）
+ * @returns 卡片数据或 null（队列已学完）
+ */
+export async function getQueuedCard(
+  db: DB,
+  userId: number,
+  queue: number[]
+): Promise<CardData | null> {
+  if (queue.length === 0) return null;
+
+  const cards = await db
+    .select({
+      id: userLearnedMeanings.id,
+      word: userLearnedMeanings.word,
+      wordInText: userLearnedMeanings.wordInText,
+      pos: userLearnedMeanings.pos,
+      meaningText: userLearnedMeanings.meaningText,
+      exampleSentence: userLearnedMeanings.exampleSentence,
+      cardTemplate: userLearnedMeanings.cardTemplate,
+      parentId: userLearnedMeanings.parentId,
+    })
+    .from(userLearnedMeanings)
+    .where(
+      and(
+        eq(userLearnedMeanings.userId, userId),
+        eq(userLearnedMeanings.isSuspended, false),
+        inArray(userLearnedMeanings.id, queue)
+      )
+    );
+
+  const cardsById = new Map(cards.map((card) => [card.id, card]));
+  const card = queue.map((id) => cardsById.get(id)).find(Boolean);
 
+  return card ? await buildCardData(db, userId, card) : null;
+}
+
+/**
+ * 按筛选条件查询自定义学习会话的卡片
+ *
+ * - 排除已暂停的卡片和未启用的模板，不受每日上限和搁置限制
+ * - "最近 N 天"包含今天，按用户的学习日边界计算
+ * - 提前复习只包含已学过的卡片（不含新卡片和学习步骤中的卡片），
+ *   到期时间在 N 天后的学习日结束之前
+ * - 提前复习按到期时间排序，其余按加入时间排序，最多 MAX_CUSTOM_SESSION_CARDS 张
+ *
+ * @param db - 数据库实例
+ * @param userId - 用户 ID
+ * @param filter - 筛选条件
+ * @returns 卡片 ID 列表（按出卡顺序）
+ */
+export async function findCustomSessionCards(
+  db: DB,
+  userId: number,
+  filter: CustomSessionFilter
+): Promise<number[]> {
+  const settings = await getReviewSettings(db, userId);
+  const boundary = await getUserDayBoundary(db, userId);
+  const todayKey = getDayKey(new Date(), boundary);
+  const daysAgo = (days: number) =>
+    getDayKeyStart(shiftDayKey(todayKey, -(days - 1)), boundary);
+
+  let condition: SQL;
+  switch (filter.type) {
+    case "article":
+      condition = eq(userLearnedMeanings.sourceTextId, filter.articleId);
+      break;
+    case "failed":
+      condition = inArray(
+        userLearnedMeanings.id,
+        db
+          .select({ cardId: reviewLogs.cardId })
+          .from(reviewLogs)
+          .where(
+            and(
+              eq(reviewLogs.userId, userId),
+              eq(reviewLogs.rating, "again"),
+              gte(reviewLogs.reviewedAt, daysAgo(filter.days))
+            )
+          )
+      );
+      break;
+    case "recent":
+      condition = gte(userLearnedMeanings.createdAt, daysAgo(filter.days));
+      break;
+    case "ahead":
+      condition = and(
+        reviewCardCondition,
+        lt(
+          userLearnedMeanings.nextReviewDate,
+          getDayKeyStart(shiftDayKey(todayKey, filter.days + 1), boundary)
+        )
+      )!;
+      break;
+  }
+
+  const cards = await db
+    .select({ id: userLearnedMeanings.id })
+    .from(userLearnedMeanings)
+    .where(
+      and(
+        eq(userLearnedMeanings.userId, userId),
+        eq(userLearnedMeanings.isSuspended, false),
+        enabledTemplatesCondition(settings),
+        condition
+      )
+    )
+    .orderBy(
+      filter.type === "ahead"
+        ? asc(userLearnedMeanings.nextReviewDate)
+        : asc(userLearnedMeanings.createdAt),
+      userLearnedMeanings.id
+    )
+    .limit(MAX_CUSTOM_SESSION_CARDS);
+
+  return cards.map((card) => card.id);
+}
+
+/**
+ * 构造卡片数据所需的字段
+ */
+type CardRow = Pick<
+  UserLearnedMeaning,
+  | "id"
+  | "word"
+  | "wordInText"
+  | "pos"
+  | "meaningText"
+  | "exampleSentence"
+  | "cardTemplate"
+  | "parentId"
+>;
+
+/**
+ * 将卡片记录转换为前端展示用的卡片数据
+ *
+ * 会额外查询同一单词的其他含义，用于判断 type 和展示已学含义，
+ * 并从词汇表中查询音标；
+ * cloze 模板会将例句中的单词挖空
+ *
+ * @param db - 数据库实例
+ * @param userId - 用户 ID
+ * @param card - 卡片记录
+ * @returns 卡片数据
+ */
+async function buildCardData(
+  db: DB,
+  userId: number,
+  card: CardRow
+): Promise<CardData> {
   // 查询该单词的所有学习记录（用于判断 type）
   const allMeaningsForWord = await db
     .select({
@@ -193,7 +631,8 @@ export async function getNextCard(
     .where(
       and(
         eq(userLearnedMeanings.userId, userId),
-        eq(userLearnedMeanings.word, card.word)
+        eq(userLearnedMeanings.word, card.word),
+        recognitionCardCondition
       )
     );
 
@@ -204,7 +643,7 @@ export async function getNextCard(
   let learnedMeanings: string[] | undefined;
   if (type === "extend") {
     learnedMeanings = allMeaningsForWord
-      .filter((m) => m.id !== card.id) // 排除当前卡片
+      .filter((m) => m.id !== (card.parentId ?? card.id)) // 排除当前含义
       .map((m) => {
         const posStr = m.pos ? ` (${m.pos})` : "";
         return `${m.meaningText}${posStr}`;
@@ -213,41 +652,67 @@ export async function getNextCard(
 
   return {
     id: card.id,
+    meaningId: card.parentId ?? card.id,
     word: card.word,
-    pronunciation: undefined, // TODO: 后续可从词典 API 获取
+    pronunciation: await getPronunciation(db, card.word),
     pos: card.pos || undefined,
     meaning: card.meaningText,
     sentence: card.exampleSentence || undefined,
     highlightedWord: card.wordInText || card.word, // 优先使用文中形态，兼容旧数据
     type,
     learnedMeanings,
+    template: card.cardTemplate,
+    clozeSentence:
+      card.cardTemplate === "cloze" && card.exampleSentence
+        ? createClozeSentence(card.exampleSentence, [
+            card.wordInText || "",
+            card.word,
+          ]) || undefined
+        : undefined,
   };
 }
 
 /**
  * 提交答案并更新卡片状态
  *
+ * 使用用户在复习设置中选择的调度器（SM-2 / FSRS）和调度参数计算下次复习时间，
+ * 按天安排的间隔做随机化（可按每日到期数量负载均衡），
+ * 复习阶段遗忘时累计遗忘次数，达到阈值后标记为难记卡片（可自动暂停），
+ * 并按用户设置将同一单词的其他含义搁置到明天
+ *
  * @param db - 数据库实例
  * @param userId - 用户 ID
  * @param cardId - 卡片 ID
  * @param rating - 难度评级
- * @returns 是否成功
+ * @param timing - 所属复习会话和答题用时（不通过会话答题时不传）
+ * @returns 答题结果，卡片不存在或不属于该用户时返回 null
  */
 export async function submitAnswer(
   db: DB,
   userId: number,
   cardId: number,
-  rating: DifficultyRating
-): Promise<boolean> {
+  rating: DifficultyRating,
+  timing?: AnswerTiming
+): Promise<AnswerOutcome | null> {
   // 1. 查询卡片当前状态
   const [card] = await db
     .select({
       id: userLearnedMeanings.id,
       userId: userLearnedMeanings.userId,
+      word: userLearnedMeanings.word,
       easeFactor: userLearnedMeanings.easeFactor,
       intervalDays: userLearnedMeanings.intervalDays,
       repetitions: userLearnedMeanings.repetitions,
+      cardState: userLearnedMeanings.cardState,
+      learningStep: userLearnedMeanings.learningStep,
+      stability: userLearnedMeanings.stability,
+      difficulty: userLearnedMeanings.difficulty,
+      lastReviewedAt: userLearnedMeanings.lastReviewedAt,
+      nextReviewDate: userLearnedMeanings.nextReviewDate,
       totalReviews: userLearnedMeanings.totalReviews,
+      lapses: userLearnedMeanings.lapses,
+      isLeech: userLearnedMeanings.isLeech,
+      isSuspended: userLearnedMeanings.isSuspended,
     })
     .from(userLearnedMeanings)
     .where(
@@ -259,36 +724,345 @@ export async function submitAnswer(
     .limit(1);
 
   if (!card) {
-    return false; // 卡片不存在或不属于该用户
+    return null; // 卡片不存在或不属于该用户
   }
 
-  // 2. 计算新的复习参数（Anki 算法）
-  const newState = calculateNextReview(
+  // 2. 计算新的复习参数和下次复习时间
+  //    （学习步骤内按分钟调度，毕业后使用用户设置的调度器按天调度）
+  const now = new Date();
+  const settings = await getReviewSettings(db, userId);
+  const boundary = await getUserDayBoundary(db, userId);
+  const schedulerParams = getSchedulerParameters(settings);
+  const scheduler = getScheduler(settings.schedulerType, schedulerParams);
+  const scheduled = scheduleWithSteps(
     {
       easeFactor: card.easeFactor,
       intervalDays: card.intervalDays,
       repetitions: card.repetitions,
+      cardState: card.cardState,
+      learningStep: card.learningStep,
+      stability: card.stability,
+      difficulty: card.difficulty,
+      lastReviewedAt: card.lastReviewedAt,
     },
-    rating
+    rating,
+    now,
+    scheduler,
+    settings
   );
+  //    按天调度的间隔在附近几天内随机化，避免同一批卡片始终同一天到期；
+  //    开启负载均衡时选择到期卡片最少的一天
+  const dueCounts =
+    settings.loadBalancing && scheduled.learningStep === null
+      ? await getDueCountsByInterval(
+          db,
+          userId,
+          scheduled.intervalDays,
+          now,
+          boundary
+        )
+      : undefined;
+  const newState = applyIntervalFuzz(scheduled, now, { dueCounts });
 
-  // 3. 计算下次复习日期
-  const nextReviewDate = getNextReviewDate(newState.intervalDays);
+  // 3. 难记卡片检测：复习阶段答 again 计为一次遗忘
+  const isLapse =
+    rating === "again" &&
+    resolveCardState(card.cardState, card.repetitions) === "review";
+  const lapses = isLapse ? card.lapses + 1 : card.lapses;
+  const becameLeech = !card.isLeech && lapses >= settings.leechThreshold;
+  const isLeech = card.isLeech || becameLeech;
+  const isSuspended =
+    card.isSuspended || (becameLeech && settings.leechAction === "suspend");
 
-  // 4. 更新数据库
-  await db
+  // 4. 同一单词的其他含义（兄弟卡片）搁置到明天，避免紧接着出现被剧透
+  //    学习步骤中的卡片不搁置，以免打断日内学习；
+  //    已被搁置的卡片（手动搁置或之前的答题搁置）保持原来的搁置时间
+  const siblingsCondition = and(
+    eq(userLearnedMeanings.userId, userId),
+    eq(userLearnedMeanings.word, card.word),
+    ne(userLearnedMeanings.id, cardId),
+    isNull(userLearnedMeanings.learningStep),
+    notBuried(now)
+  );
+  const burySiblingsQuery = db
     .update(userLearnedMeanings)
-    .set({
-      easeFactor: newState.easeFactor,
-      intervalDays: newState.intervalDays,
-      repetitions: newState.repetitions,
-      lastReviewedAt: new Date(),
-      nextReviewDate,
-      totalReviews: card.totalReviews + 1,
+    .set({ buriedUntil: getNextDayStart(now, boundary) })
+    .where(siblingsCondition);
+
+  // 记录本次搁置的兄弟卡片（与上面的更新条件相同），撤销答题时解除搁置
+  const buriedSiblingIds = settings.burySiblings
+    ? (
+        await db
+          .select({ id: userLearnedMeanings.id })
+          .from(userLearnedMeanings)
+          .where(siblingsCondition)
+      ).map((sibling) => sibling.id)
+    : [];
+
+  // 5. 更新卡片并写入复习日志（batch 保证所有语句同时成功或失败）
+  await db.batch([
+    db
+      .update(userLearnedMeanings)
+      .set({
+        easeFactor: newState.easeFactor,
+        intervalDays: newState.intervalDays,
+        repetitions: newState.repetitions,
+        cardState: newState.cardState,
+        learningStep: newState.learningStep,
+        stability: newState.stability,
+        difficulty: newState.difficulty,
+        lastReviewedAt: now,
+        nextReviewDate: newState.nextReviewDate,
+        totalReviews: card.totalReviews + 1,
+        lapses,
+        isLeech,
+        isSuspended,
+      })
+      .where(eq(userLearnedMeanings.id, cardId)),
+    db.insert(reviewLogs).values({
+      userId,
+      cardId,
+      rating,
+      prevIntervalDays: card.intervalDays,
+      newIntervalDays: newState.intervalDays,
+      prevEaseFactor: card.easeFactor,
+      newEaseFactor: newState.easeFactor,
+      elapsedDays: getElapsedDays(card.lastReviewedAt, now),
+      prevRepetitions: card.repetitions,
+      prevCardState: card.cardState,
+      prevLearningStep: card.learningStep,
+      prevStability: card.stability,
+      prevDifficulty: card.difficulty,
+      prevLastReviewedAt: card.lastReviewedAt,
+      prevNextReviewDate: card.nextReviewDate,
+      prevLapses: card.lapses,
+      prevIsLeech: card.isLeech,
+      prevIsSuspended: card.isSuspended,
+      buriedSiblingIds,
+      sessionId: timing?.sessionId,
+      durationMs: timing?.durationMs,
+      schedulerType: settings.schedulerType,
+      intervalModifier:
+        settings.schedulerType === "sm2"
+          ? schedulerParams.sm2.intervalModifier
+          : 1,
+      reviewedAt: now,
+    }),
+    ...(settings.burySiblings ? [burySiblingsQuery] : []),
+  ]);
+
+  return {
+    becameLeech,
+    suspended: becameLeech && isSuspended,
+  };
+}
+
+/**
+ * 撤销结果类型
+ */
+export interface UndoResult {
+  card: CardData; // 恢复后的卡片（前端重新展示）
+  rating: DifficultyRating; // 被撤销的评级（前端回退会话统计）
+}
+
+/**
+ * 撤销最近一次答题
+ *
+ * 流程：
+ * 1. 找到用户最近一条复习日志
+ * 2. 用日志中记录的答题前状态恢复卡片，并解除该次答题搁置的兄弟卡片
+ * 3. 删除该日志，并回退对应日期的每日统计和所属会话的统计
+ *
+ * 可连续调用，逐条撤销更早的答题
+ *
+ * @param db - 数据库实例
+ * @param userId - 用户 ID
+ * @returns 撤销结果，没有可撤销的答题时返回 null
+ */
+export async function undoLastAnswer(
+  db: DB,
+  userId: number
+): Promise<UndoResult | null> {
+  // 1. 查询最近一条复习日志
+  const [log] = await db
+    .select()
+    .from(reviewLogs)
+    .where(eq(reviewLogs.userId, userId))
+    .orderBy(desc(reviewLogs.reviewedAt), desc(reviewLogs.id))
+    .limit(1);
+
+  if (!log) {
+    return null; // 没有可撤销的答题
+  }
+
+  // 2. 计算答题当天的统计日期（与 updateDailyStats 的分桶方式一致）
+  const boundary = await getUserDayBoundary(db, userId);
+  const statsDate = getDayStart(log.reviewedAt, boundary);
+  const correctCount = log.rating !== "again" ? 1 : 0;
+
+  // 3. 恢复卡片、删除日志、回退统计（batch 保证同时成功或失败）
+  const [restored] = await db.batch([
+    db
+      .update(userLearnedMeanings)
+      .set({
+        easeFactor: log.prevEaseFactor,
+        intervalDays: log.prevIntervalDays,
+        repetitions: log.prevRepetitions,
+        cardState: log.prevCardState,
+        learningStep: log.prevLearningStep,
+        lapses: log.prevLapses,
+        isLeech: log.prevIsLeech,
+        isSuspended: log.prevIsSuspended,
+        stability: log.prevStability,
+        difficulty: log.prevDifficulty,
+        lastReviewedAt: log.prevLastReviewedAt,
+        nextReviewDate: log.prevNextReviewDate,
+        totalReviews: sql`greatest(${userLearnedMeanings.totalReviews} - 1, 0)`,
+      })
+      .where(eq(userLearnedMeanings.id, log.cardId))
+      .returning({
+        id: userLearnedMeanings.id,
+        word: userLearnedMeanings.word,
+        wordInText: userLearnedMeanings.wordInText,
+        pos: userLearnedMeanings.pos,
+        meaningText: userLearnedMeanings.meaningText,
+        exampleSentence: userLearnedMeanings.exampleSentence,
+        cardTemplate: userLearnedMeanings.cardTemplate,
+        parentId: userLearnedMeanings.parentId,
+      }),
+    db.delete(reviewLogs).where(eq(reviewLogs.id, log.id)),
+    // 解除该次答题搁置的兄弟卡片
+    ...(log.buriedSiblingIds.length > 0
+      ? [
+          db
+            .update(userLearnedMeanings)
+            .set({ buriedUntil: null })
+            .where(
+              and(
+                eq(userLearnedMeanings.userId, userId),
+                inArray(userLearnedMeanings.id, log.buriedSiblingIds)
+              )
+            ),
+        ]
+      : []),
+    db
+      .update(userLearningStats)
+      .set({
+        reviewedCount: sql`greatest(${userLearningStats.reviewedCount} - 1, 0)`,
+        correctCount: sql`greatest(${userLearningStats.correctCount} - ${correctCount}, 0)`,
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(userLearningStats.userId, userId),
+          eq(userLearningStats.date, statsDate)
+        )
+      ),
+    // 回退所属会话的统计，并重新开始计时（学习时长不回退）
+    ...(log.sessionId
+      ? [
+          db
+            .update(reviewSessions)
+            .set({
+              reviewedCount: sql`greatest(${reviewSessions.reviewedCount} - 1, 0)`,
+              correctCount: sql`greatest(${reviewSessions.correctCount} - ${correctCount}, 0)`,
+              cardShownAt: new Date(),
+            })
+            .where(eq(reviewSessions.id, log.sessionId)),
+        ]
+      : []),
+  ]);
+
+  const card = await buildCardData(db, userId, restored[0]);
+
+  return { card, rating: log.rating };
+}
+
+/**
+ * 对用户输入的单词评分（输入模式）
+ *
+ * - cloze 卡片以被挖空的文中形态为期望答案，其余卡片以单词原形为期望答案
+ * - 原形的词形变化和小的拼写错误也视为答对，并给出建议评级
+ *
+ * @param db - 数据库实例
+ * @param userId - 用户 ID
+ * @param cardId - 卡片 ID
+ * @param typedAnswer - 用户输入的单词
+ * @returns 评分结果，卡片不存在或不属于该用户时返回 null
+ */
+export async function gradeTypedAnswer(
+  db: DB,
+  userId: number,
+  cardId: number,
+  typedAnswer: string
+): Promise<AnswerGrade | null> {
+  const [card] = await db
+    .select({
+      word: userLearnedMeanings.word,
+      wordInText: userLearnedMeanings.wordInText,
+      cardTemplate: userLearnedMeanings.cardTemplate,
     })
-    .where(eq(userLearnedMeanings.id, cardId));
+    .from(userLearnedMeanings)
+    .where(
+      and(
+        eq(userLearnedMeanings.id, cardId),
+        eq(userLearnedMeanings.userId, userId)
+      )
+    )
+    .limit(1);
 
-  return true;
+  if (!card) {
+    return null;
+  }
+
+  return gradeAnswer(typedAnswer, {
+    lemma: card.word,
+    form: card.cardTemplate === "cloze" ? card.wordInText : null,
+  });
+}
+
+/**
+ * 查询单张卡片的复习历史
+ *
+ * @param db - 数据库实例
+ * @param userId - 用户 ID
+ * @param cardId - 卡片 ID
+ * @returns 复习日志（按时间倒序），卡片不存在或不属于该用户时返回 null
+ */
+export async function getCardHistory(
+  db: DB,
+  userId: number,
+  cardId: number
+): Promise<ReviewLogEntry[] | null> {
+  const [card] = await db
+    .select({ id: userLearnedMeanings.id })
+    .from(userLearnedMeanings)
+    .where(
+      and(
+        eq(userLearnedMeanings.id, cardId),
+        eq(userLearnedMeanings.userId, userId)
+      )
+    )
+    .limit(1);
+
+  if (!card) {
+    return null;
+  }
+
+  return await db
+    .select({
+      id: reviewLogs.id,
+      rating: reviewLogs.rating,
+      prevIntervalDays: reviewLogs.prevIntervalDays,
+      newIntervalDays: reviewLogs.newIntervalDays,
+      prevEaseFactor: reviewLogs.prevEaseFactor,
+      newEaseFactor: reviewLogs.newEaseFactor,
+      elapsedDays: reviewLogs.elapsedDays,
+      reviewedAt: reviewLogs.reviewedAt,
+    })
+    .from(reviewLogs)
+    .where(eq(reviewLogs.cardId, cardId))
+    .orderBy(desc(reviewLogs.reviewedAt), desc(reviewLogs.id));
 }
 
 /**
@@ -298,15 +1072,17 @@ export async function submitAnswer(
  * @param userId - 用户 ID
  * @param reviewedCount - 复习数量（增量）
  * @param correctCount - 答对数量（增量，rating !== 'again'）
+ * @param timeSpentMinutes - 学习时长（分钟，增量）
  */
 export async function updateDailyStats(
   db: DB,
   userId: number,
   reviewedCount: number,
-  correctCount: number
+  correctCount: number,
+  timeSpentMinutes: number = 0
 ): Promise<void> {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  const boundary = await getUserDayBoundary(db, userId);
+  const today = getDayStart(new Date(), boundary);
 
   // 尝试更新现有记录
   const result = await db
@@ -314,6 +1090,7 @@ export async function updateDailyStats(
     .set({
       reviewedCount: sql`${userLearningStats.reviewedCount} + ${reviewedCount}`,
       correctCount: sql`${userLearningStats.correctCount} + ${correctCount}`,
+      timeSpentMinutes: sql`${userLearningStats.timeSpentMinutes} + ${timeSpentMinutes}`,
       updatedAt: new Date(),
     })
     .where(
@@ -334,7 +1111,7 @@ export async function updateDailyStats(
       newWordsCount: 0,
       articlesRead: 0,
       wordsRead: 0,
-      timeSpentMinutes: 0,
+      timeSpentMinutes,
     });
   }
 }
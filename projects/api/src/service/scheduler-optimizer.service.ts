@@ -0,0 +1,123 @@
+/**
+ * 调度参数优化服务模块
+ *
+ * 职责：
+ * 1. 读取用户的复习日志，拟合调度参数（基准保留率、初始难度系数、Hard / Easy 倍数）
+ * 2. 估算不同目标保留率下的复习量，供设置页的目标保留率滑块参考
+ * 3. 将拟合结果写入复习设置
+ *
+ * 拟合算法见 utils/scheduler-optimizer.ts
+ */
+
+import { type DB } from "../db/db";
+import { reviewLogs } from "../db/schema";
+import { eq, desc } from "drizzle-orm";
+import {
+  fitSchedulerParameters,
+  buildRetentionTradeoffs,
+  type FittedSchedulerParameters,
+  type OptimizerResult,
+  type RetentionTradeoff,
+} from "../utils/scheduler-optimizer";
+import {
+  getReviewSettings,
+  updateReviewSettings,
+  type ReviewSettings,
+} from "./review-settings.service";
+
+/**
+ * 参与拟合的最多复习日志条数（取最近的）
+ */
+const MAX_OPTIMIZER_LOGS = 20000;
+
+/**
+ * 优化报告
+ */
+export interface SchedulerOptimizerReport extends OptimizerResult {
+  current: FittedSchedulerParameters; // 当前使用的参数
+  desiredRetention: number; // 当前的目标保留率
+  tradeoffs: RetentionTradeoff[]; // 按拟合参数（样本不足时按当前参数）估算
+}
+
+/**
+ * 生成调度参数优化报告（只计算，不修改设置）
+ *
+ * @param db - 数据库实例
+ * @param userId - 用户 ID
+ * @returns 拟合结果和目标保留率权衡
+ */
+export async function getSchedulerOptimizerReport(
+  db: DB,
+  userId: number
+): Promise<SchedulerOptimizerReport> {
+  const settings = await getReviewSettings(db, userId);
+  const current: FittedSchedulerParameters = {
+    baselineRetention: settings.baselineRetention,
+    startingEase: settings.startingEase,
+    hardMultiplier: settings.hardMultiplier,
+    easyBonus: settings.easyBonus,
+  };
+
+  const samples = await db
+    .select({
+      cardId: reviewLogs.cardId,
+      rating: reviewLogs.rating,
+      reviewedAt: reviewLogs.reviewedAt,
+      elapsedDays: reviewLogs.elapsedDays,
+      prevIntervalDays: reviewLogs.prevIntervalDays,
+      prevCardState: reviewLogs.prevCardState,
+      prevRepetitions: reviewLogs.prevRepetitions,
+      prevLearningStep: reviewLogs.prevLearningStep,
+      newEaseFactor: reviewLogs.newEaseFactor,
+      schedulerType: reviewLogs.schedulerType,
+      intervalModifier: reviewLogs.intervalModifier,
+    })
+    .from(reviewLogs)
+    .where(eq(reviewLogs.userId, userId))
+    .orderBy(desc(reviewLogs.reviewedAt))
+    .limit(MAX_OPTIMIZER_LOGS);
+
+  const result = fitSchedulerParameters(samples, current);
+  const baselineRetention =
+    result.parameters?.baselineRetention ?? current.baselineRetention;
+
+  return {
+    ...result,
+    current,
+    desiredRetention: settings.desiredRetention,
+    tradeoffs: buildRetentionTradeoffs(
+      baselineRetention,
+      settings.relearningSteps.length
+    ),
+  };
+}
+
+/**
+ * 拟合调度参数并写入复习设置
+ *
+ * @param db - 数据库实例
+ * @param userId - 用户 ID
+ * @returns 更新后的设置和优化报告，复习记录不足时 settings 为 null
+ */
+export async function applyOptimizedParameters(
+  db: DB,
+  userId: number
+): Promise<{
+  settings: ReviewSettings | null;
+  report: SchedulerOptimizerReport;
+}> {
+  const report = await getSchedulerOptimizerReport(db, userId);
+  if (!report.parameters) {
+    return { settings: null, report };
+  }
+
+  const settings = await updateReviewSettings(db, userId, {
+    ...report.parameters,
+    parametersOptimizedAt: new Date(),
+  });
+
+  return {
+    settings,
+    report: { ...report, current: report.parameters },
+  };
+}
@@ -13,19 +13,20 @@
 
 import { type DB } from "../db/db";
 import { userLearnedMeanings } from "../db/schema";
+import {
+  createEnabledTemplateCards,
+  recognitionCardCondition,
+} from "./card-template.service";
 import { eq, inArray, and } from "drizzle-orm";
-import { getOpenAIClient } from "../utils/openai-client";
-import { buildWordExplanationPrompt, getSystemMessage } from "../utils/prompts";
 import { type WordsWithMeanings, type UnfamiliarWord } from "./text.service";
 import {
-  withTimeout,
   classifyAIError,
-  AIParseError,
   AIValidationError,
   getUserFriendlyMessage,
 } from "../utils/ai-error-handler";
 import { generateFallbackExplanations } from "../utils/ai-fallback";
 import { extractSentenceFromArticle } from "../utils/sentence-extractor";
+import { type AIExplanationProvider } from "./ai-provider.service";
 
 /**
  * AI 解释结果类型
@@ -77,7 +78,7 @@ export interface ClassifiedWordExplanation {
  * 使用 AI 生成词汇解释
  *
  * 核心功能：
- * 1. 将单词列表和文章内容发送给 AI（GPT-4o-mini）
+ * 1. 将单词列表和文章内容发送给 AI 提供方（默认 GPT-4o-mini）
  * 2. AI 分析每个单词在上下文中的含义
  * 3. 对于有学习记录的单词，AI 判断已有含义是否适用（isExisting）
  * 4. 返回所有单词的解释（包括 isExisting=true 的，用于前端展示）
@@ -88,13 +89,13 @@ export interface ClassifiedWordExplanation {
  * - 只有 isExisting=false 的单词会被保存到数据库
  *
  * 错误处理：
- * - 超时控制：60 秒超时
+ * - 超时控制：默认 60 秒超时（AI_TIMEOUT_MS 可配置）
  * - 降级方案：如果 AI 调用失败，返回降级数据（单词列表，无解释）
  *
  * @param articleContent - 原始文章内容（用于 AI 分析上下文）
  * @param newWords - 完全陌生的词汇列表（无学习记录）
  * @param wordsWithMeanings - 有学习记录的词汇列表（需要 AI 判断是否适用）
- * @param apiKey - OpenAI API Key
+ * @param provider - AI 解释提供方
  * @param allUnfamiliarWords - 所有陌生词汇列表（用于降级方案）
  * @returns AI 生成的单词解释列表（包含 isExisting 判断），如果失败则返回降级数据
  */
@@ -102,97 +103,18 @@ export async function explainWordsByAi(
   articleContent: string,
   newWords: Array<{ word: string; lemma: string }>,
   wordsWithMeanings: WordsWithMeanings[],
-  apiKey: string,
+  provider: AIExplanationProvider,
   allUnfamiliarWords?: UnfamiliarWord[]
 ): Promise<WordExplanation[]> {
-  // 1. 创建 OpenAI 客户端
-  const openai = getOpenAIClient(apiKey);
-
-  // 2. 构建 Prompt（详见 utils/prompts.ts）
-  // Prompt 包含：文章内容、新单词列表、有学习记录的单词及其已学含义
-  const prompt = buildWordExplanationPrompt(
-    articleContent,
-    newWords,
-    wordsWithMeanings
-  );
-
   try {
-    // 3. 调用 OpenAI API（带超时控制）
-    const completion = await withTimeout(
-      openai.chat.completions.create({
-        model: "gpt-4o-mini",
-        messages: [
-          {
-            role: "system",
-            content: getSystemMessage(),
-          },
-          {
-            role: "user",
-            content: prompt,
-          },
-        ],
-        temperature: 0, // 低温度确保输出稳定性和一致性
-        response_format: { type: "json_object" }, // 强制返回 JSON 格式
-      }),
-      60000 // 60 秒超时
-    );
-
-    // 4. 解析响应
-    const responseText = completion.choices[0]?.message?.content;
-
-    if (!responseText) {
-      throw new AIParseError("AI 返回内容为空");
-    }
-
-    // 5. 解析 JSON
-    // 使用 unknown 类型而非 any：
-    // - unknown 是类型安全的，必须先进行类型检查才能使用
-    // - any 会绕过所有类型检查，可能导致运行时错误
-    // - AI 响应格式不固定，使用 unknown 强制我们进行运行时验证
-    let parsedResponse: unknown;
-    try {
-      parsedResponse = JSON.parse(responseText);
-    } catch {
-      // 移除 parseError 参数：catch 块中不需要使用错误对象
-      // 只需记录错误信息并抛出自定义错误即可
-      console.error("JSON 解析失败：", responseText);
-      throw new AIParseError("AI 返回的内容不是有效的 JSON 格式");
-    }
-    console.log("AI响应结果: ", parsedResponse);
-
-    // 6. 提取解释列表
-    // 兼容多种可能的响应格式：{ words: [...] } 或 { explanations: [...] } 或直接数组
-    let explanations: WordExplanation[] = [];
-
-    // 使用类型守卫（type guards）进行安全的类型检查：
-    // 1. 先检查 parsedResponse 是否为对象
-    // 2. 使用 'in' 操作符检查属性是否存在
-    // 3. 使用 Array.isArray() 验证是否为数组
-    // 这样可以确保类型安全，避免运行时错误
-    if (
-      parsedResponse &&
-      typeof parsedResponse === "object" &&
-      "words" in parsedResponse &&
-      Array.isArray(parsedResponse.words)
-    ) {
-      explanations = parsedResponse.words;
-    } else if (
-      parsedResponse &&
-      typeof parsedResponse === "object" &&
-      "explanations" in parsedResponse &&
-      Array.isArray(parsedResponse.explanations)
-    ) {
-      explanations = parsedResponse.explanations;
-    } else if (Array.isArray(parsedResponse)) {
-      explanations = parsedResponse;
-    } else {
-      console.error("AI 返回的 JSON 格式不符合预期:", parsedResponse);
-      throw new AIParseError(
-        "AI 返回的 JSON 格式不符合预期，期望包含 words 数组"
-      );
-    }
+    // 1. 调用 AI 提供方生成解释（OpenAI 兼容接口或 stub）
+    const explanations = await provider.explainWords({
+      articleContent,
+      newWords,
+      wordsWithMeanings,
+    });
 
-    // 7. 验证并修复数据格式
+    // 2. 验证并修复数据格式
     // 确保每个解释都包含必填字段，且格式正确
     // 如果缺少 exampleSentence，自动从文章中提取
     // 重要：所有单词（包括 isExisting=true）都必须有 meaningText（用于前端展示）
@@ -351,7 +273,8 @@ export async function classifyWordMeanings(
       .where(
         and(
           eq(userLearnedMeanings.userId, userId),
-          inArray(userLearnedMeanings.word, Array.from(lemmasToQuery))
+          inArray(userLearnedMeanings.word, Array.from(lemmasToQuery)),
+          recognitionCardCondition
         )
       );
 
@@ -476,9 +399,15 @@ export async function saveWordMeanings(
     totalReviews: 0,
   }));
 
+  const savedIds: number[] = [];
+
   try {
     // 尝试批量插入（性能更好）
-    await db.insert(userLearnedMeanings).values(valuesToInsert);
+    const inserted = await db
+      .insert(userLearnedMeanings)
+      .values(valuesToInsert)
+      .returning({ id: userLearnedMeanings.id });
+    savedIds.push(...inserted.map((row) => row.id));
     savedCount = valuesToInsert.length;
   } catch (error) {
     console.error("批量保存失败，尝试逐个保存:", error);
@@ -486,7 +415,11 @@ export async function saveWordMeanings(
     // 批量插入失败（可能是唯一约束冲突），尝试逐个插入
     for (const value of valuesToInsert) {
       try {
-        await db.insert(userLearnedMeanings).values(value);
+        const [row] = await db
+          .insert(userLearnedMeanings)
+          .values(value)
+          .returning({ id: userLearnedMeanings.id });
+        savedIds.push(row.id);
         savedCount++;
       } catch (singleError) {
         console.warn(`单词 ${value.word} 保存失败:`, singleError);
@@ -495,5 +428,8 @@ export async function saveWordMeanings(
     }
   }
 
+  // 按用户启用的模板生成派生卡片（reverse / cloze）
+  await createEnabledTemplateCards(db, userId, savedIds);
+
   return { savedCount };
 }
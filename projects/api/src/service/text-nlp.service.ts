@@ -1,15 +1,22 @@
 /**
- * Google NLP 服务模块
+ * NLP 服务模块
  *
  * 职责：
- * 1. 调用 Google Cloud Natural Language API 进行文本分析
- * 2. 处理和合并连字符复合词（如 state-of-the-art）
- * 3. 过滤无意义的 token（符号、数字、缩写片段等）
+ * 1. 定义 NLP 提供方接口，按环境变量选择 Google 或本地实现
+ * 2. 调用 Google Cloud Natural Language API 进行文本分析
+ * 3. 识别多词短语（如 take over、in the long run）
+ * 4. 处理和合并连字符复合词（如 state-of-the-art）
+ * 5. 过滤无意义的 token（符号、数字、缩写片段等）
  *
  * 核心流程：
- * 文本 → Google NLP API → Token 列表 → 过滤处理 → 有效单词列表
+ * 文本 → Google NLP API / 本地分析 → Token 列表 → 短语识别 → 过滤处理
+ * → 有效单词列表
  */
 
+import { type Bindings } from "../types/bindings";
+import { analyzeEnglish } from "../utils/english-nlp";
+import { detectPhrases, type PhraseDictionary } from "../utils/phrase-detector";
+
 /**
  * NLP Token 类型
  * 表示文本分析后的单个词汇单元
@@ -21,6 +28,22 @@ export interface NLPToken {
   offset: number; // 在原文中的位置偏移
 }
 
+/**
+ * NLP 提供方
+ *
+ * 不同实现返回相同结构的 token 列表（已识别短语、过滤和合并复合词）
+ */
+export interface NLPProvider {
+  name: NLPProviderName;
+  /**
+   * 分析文本
+   * @param phrases - 短语词典，未传入时不识别多词短语
+   */
+  analyze(text: string, phrases?: PhraseDictionary): Promise<NLPToken[]>;
+}
+
+export type NLPProviderName = "google" | "local";
+
 /**
  * Google NLP API 响应类型
  * 定义 Google Cloud Natural Language API 返回的数据结构
@@ -49,12 +72,14 @@ export interface GoogleNLPResponse {
  *
  * @param text - 要分析的原始文本
  * @param apiKey - Google Cloud API Key
+ * @param phrases - 短语词典（可选）
  * @returns 分析后的 token 列表（已过滤和处理）
  * @throws 如果 API 调用失败
  */
 export async function analyzeTextWithGoogleNLP(
   text: string,
-  apiKey: string
+  apiKey: string,
+  phrases?: PhraseDictionary
 ): Promise<NLPToken[]> {
   const response = await fetch(
     `https://language.googleapis.com/v1/documents:analyzeSyntax?key=${apiKey}`,
@@ -82,8 +107,62 @@ export async function analyzeTextWithGoogleNLP(
 
   const data = (await response.json()) as GoogleNLPResponse;
 
-  // 处理连字符复合词并过滤无效 token
-  return mergeHyphenatedWords(data.tokens);
+  // 识别短语、处理连字符复合词并过滤无效 token
+  return processTokens(data.tokens, text, phrases);
+}
+
+/**
+ * 创建 Google NLP 提供方
+ *
+ * @param apiKey - Google Cloud API Key
+ */
+export function createGoogleNLPProvider(apiKey: string): NLPProvider {
+  return {
+    name: "google",
+    analyze: (text, phrases) =>
+      analyzeTextWithGoogleNLP(text, apiKey, phrases),
+  };
+}
+
+/**
+ * 创建本地 NLP 提供方
+ *
+ * 使用内置的英语分词、词性标注和词形还原规则（见 utils/english-nlp.ts），
+ * 不需要网络和 API Key，结果经过与 Google 相同的短语识别、过滤和复合词合并
+ */
+export function createLocalNLPProvider(): NLPProvider {
+  return {
+    name: "local",
+    analyze: async (text, phrases) =>
+      processTokens(analyzeEnglish(text), text, phrases),
+  };
+}
+
+/**
+ * 根据环境变量选择 NLP 提供方
+ *
+ * - NLP_PROVIDER=google：使用 Google NLP（需要 GOOGLE_NLP_API_KEY）
+ * - NLP_PROVIDER=local：使用本地分析
+ * - 未设置：配置了 GOOGLE_NLP_API_KEY 时使用 Google，否则使用本地分析
+ *
+ * @param env - 环境变量
+ * @returns NLP 提供方，指定了 Google 但没有配置 API Key 时返回 null
+ */
+export function createNLPProvider(
+  env: Pick<Bindings, "NLP_PROVIDER" | "GOOGLE_NLP_API_KEY">
+): NLPProvider | null {
+  const apiKey = env.GOOGLE_NLP_API_KEY;
+
+  switch (env.NLP_PROVIDER) {
+    case "local":
+      return createLocalNLPProvider();
+    case "google":
+      return apiKey ? createGoogleNLPProvider(apiKey) : null;
+    default:
+      return apiKey
+        ? createGoogleNLPProvider(apiKey)
+        : createLocalNLPProvider();
+  }
 }
 
 /**
@@ -172,6 +251,21 @@ function isTooShort(text: string, minLength: number = 3): boolean {
   return !letters || letters.length < minLength;
 }
 
+/**
+ * 处理原始 token：先识别多词短语，再合并连字符复合词并过滤
+ *
+ * 短语识别必须在过滤之前进行，否则 "by and large" 中的短词已被过滤
+ */
+function processTokens(
+  tokens: GoogleNLPResponse["tokens"],
+  text: string,
+  phrases?: PhraseDictionary
+): NLPToken[] {
+  return mergeHyphenatedWords(
+    phrases ? detectPhrases(tokens, phrases, text) : tokens
+  );
+}
+
 /**
  * 合并连字符复合词并过滤无效 token
  *
@@ -185,7 +279,7 @@ function isTooShort(text: string, minLength: number = 3): boolean {
  *
  * 目标：只保留真正的英语单词
  *
- * @param tokens - Google NLP API 返回的原始 token 列表
+ * @param tokens - Google NLP API 或本地分析返回的原始 token 列表
  * @returns 过滤和处理后的有效单词列表
  */
 function mergeHyphenatedWords(tokens: GoogleNLPResponse["tokens"]): NLPToken[] {
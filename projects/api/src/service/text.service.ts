@@ -8,7 +8,8 @@
  * 4. 查询和过滤陌生词汇
  *
  * 主要流程：
- * 用户输入文章 → Google NLP 分析 → 过滤陌生词 → AI 生成解释 → 分类 → 保存
+ * 用户输入文章 → NLP 分析（Google / 本地）→ 短语识别 → 过滤陌生词
+ * → 查询解释缓存 → AI 生成解释 → 分类 → 保存
  */
 
 import { type DB } from "../db/db";
@@ -18,8 +19,24 @@ import {
   userLearnedMeanings,
   userKnownWords,
 } from "../db/schema";
-import { eq, inArray, and } from "drizzle-orm";
-import { analyzeTextWithGoogleNLP, type NLPToken } from "./text-nlp.service";
+import { eq, inArray, and, like } from "drizzle-orm";
+import { type NLPProvider, type NLPToken } from "./text-nlp.service";
+import {
+  buildPhraseDictionary,
+  type PhraseDictionary,
+} from "../utils/phrase-detector";
+import {
+  explainWordsByAi,
+  classifyWordMeanings,
+  type ClassifiedWordExplanation,
+  type WordExplanation,
+} from "./text-ai.service";
+import { type AIExplanationProvider } from "./ai-provider.service";
+import {
+  lookupCachedExplanations,
+  saveCachedExplanations,
+} from "./explanation-cache.service";
+import { isFallbackData } from "../utils/ai-fallback";
 
 // 导出 AI 相关的类型和函数
 export type {
@@ -107,12 +124,32 @@ export async function getUserKnownWords(
   return knownWordsSet;
 }
 
+/**
+ * 获取短语词典
+ *
+ * 由 vocabulary 表中包含空格的词条（如 "in the long run"）和
+ * 内置的短语动词列表（见 utils/phrasal-verbs.ts）组成
+ *
+ * @param db - 数据库实例
+ * @returns 短语词典
+ */
+export async function getPhraseDictionary(db: DB): Promise<PhraseDictionary> {
+  const phrases = await db
+    .select({ word: vocabulary.word })
+    .from(vocabulary)
+    .where(like(vocabulary.word, "% %"));
+
+  return buildPhraseDictionary(phrases.map((p) => p.word));
+}
+
 /**
  * 陌生词汇对象类型
  *
  * 包含单词的两种形式：
  * - word: 单词在文章中的实际形式（如 "running", "You"）
  * - lemma: 单词的原型/词根（如 "run", "you"）
+ *
+ * 多词短语同样作为一个条目（如 word: "took over", lemma: "take over"）
  */
 export interface UnfamiliarWord {
   word: string; // 单词在文中的形式（用于前端展示）
@@ -170,7 +207,7 @@ export function filterUnfamiliarWords(
  * 这是文本分析的主要入口，协调各个子模块完成分析流程：
  *
  * 流程：
- * 1. 调用 Google NLP API 分析文本，获取 token 列表
+ * 1. 调用 NLP 提供方分析文本，获取 token 列表（多词短语合并为一个 token）
  * 2. 查询用户的词汇等级，获取已掌握的词汇集合
  * 3. 过滤出陌生词汇（未掌握的词）
  * 4. 返回陌生词汇列表和统计信息
@@ -178,22 +215,23 @@ export function filterUnfamiliarWords(
  * @param db - 数据库实例
  * @param userId - 用户 ID
  * @param content - 文章内容
- * @param googleApiKey - Google Cloud API Key
+ * @param nlpProvider - NLP 提供方（Google 或本地分析）
  * @returns 陌生词汇列表和总词数统计
  */
 export async function analyzeArticle(
   db: DB,
   userId: number,
   content: string,
-  googleApiKey: string
+  nlpProvider: NLPProvider
 ): Promise<{
   unfamiliarWords: UnfamiliarWord[];
   totalWords: number;
 }> {
-  // 1. 调用 Google NLP API 分析文本
-  // 返回经过过滤的有效单词列表（已过滤标点、数字、符号等）
-  const tokens = await analyzeTextWithGoogleNLP(content, googleApiKey);
-  console.log("Google NLP 分析结果:", tokens);
+  // 1. 调用 NLP 提供方分析文本
+  // 返回经过过滤的有效单词列表（已识别短语，已过滤标点、数字、符号等）
+  const phrases = await getPhraseDictionary(db);
+  const tokens = await nlpProvider.analyze(content, phrases);
+  console.log(`NLP 分析结果（${nlpProvider.name}）:`, tokens);
 
   // 2. 获取用户已掌握的词汇列表（基于词汇等级）
   const knownWords = await getUserKnownWords(db, userId);
@@ -305,3 +343,221 @@ export async function queryExistingMeanings(
 
   return { newWords, wordsWithMeanings };
 }
+
+/**
+ * 生成解释的结果（含缓存统计）
+ */
+export interface CachedExplanationResult {
+  explanations: WordExplanation[]; // 缓存命中的解释 + AI 生成的解释
+  isFallback: boolean; // AI 生成的部分是否为降级数据
+  cacheHits: number; // 命中缓存的单词数
+  cacheMisses: number; // 交给 AI 的单词数
+}
+
+/**
+ * 生成单词解释，优先使用共享缓存
+ *
+ * 流程：
+ * 1. 完全陌生的词先查询缓存（lemma + 所在句子 + Prompt 版本 + 模型）
+ * 2. 未命中的陌生词和有学习记录的词交给 AI（后者的解释与用户相关，不缓存）
+ * 3. AI 成功时将新词的解释写入缓存
+ *
+ * stub 提供方不读写缓存，避免固定的占位解释进入缓存；
+ * 缓存读写失败时只记录日志，不影响生成解释
+ *
+ * @param articleContent - 文章内容
+ * @param newWords - 完全陌生的单词
+ * @param wordsWithMeanings - 有学习记录的单词
+ * @param provider - AI 解释提供方
+ * @param db - 数据库实例
+ */
+export async function explainWordsWithCache(
+  articleContent: string,
+  newWords: UnfamiliarWord[],
+  wordsWithMeanings: WordsWithMeanings[],
+  provider: AIExplanationProvider,
+  db: DB
+): Promise<CachedExplanationResult> {
+  const useCache = provider.name !== "stub";
+
+  let hits: WordExplanation[] = [];
+  let misses = newWords;
+  if (useCache) {
+    try {
+      ({ hits, misses } = await lookupCachedExplanations(
+        db,
+        articleContent,
+        newWords,
+        provider
+      ));
+    } catch (error) {
+      console.error("查询解释缓存失败：", error);
+    }
+  }
+
+  const aiWords = [
+    ...misses,
+    ...wordsWithMeanings.map(({ word, lemma }) => ({ word, lemma })),
+  ];
+
+  let aiExplanations: WordExplanation[] = [];
+  if (aiWords.length > 0) {
+    // 只传递交给 AI 的单词作为降级数据，命中缓存的单词不受 AI 失败影响
+    aiExplanations = await explainWordsByAi(
+      articleContent,
+      misses,
+      wordsWithMeanings,
+      provider,
+      aiWords
+    );
+
+    if (useCache && !isFallbackData(aiExplanations)) {
+      try {
+        await saveCachedExplanations(
+          db,
+          articleContent,
+          aiExplanations,
+          misses,
+          provider
+        );
+      } catch (error) {
+        console.error("写入解释缓存失败：", error);
+      }
+    }
+  }
+
+  return {
+    explanations: [...hits, ...aiExplanations],
+    isFallback: isFallbackData(aiExplanations),
+    cacheHits: hits.length,
+    cacheMisses: aiWords.length,
+  };
+}
+
+/**
+ * 分批生成解释时每批的单词数
+ *
+ * 批次越小第一批结果返回越快，但 AI 调用次数越多（每次都要发送文章内容）
+ */
+export const EXPLAIN_BATCH_SIZE = 8;
+
+/**
+ * 一批单词的解释结果
+ */
+export interface ExplanationBatch {
+  index: number; // 批次序号（从 0 开始）
+  total: number; // 批次总数
+  results: ClassifiedWordExplanation[]; // 分类后的解释
+  isFallback: boolean; // 该批次是否为降级数据
+  cacheHits: number; // 该批次命中缓存的单词数
+  cacheMisses: number; // 该批次交给 AI 的单词数
+}
+
+/**
+ * 同时进行的批次数
+ *
+ * 批次并发执行，总耗时接近单次请求；上限避免长文章同时发起过多 AI 请求
+ */
+export const EXPLAIN_BATCH_CONCURRENCY = 3;
+
+/**
+ * 分批生成单词解释（流式接口使用）
+ *
+ * 将陌生词汇按 EXPLAIN_BATCH_SIZE 分批，每批完成：
+ * 查询已学含义 → 查询缓存 / AI 生成解释 → 分类
+ *
+ * 最多 concurrency 个批次同时进行，按完成顺序产出（index 为批次序号，
+ * 产出顺序不一定与 index 一致）
+ *
+ * 某一批 AI 调用失败时，该批返回降级数据（isFallback=true），
+ * 不影响其他批次
+ *
+ * @param articleContent - 文章内容
+ * @param unfamiliarWords - 陌生词汇列表
+ * @param provider - AI 解释提供方
+ * @param userId - 用户 ID
+ * @param db - 数据库实例
+ * @param batchSize - 每批单词数
+ * @param concurrency - 同时进行的批次数
+ */
+export async function* explainWordsInBatches(
+  articleContent: string,
+  unfamiliarWords: UnfamiliarWord[],
+  provider: AIExplanationProvider,
+  userId: number,
+  db: DB,
+  batchSize: number = EXPLAIN_BATCH_SIZE,
+  concurrency: number = EXPLAIN_BATCH_CONCURRENCY
+): AsyncGenerator<ExplanationBatch> {
+  const batches: UnfamiliarWord[][] = [];
+  for (let i = 0; i < unfamiliarWords.length; i += batchSize) {
+    batches.push(unfamiliarWords.slice(i, i + batchSize));
+  }
+
+  const explainBatch = async (index: number): Promise<ExplanationBatch> => {
+    const batch = batches[index];
+    const { newWords, wordsWithMeanings } = await queryExistingMeanings(
+      batch,
+      userId,
+      db
+    );
+
+    // AI 失败时只影响本批
+    const { explanations, isFallback, cacheHits, cacheMisses } =
+      await explainWordsWithCache(
+        articleContent,
+        newWords,
+        wordsWithMeanings,
+        provider,
+        db
+      );
+
+    const results = await classifyWordMeanings(
+      explanations,
+      batch,
+      userId,
+      db
+    );
+
+    return {
+      index,
+      total: batches.length,
+      results,
+      isFallback,
+      cacheHits,
+      cacheMisses,
+    };
+  };
+
+  // 进行中的批次：序号 → 结果（出错时包含错误，等轮到它时再抛出，
+  // 避免生成器提前结束后其他批次的错误无人处理）
+  type Settled =
+    | { index: number; ok: true; batch: ExplanationBatch }
+    | { index: number; ok: false; error: unknown };
+  const running = new Map<number, Promise<Settled>>();
+  let nextIndex = 0;
+
+  const startNext = () => {
+    const index = nextIndex++;
+    running.set(
+      index,
+      explainBatch(index).then(
+        (batch): Settled => ({ index, ok: true, batch }),
+        (error: unknown): Settled => ({ index, ok: false, error })
+      )
+    );
+  };
+
+  while (nextIndex < batches.length && running.size < concurrency) {
+    startNext();
+  }
+
+  while (running.size > 0) {
+    const settled = await Promise.race(running.values());
+    running.delete(settled.index);
+    if (!settled.ok) throw settled.error;
+
+    if (nextIndex < batches.length) startNext();
+    yield settled.batch;
+  }
+}
@@ -4,12 +4,31 @@
  * 职责：
  * 1. 添加/删除/更新用户正在学习的单词
  * 2. 查询用户的学习单词列表
- * 3. 管理单词的复习记录和进度
+ * 3. 管理单词的复习记录和进度（暂停 / 搁置 / 重置）
+ *
+ * 说明：这里的 ID 均指学习含义本身（recognition 卡片），
+ * 修改会同步到由它派生的 reverse / cloze 卡片
  */
 
 import { type DB } from "../db/db";
 import { userLearnedMeanings } from "../db/schema";
-import { eq, and, desc, asc } from "drizzle-orm";
+import { eq, and, or, desc, asc } from "drizzle-orm";
+import {
+  createEnabledTemplateCards,
+  recognitionCardCondition,
+} from "./card-template.service";
+import { getUserDayBoundary } from "./user-preferences.service";
+import { getNextDayStart } from "../utils/day-boundary";
+
+/**
+ * 匹配某个学习含义及其派生卡片
+ */
+function meaningCardsCondition(userId: number, id: number) {
+  return and(
+    eq(userLearnedMeanings.userId, userId),
+    or(eq(userLearnedMeanings.id, id), eq(userLearnedMeanings.parentId, id))
+  );
+}
 
 /**
  * 添加单词到用户学习列表
@@ -47,6 +66,9 @@ export async function addLearningWord(
       })
       .returning({ id: userLearnedMeanings.id });
 
+    // 按用户启用的模板生成派生卡片
+    await createEnabledTemplateCards(db, userId, [result.id]);
+
     return result.id;
   } catch (error) {
     console.error("添加学习单词失败:", error);
@@ -57,11 +79,14 @@ export async function addLearningWord(
 /**
  * 更新学习单词
  *
+ * 派生卡片同步更新；新增例句后按需补充生成 cloze 卡片
+ *
  * @param db - 数据库实例
  * @param userId - 用户 ID
  * @param id - 记录 ID
  * @param word - 单词原形
  * @param meaningText - 含义解释
+ * @param options - 可选字段（未传入的字段保持不变）
  * @returns 是否更新成功
  */
 export async function updateLearningWord(
@@ -69,7 +94,11 @@ export async function updateLearningWord(
   userId: number,
   id: number,
   word: string,
-  meaningText: string
+  meaningText: string,
+  options?: {
+    pos?: string | null;
+    exampleSentence?: string | null;
+  }
 ): Promise<boolean> {
   try {
     await db
@@ -77,13 +106,12 @@ export async function updateLearningWord(
       .set({
         word: word.toLowerCase(),
         meaningText,
+        pos: options?.pos,
+        exampleSentence: options?.exampleSentence,
       })
-      .where(
-        and(
-          eq(userLearnedMeanings.id, id),
-          eq(userLearnedMeanings.userId, userId)
-        )
-      );
+      .where(meaningCardsCondition(userId, id));
+
+    await createEnabledTemplateCards(db, userId, [id]);
 
     return true;
   } catch (error) {
@@ -122,6 +150,109 @@ export async function removeLearningWord(
   }
 }
 
+/**
+ * 暂停 / 恢复学习单词的复习
+ *
+ * 暂停的卡片不会出现在复习队列中，直到用户手动恢复
+ *
+ * @param db - 数据库实例
+ * @param userId - 用户 ID
+ * @param id - 记录 ID
+ * @param suspended - true 暂停，false 恢复
+ * @returns 是否找到并更新了记录
+ */
+export async function setLearningWordSuspended(
+  db: DB,
+  userId: number,
+  id: number,
+  suspended: boolean
+): Promise<boolean> {
+  try {
+    const result = await db
+      .update(userLearnedMeanings)
+      .set({ isSuspended: suspended })
+      .where(meaningCardsCondition(userId, id))
+      .returning({ id: userLearnedMeanings.id });
+
+    return result.length > 0;
+  } catch (error) {
+    console.error("更新暂停状态失败:", error);
+    throw new Error("更新暂停状态失败");
+  }
+}
+
+/**
+ * 搁置学习单词到明天
+ *
+ * 搁置的卡片今天不再出现在复习队列中，下一个学习日开始后自动恢复
+ *
+ * @param db - 数据库实例
+ * @param userId - 用户 ID
+ * @param id - 记录 ID
+ * @returns 是否找到并更新了记录
+ */
+export async function buryLearningWord(
+  db: DB,
+  userId: number,
+  id: number
+): Promise<boolean> {
+  try {
+    const boundary = await getUserDayBoundary(db, userId);
+    const result = await db
+      .update(userLearnedMeanings)
+      .set({ buriedUntil: getNextDayStart(new Date(), boundary) })
+      .where(meaningCardsCondition(userId, id))
+      .returning({ id: userLearnedMeanings.id });
+
+    return result.length > 0;
+  } catch (error) {
+    console.error("搁置学习单词失败:", error);
+    throw new Error("搁置学习单词失败");
+  }
+}
+
+/**
+ * 重置学习单词的复习进度
+ *
+ * 卡片恢复为新卡片状态并立即可复习（保留累计复习次数和暂停状态）
+ *
+ * @param db - 数据库实例
+ * @param userId - 用户 ID
+ * @param id - 记录 ID
+ * @returns 是否找到并更新了记录
+ */
+export async function resetLearningWordProgress(
+  db: DB,
+  userId: number,
+  id: number
+): Promise<boolean> {
+  try {
+    const result = await db
+      .update(userLearnedMeanings)
+      .set({
+        easeFactor: 2.5,
+        intervalDays: 1,
+        repetitions: 0,
+        cardState: "new",
+        learningStep: null,
+        stability: null,
+        difficulty: null,
+        lastReviewedAt: null,
+        nextReviewDate: new Date(),
+        lapses: 0,
+        isLeech: false,
+        buriedUntil: null,
+      })
+      .where(meaningCardsCondition(userId, id))
+      .returning({ id: userLearnedMeanings.id });
+
+    return result.length > 0;
+  } catch (error) {
+    console.error("重置复习进度失败:", error);
+    throw new Error("重置复习进度失败");
+  }
+}
+
 /**
  * 查询用户的所有学习单词
  *
@@ -151,10 +282,16 @@ export async function getUserLearningWordsList(
         nextReviewDate: userLearnedMeanings.nextReviewDate,
         lastReviewedAt: userLearnedMeanings.lastReviewedAt,
         totalReviews: userLearnedMeanings.totalReviews,
+        lapses: userLearnedMeanings.lapses,
+        isLeech: userLearnedMeanings.isLeech,
+        isSuspended: userLearnedMeanings.isSuspended,
+        buriedUntil: userLearnedMeanings.buriedUntil,
         createdAt: userLearnedMeanings.createdAt,
       })
       .from(userLearnedMeanings)
-      .where(eq(userLearnedMeanings.userId, userId))
+      .where(
+        and(eq(userLearnedMeanings.userId, userId), recognitionCardCondition)
+      )
       .orderBy(orderByFn(userLearnedMeanings.createdAt));
 
     return words;
@@ -176,7 +313,9 @@ export async function getLearningWordsStats(db: DB, userId: number) {
     const allWords = await db
       .select()
       .from(userLearnedMeanings)
-      .where(eq(userLearnedMeanings.userId, userId));
+      .where(
+        and(eq(userLearnedMeanings.userId, userId), recognitionCardCondition)
+      );
 
     const stats = {
       total: allWords.length,
@@ -0,0 +1,42 @@
+/**
+ * 用户偏好服务模块
+ *
+ * 职责：
+ * 1. 查询用户的学习日边界（时区 + 每天开始时间），供按天分桶的逻辑使用
+ */
+
+import { type DB } from "../db/db";
+import { users } from "../db/schema";
+import { eq } from "drizzle-orm";
+import {
+  DEFAULT_DAY_BOUNDARY,
+  isValidTimezone,
+  type DayBoundary,
+} from "../utils/day-boundary";
+
+/**
+ * 查询用户的学习日边界
+ *
+ * @param db - 数据库实例
+ * @param userId - 用户 ID
+ * @returns 日期边界设置（用户不存在或时区无效时返回默认值）
+ */
+export async function getUserDayBoundary(
+  db: DB,
+  userId: number
+): Promise<DayBoundary> {
+  const [user] = await db
+    .select({
+      timezone: users.timezone,
+      dayStartHour: users.dayStartHour,
+    })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  if (!user || !isValidTimezone(user.timezone)) {
+    return { ...DEFAULT_DAY_BOUNDARY };
+  }
+
+  return user;
+}
@@ -0,0 +1,117 @@
+/**
+ * 用户学习统计服务模块
+ *
+ * 职责：
+ * 1. 汇总首页统计卡片所需的数据（今日学习、待复习、掌握词汇、学习天数）
+ * 2. 计算累计学习天数和连续学习天数
+ *
+ * 数据来源：
+ * - user_learning_stats: 每日学习记录（学习天数、连续天数）
+ * - user_learned_meanings: 学习中的含义（今日新词、掌握词汇）
+ * - user_known_words: 用户已认识的词
+ * - 复习服务: 今日待复习数量（与复习页面一致，已扣除每日上限）
+ */
+
+import { type DB } from "../db/db";
+import {
+  userLearningStats,
+  userLearnedMeanings,
+  userKnownWords,
+} from "../db/schema";
+import { eq, and, or, gt, sql } from "drizzle-orm";
+import { calculateStreaks } from "../utils/streak";
+import { getDayKey, getDayStart } from "../utils/day-boundary";
+import { getUserDayBoundary } from "./user-preferences.service";
+import { recognitionCardCondition } from "./card-template.service";
+import { getReviewStats } from "./review.service";
+
+/**
+ * 掌握词汇的间隔阈值（天）：复习间隔达到该值视为已掌握
+ *
+ * 与复习统计中"复习中（长期记忆）"的划分一致
+ */
+export const MASTERED_INTERVAL_DAYS = 21;
+
+/**
+ * 用户学习统计类型
+ */
+export interface UserLearningSummary {
+  todayNewWords: number; // 今日新增学习的含义数
+  dueCount: number; // 今日待复习
+  masteredCount: number; // 已掌握的含义数（间隔 >= 阈值）
+  knownWordsCount: number; // 已认识的词数
+  studyDays: number; // 累计学习天数
+  currentStreak: number; // 当前连续学习天数
+  longestStreak: number; // 最长连续学习天数
+}
+
+/**
+ * 查询用户的学习统计
+ *
+ * @param db - 数据库实例
+ * @param userId - 用户 ID
+ * @returns 学习统计
+ */
+export async function getUserLearningSummary(
+  db: DB,
+  userId: number
+): Promise<UserLearningSummary> {
+  const now = new Date();
+  const boundary = await getUserDayBoundary(db, userId);
+  const today = getDayStart(now, boundary);
+
+  // 1. 今日新词和掌握词汇（只统计含义本身，不含派生卡片）
+  const [meaningCounts] = await db
+    .select({
+      todayNewWords: sql<number>`cast(count(*) filter (where ${userLearnedMeanings.createdAt} >= ${today}) as integer)`,
+      masteredCount: sql<number>`cast(count(*) filter (where ${userLearnedMeanings.intervalDays} >= ${MASTERED_INTERVAL_DAYS}) as integer)`,
+    })
+    .from(userLearnedMeanings)
+    .where(
+      and(eq(userLearnedMeanings.userId, userId), recognitionCardCondition)
+    );
+
+  // 2. 已认识的词
+  const [knownWordsResult] = await db
+    .select({
+      count: sql<number>`cast(count(*) as integer)`,
+    })
+    .from(userKnownWords)
+    .where(eq(userKnownWords.userId, userId));
+
+  // 3. 有学习行为的日期（复习、分析文章、阅读或有学习时长）
+  const studyDates = await db
+    .select({ date: userLearningStats.date })
+    .from(userLearningStats)
+    .where(
+      and(
+        eq(userLearningStats.userId, userId),
+        or(
+          gt(userLearningStats.reviewedCount, 0),
+          gt(userLearningStats.newWordsCount, 0),
+          gt(userLearningStats.articlesAnalyzedCount, 0),
+          gt(userLearningStats.articlesRead, 0),
+          gt(userLearningStats.timeSpentMinutes, 0)
+        )
+      )
+    );
+
+  // 今天新增了单词也算学习（新增单词不一定写入每日统计）
+  const todayKey = getDayKey(now, boundary);
+  const dayKeys = studyDates.map((row) => getDayKey(row.date, boundary));
+  if ((meaningCounts?.todayNewWords || 0) > 0) {
+    dayKeys.push(todayKey);
+  }
+  const streaks = calculateStreaks(dayKeys, todayKey);
+
+  // 4. 今日待复习（与复习页面一致）
+  const reviewStats = await getReviewStats(db, userId);
+
+  return {
+    todayNewWords: meaningCounts?.todayNewWords || 0,
+    dueCount: reviewStats.todayDue,
+    masteredCount: meaningCounts?.masteredCount || 0,
+    knownWordsCount: knownWordsResult?.count || 0,
+    ...streaks,
+  };
+}
@@ -8,10 +8,20 @@ export type Bindings = {
   BETTER_AUTH_SECRET: string;
   BETTER_AUTH_URL: string;
 
-  // Google NLP API
-  GOOGLE_NLP_API_KEY: string;
+  // Google NLP API（使用本地分析时可不配置）
+  GOOGLE_NLP_API_KEY?: string;
 
-  AIHUBMIX_API_KEY: string;
+  // NLP 提供方："google" 或 "local"，未设置时有 API Key 则使用 Google
+  NLP_PROVIDER?: "google" | "local";
+
+  AIHUBMIX_API_KEY?: string;
+
+  // AI 解释提供方（见 utils/ai-provider.ts）
+  AI_PROVIDER?: "openai" | "stub"; // 默认 openai，stub 不调用 AI
+  AI_BASE_URL?: string; // OpenAI 兼容接口地址，默认 AIHubMix
+  AI_MODEL?: string; // 默认 gpt-4o-mini
+  AI_API_KEY?: string; // 未设置时使用 AIHUBMIX_API_KEY
+  AI_TIMEOUT_MS?: string; // 请求超时毫秒数，默认 60000
 
   // Resend 邮件服务
   RESEND_API_KEY: string;
@@ -0,0 +1,124 @@
+/**
+ * AI 解释提供方配置
+ *
+ * 通过环境变量选择生成单词解释的方式：
+ * - openai：任意 OpenAI 兼容接口（默认 AIHubMix，也可以是本地 LLM 服务）
+ * - stub：不调用 AI，根据词汇表生成固定的解释，用于本地开发和 CI
+ *
+ * 环境变量：
+ * - AI_PROVIDER：openai / stub（默认 openai）
+ * - AI_BASE_URL：接口地址（默认 https://aihubmix.com/v1）
+ * - AI_MODEL：模型名称（默认 gpt-4o-mini）
+ * - AI_API_KEY：API Key（未设置时使用 AIHUBMIX_API_KEY）
+ * - AI_TIMEOUT_MS：请求超时毫秒数（默认 60000）
+ */
+
+import { type Bindings } from "../types/bindings";
+import { type WordExplanation } from "../service/text-ai.service";
+import { type UnfamiliarWord } from "../service/text.service";
+import { extractSentenceFromArticle } from "./sentence-extractor";
+
+export type AIProviderName = "openai" | "stub";
+
+export interface AIProviderConfig {
+  provider: AIProviderName;
+  baseURL: string;
+  model: string;
+  apiKey: string;
+  timeoutMs: number;
+}
+
+export const DEFAULT_AI_BASE_URL = "https://aihubmix.com/v1";
+export const DEFAULT_AI_MODEL = "gpt-4o-mini";
+export const DEFAULT_AI_TIMEOUT_MS = 60000;
+
+// 本地 LLM 服务通常不校验 Key，但 OpenAI SDK 要求传入非空值
+const LOCAL_SERVER_API_KEY = "not-needed";
+
+/**
+ * 解析 AI 提供方配置
+ *
+ * @param env - 环境变量
+ * @returns 配置，使用默认接口地址但没有配置 API Key 时返回 null
+ *
+ * @example
+ * resolveAIProviderConfig({ AI_PROVIDER: "stub" })
+ * // { provider: "stub", model: "gpt-4o-mini", ... }
+ *
+ * // 本地 LLM 服务（不需要 Key）
+ * resolveAIProviderConfig({ AI_BASE_URL: "http://localhost:11434/v1" })
+ * // { provider: "openai", apiKey: "not-needed", ... }
+ */
+export function resolveAIProviderConfig(
+  env: Pick<
+    Bindings,
+    | "AI_PROVIDER"
+    | "AI_BASE_URL"
+    | "AI_MODEL"
+    | "AI_API_KEY"
+    | "AI_TIMEOUT_MS"
+    | "AIHUBMIX_API_KEY"
+  >
+): AIProviderConfig | null {
+  const provider = env.AI_PROVIDER === "stub" ? "stub" : "openai";
+  const baseURL = env.AI_BASE_URL || DEFAULT_AI_BASE_URL;
+  const model = env.AI_MODEL || DEFAULT_AI_MODEL;
+  const timeout = Number(env.AI_TIMEOUT_MS);
+  const timeoutMs =
+    Number.isInteger(timeout) && timeout > 0 ? timeout : DEFAULT_AI_TIMEOUT_MS;
+
+  let apiKey = env.AI_API_KEY || env.AIHUBMIX_API_KEY || "";
+  if (!apiKey && provider === "openai") {
+    if (!env.AI_BASE_URL) return null;
+    apiKey = LOCAL_SERVER_API_KEY;
+  }
+
+  return { provider, baseURL, model, apiKey, timeoutMs };
+}
+
+/**
+ * 生成固定的单词解释（stub 提供方）
+ *
+ * 结果只取决于输入，便于测试断言：
+ * - 有学习记录的单词：使用第一个已学含义，isExisting=true
+ * - 其他单词：使用词汇表中的释义，词汇表中没有时使用占位释义，isExisting=false
+ * - 例句从文章中提取
+ *
+ * @param articleContent - 文章内容
+ * @param newWords - 完全陌生的单词
+ * @param wordsWithMeanings - 有学习记录的单词及已学含义
+ * @param definitions - 小写单词 → 词汇表中的释义
+ * @returns 单词解释列表（顺序与输入一致，先新词后有学习记录的词）
+ */
+export function buildStubExplanations(
+  articleContent: string,
+  newWords: UnfamiliarWord[],
+  wordsWithMeanings: Array<UnfamiliarWord & { existingMeanings: string[] }>,
+  definitions: Map<string, string>
+): WordExplanation[] {
+  const explain = (
+    word: UnfamiliarWord,
+    meaningText: string,
+    isExisting: boolean
+  ): WordExplanation => ({
+    wordInText: word.word,
+    lemma: word.lemma.toLowerCase(),
+    meaningText,
+    isExisting,
+    exampleSentence: extractSentenceFromArticle(articleContent, word.word),
+  });
+
+  const definitionOf = (word: UnfamiliarWord) => {
+    const lemma = word.lemma.toLowerCase();
+    return definitions.get(lemma) || `${lemma} 的释义（stub）`;
+  };
+
+  return [
+    ...newWords.map((word) => explain(word, definitionOf(word), false)),
+    ...wordsWithMeanings.map((word) =>
+      word.existingMeanings.length > 0
+        ? explain(word, word.existingMeanings[0], true)
+        : explain(word, definitionOf(word), false)
+    ),
+  ];
+}
@@ -15,6 +15,15 @@
  * - hard: 困难，减小难度系数，缩短间隔
  * - good: 正常，标准间隔增长
  * - easy: 简单，增加难度系数，扩大间隔
+ * 
+ * 可调参数（SM2Parameters，由参数优化器按用户的复习记录拟合）：
+ * - hardMultiplier / easyBonus: Hard / Easy 的间隔倍数
+ * - intervalModifier: 整体间隔系数（由用户设置的目标保留率换算）
+ *
+ * 间隔随机化（fuzz）：
+ * - 同一天保存的单词间隔完全相同，会一直在同一天集中到期
+ * - 按间隔长度在附近几天内随机取值，把它们逐渐错开（与 Anki 的 fuzz 范围一致）
+ * - 可选负载均衡：在随机范围内选择已到期卡片最少的一天
  */
 
 export type DifficultyRating = "again" | "hard" | "good" | "easy";
@@ -25,16 +34,33 @@ export interface AnkiState {
   repetitions: number;     // 连续正确次数
 }
 
+export interface SM2Parameters {
+  hardMultiplier: number;   // Hard 的间隔倍数
+  easyBonus: number;        // Easy 的间隔倍数
+  intervalModifier: number; // 整体间隔系数（1 表示不调整）
+}
+
+/**
+ * 默认参数（经典 SM-2 的取值）
+ */
+export const DEFAULT_SM2_PARAMETERS: SM2Parameters = {
+  hardMultiplier: 1.2,
+  easyBonus: 1.3,
+  intervalModifier: 1,
+};
+
 /**
  * 计算下次复习的参数
  * 
  * @param currentState - 当前卡片状态
  * @param rating - 用户答题评级
+ * @param params - 算法参数（默认经典 SM-2 取值）
  * @returns 新的卡片状态
  */
 export function calculateNextReview(
   currentState: AnkiState,
-  rating: DifficultyRating
+  rating: DifficultyRating,
+  params: SM2Parameters = DEFAULT_SM2_PARAMETERS
 ): AnkiState {
   const { easeFactor, intervalDays, repetitions } = currentState;
 
@@ -77,11 +103,22 @@ export function calculateNextReview(
 
   // 根据难度等级调整间隔
   if (rating === "hard") {
-    // 困难：间隔乘以 1.2（比标准短）
-    newIntervalDays = Math.max(1, Math.round(newIntervalDays * 1.2));
+    // 困难：间隔乘以 hardMultiplier（默认 1.2）
+    newIntervalDays = Math.max(
+      1,
+      Math.round(newIntervalDays * params.hardMultiplier)
+    );
   } else if (rating === "easy") {
-    // 简单：间隔乘以 1.3（比标准长）
-    newIntervalDays = Math.round(newIntervalDays * 1.3);
+    // 简单：间隔乘以 easyBonus（默认 1.3）
+    newIntervalDays = Math.round(newIntervalDays * params.easyBonus);
+  }
+
+  // 按目标保留率整体缩放间隔（第一次正确的 1 天间隔不缩放）
+  if (newRepetitions > 1 && params.intervalModifier !== 1) {
+    newIntervalDays = Math.max(
+      1,
+      Math.round(newIntervalDays * params.intervalModifier)
+    );
   }
 
   return {
@@ -95,12 +132,104 @@ export function calculateNextReview(
  * 计算下次复习的日期
  * 
  * @param intervalDays - 间隔天数
+ * @param now - 计算起点（默认当前时间）
  * @returns 下次复习的日期
  */
-export function getNextReviewDate(intervalDays: number): Date {
-  const now = new Date();
+export function getNextReviewDate(
+  intervalDays: number,
+  now: Date = new Date()
+): Date {
   const nextDate = new Date(now);
   nextDate.setDate(now.getDate() + intervalDays);
   return nextDate;
 }
 
+
+/**
+ * 随机数来源（返回 [0, 1) 的数，测试时可注入固定值）
+ */
+export type RandomSource = () => number;
+
+/**
+ * 间隔随机化选项
+ */
+export interface FuzzOptions {
+  random?: RandomSource; // 默认 Math.random
+  dueCounts?: ReadonlyMap<number, number>; // 间隔天数 → 当天已到期的卡片数（传入时启用负载均衡）
+}
+
+/**
+ * 间隔随机化范围：间隔的不同区段按不同比例累加
+ */
+const FUZZ_RANGES = [
+  { start: 2.5, end: 7, factor: 0.15 },
+  { start: 7, end: 20, factor: 0.1 },
+  { start: 20, end: Infinity, factor: 0.05 },
+];
+
+/**
+ * 小于该间隔时不做随机化（1 - 2 天的间隔随机后差别太大）
+ */
+const MIN_FUZZ_INTERVAL = 2.5;
+
+/**
+ * 计算间隔随机化的取值范围
+ *
+ * 例如：3 天 → 2 - 4 天，10 天 → 8 - 12 天，100 天 → 93 - 107 天
+ *
+ * @param intervalDays - 调度器计算出的间隔天数
+ * @returns 可选的最小 / 最大间隔天数（不做随机化时两者相等）
+ */
+export function getFuzzRange(intervalDays: number): {
+  min: number;
+  max: number;
+} {
+  if (intervalDays < MIN_FUZZ_INTERVAL) {
+    return { min: intervalDays, max: intervalDays };
+  }
+
+  let delta = 1;
+  for (const { start, end, factor } of FUZZ_RANGES) {
+    delta += factor * Math.max(Math.min(intervalDays, end) - start, 0);
+  }
+
+  const min = Math.max(2, Math.round(intervalDays - delta));
+  const max = Math.max(min, Math.round(intervalDays + delta));
+  return { min, max };
+}
+
+/**
+ * 对间隔做随机化
+ *
+ * - 未传入 dueCounts 时在范围内均匀随机
+ * - 传入 dueCounts 时选择到期卡片最少的一天，数量相同的几天之间随机
+ *
+ * @param intervalDays - 调度器计算出的间隔天数
+ * @param options - 随机数来源和每日到期数量
+ * @returns 随机化后的间隔天数
+ */
+export function fuzzInterval(
+  intervalDays: number,
+  options: FuzzOptions = {}
+): number {
+  const { random = Math.random, dueCounts } = options;
+  const { min, max } = getFuzzRange(intervalDays);
+  if (min === max) return min;
+
+  let candidates: number[] = [];
+  for (let days = min; days <= max; days++) {
+    candidates.push(days);
+  }
+
+  if (dueCounts) {
+    const load = (days: number) => dueCounts.get(days) ?? 0;
+    const lowest = Math.min(...candidates.map(load));
+    candidates = candidates.filter((days) => load(days) === lowest);
+  }
+
+  const index = Math.min(
+    Math.floor(random() * candidates.length),
+    candidates.length - 1
+  );
+  return candidates[index];
+}
@@ -0,0 +1,213 @@
+/**
+ * 输入答案评分
+ *
+ * 用于"输入单词"复习模式（reverse / cloze 卡片）：
+ * 用户输入单词后由服务端判断是否正确，并给出建议的难度评级。
+ *
+ * 判定规则（按优先级）：
+ * - exact: 与期望答案完全一致（忽略大小写和首尾标点）
+ * - inflection: 是原形的规则词形变化（如 study → studies / studied）
+ * - typo: 与任一可接受形式的编辑距离在容错范围内（小的拼写错误）
+ * - wrong: 以上都不满足
+ *
+ * 建议评级：
+ * - exact / inflection → good
+ * - typo → hard
+ * - wrong → again
+ */
+
+import { type DifficultyRating } from "./anki-algorithm";
+
+export type AnswerMatch = "exact" | "inflection" | "typo" | "wrong";
+
+/**
+ * 评分结果
+ */
+export interface AnswerGrade {
+  match: AnswerMatch; // 匹配类型
+  isCorrect: boolean; // 是否视为答对（typo 也视为答对）
+  expected: string; // 期望答案（展示给用户对照）
+  distance: number; // 与最接近的可接受形式的编辑距离
+  suggestedRating: DifficultyRating; // 建议的难度评级
+}
+
+/**
+ * 期望答案
+ */
+export interface ExpectedAnswer {
+  lemma: string; // 单词原形
+  form?: string | null; // 期望的具体形态（如 cloze 卡片中被挖空的文中形态）
+}
+
+const VOWELS = new Set(["a", "e", "i", "o", "u"]);
+
+/**
+ * 规范化输入：小写、去除首尾空白和标点、合并连续空白、统一撇号
+ */
+export function normalizeAnswer(input: string): string {
+  return input
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, "");
+}
+
+/**
+ * 生成原形的常见规则词形变化
+ *
+ * 覆盖复数 / 第三人称单数、过去式、进行时、比较级、副词等规则变化，
+ * 不处理不规则变化（如 go → went）
+ *
+ * @param lemma - 单词原形（已规范化）
+ * @returns 包含原形在内的所有词形
+ */
+export function getInflectedForms(lemma: string): Set<string> {
+  const forms = new Set<string>([lemma]);
+  if (lemma.length < 2 || lemma.includes(" ")) {
+    return forms;
+  }
+
+  const suffixes = ["s", "es", "ed", "ing", "er", "est", "ly"];
+  const last = lemma[lemma.length - 1];
+  const beforeLast = lemma[lemma.length - 2];
+
+  for (const suffix of suffixes) {
+    forms.add(lemma + suffix);
+  }
+
+  // 以 e 结尾：bake → baked / baker / baking（去掉 e 再加 ing）
+  if (last === "e") {
+    const stem = lemma.slice(0, -1);
+    forms.add(lemma + "d");
+    forms.add(lemma + "r");
+    forms.add(lemma + "st");
+    forms.add(stem + "ing");
+    // 以 ie 结尾：die → dying
+    if (beforeLast === "i") {
+      forms.add(lemma.slice(0, -2) + "ying");
+    }
+  }
+
+  // 辅音 + y 结尾：study → studies / studied / studier
+  if (last === "y" && !VOWELS.has(beforeLast)) {
+    const stem = lemma.slice(0, -1);
+    for (const suffix of ["ies", "ied", "ier", "iest", "ily"]) {
+      forms.add(stem + suffix);
+    }
+  }
+
+  // 辅音-元音-辅音结尾：stop → stopped / stopping / bigger
+  const beforeBeforeLast = lemma[lemma.length - 3];
+  if (
+    beforeBeforeLast &&
+    !VOWELS.has(last) &&
+    !["w", "x", "y"].includes(last) &&
+    VOWELS.has(beforeLast) &&
+    !VOWELS.has(beforeBeforeLast)
+  ) {
+    for (const suffix of ["ed", "ing", "er", "est"]) {
+      forms.add(lemma + last + suffix);
+    }
+  }
+
+  return forms;
+}
+
+/**
+ * 计算编辑距离（含相邻字符交换，即 Damerau-Levenshtein 的 OSA 变体）
+ */
+export function editDistance(a: string, b: string): number {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, () =>
+    new Array<number>(cols).fill(0)
+  );
+
+  for (let i = 0; i < rows; i++) d[i][0] = i;
+  for (let j = 0; j < cols; j++) d[0][j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(
+        d[i - 1][j] + 1, // 删除
+        d[i][j - 1] + 1, // 插入
+        d[i - 1][j - 1] + cost // 替换
+      );
+      // 相邻字符交换（如 teh → the）
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[rows - 1][cols - 1];
+}
+
+/**
+ * 拼写容错：短词不容错，单词越长允许的错误越多
+ */
+export function getTypoTolerance(length: number): number {
+  if (length <= 3) return 0;
+  if (length <= 6) return 1;
+  return 2;
+}
+
+/**
+ * 对用户输入的答案评分
+ *
+ * @param input - 用户输入
+ * @param expected - 期望答案（原形 + 可选的具体形态）
+ * @returns 评分结果
+ */
+export function gradeAnswer(
+  input: string,
+  expected: ExpectedAnswer
+): AnswerGrade {
+  const lemma = normalizeAnswer(expected.lemma);
+  const form = expected.form ? normalizeAnswer(expected.form) : "";
+  const target = form || lemma;
+  const answer = normalizeAnswer(input);
+
+  const result = (
+    match: AnswerMatch,
+    distance: number,
+    suggestedRating: DifficultyRating
+  ): AnswerGrade => ({
+    match,
+    isCorrect: match !== "wrong",
+    expected: expected.form || expected.lemma,
+    distance,
+    suggestedRating,
+  });
+
+  if (!answer) {
+    return result("wrong", target.length, "again");
+  }
+
+  // 1. 完全一致
+  if (answer === target) {
+    return result("exact", 0, "good");
+  }
+
+  // 2. 原形或期望形态的词形变化
+  const acceptedForms = new Set([
+    ...getInflectedForms(lemma),
+    ...(form ? getInflectedForms(form) : []),
+  ]);
+  if (acceptedForms.has(answer)) {
+    return result("inflection", 0, "good");
+  }
+
+  // 3. 小的拼写错误
+  let distance = Infinity;
+  for (const accepted of acceptedForms) {
+    distance = Math.min(distance, editDistance(answer, accepted));
+  }
+  if (distance <= getTypoTolerance(target.length)) {
+    return result("typo", distance, "hard");
+  }
+
+  return result("wrong", distance, "again");
+}
@@ -0,0 +1,93 @@
+/**
+ * 自定义学习会话（筛选卡组）
+ *
+ * 在全局复习队列之外，按条件临时筛选一批卡片集中学习：
+ * - article: 某篇文章中的所有单词
+ * - failed: 最近 N 天内答错过的卡片
+ * - recent: 最近 N 天内新加入的单词
+ * - ahead: 提前复习未来 N 天内到期的卡片
+ *
+ * 创建会话时确定卡片队列（卡片 ID 列表），之后按队列顺序出卡，
+ * 不受每日上限和搁置的限制。
+ * 是否改变卡片的复习计划（reschedule）由会话决定：
+ * - 重新调度：和正常复习一样写入复习日志、更新下次复习时间
+ * - 不重新调度（临时练习）：只统计会话数据，卡片状态保持不变
+ */
+
+import { type DifficultyRating } from "./anki-algorithm";
+
+/**
+ * 自定义会话的筛选条件
+ */
+export type CustomSessionFilter =
+  | { type: "article"; articleId: number } // 文章中的所有单词
+  | { type: "failed"; days: number } // 最近 N 天答错过的卡片
+  | { type: "recent"; days: number } // 最近 N 天新加入的单词
+  | { type: "ahead"; days: number }; // 未来 N 天内到期的卡片
+
+export type CustomSessionType = CustomSessionFilter["type"];
+
+/**
+ * 单个自定义会话最多包含的卡片数
+ */
+export const MAX_CUSTOM_SESSION_CARDS = 200;
+
+/**
+ * 答 again 的卡片在队列中往后挪的位置（隔几张卡片后再次出现）
+ */
+export const AGAIN_REQUEUE_OFFSET = 3;
+
+/**
+ * 各类会话默认是否重新调度
+ *
+ * 提前复习相当于把复习挪到今天，需要更新复习计划；
+ * 其余筛选用于临时练习，默认不打乱正常的复习计划
+ */
+export function shouldRescheduleByDefault(
+  filter: CustomSessionFilter
+): boolean {
+  return filter.type === "ahead";
+}
+
+/**
+ * 答题后推进会话队列
+ *
+ * - 从队列中移除该卡片（只移除第一次出现的位置）
+ * - 答 again 时把卡片放回队列，隔 AGAIN_REQUEUE_OFFSET 张后再次出现
+ *
+ * @param queue - 答题前的队列（卡片 ID）
+ * @param cardId - 答题的卡片 ID
+ * @param rating - 答题评级
+ * @returns 新的队列
+ */
+export function advanceQueue(
+  queue: number[],
+  cardId: number,
+  rating: DifficultyRating
+): number[] {
+  const next = [...queue];
+  const index = next.indexOf(cardId);
+  if (index !== -1) next.splice(index, 1);
+
+  if (rating === "again") {
+    next.splice(Math.min(AGAIN_REQUEUE_OFFSET, next.length), 0, cardId);
+  }
+  return next;
+}
+
+/**
+ * 跳过卡片：移到队列末尾（只移动第一次出现的位置）
+ *
+ * @param queue - 跳过前的队列（卡片 ID）
+ * @param cardId - 跳过的卡片 ID
+ * @returns 新的队列
+ */
+export function skipInQueue(queue: number[], cardId: number): number[] {
+  const next = [...queue];
+  const index = next.indexOf(cardId);
+  if (index === -1) return next;
+
+  next.splice(index, 1);
+  next.push(cardId);
+  return next;
+}
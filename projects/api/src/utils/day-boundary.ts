@@ -0,0 +1,182 @@
+/**
+ * 用户学习日的日期边界
+ *
+ * Worker 运行在 UTC 时钟下，直接 setHours(0, 0, 0, 0) 会让中国用户的"今天"
+ * 在早上 8 点才切换。所有按天分桶的逻辑（每日统计、配额、今日到期、搁置到明天等）
+ * 都应通过本模块，按用户的时区和"每天开始时间"计算：
+ *
+ * - 学习日：从当地 dayStartHour 点开始，到次日 dayStartHour 点结束
+ *   （如 dayStartHour = 4 时，凌晨 2 点的复习仍算作前一天）
+ * - 日期键（day key）：学习日对应的当地日期，格式 YYYY-MM-DD
+ * - 学习日开始时间：该学习日开始的时刻（UTC 时间戳），用于数据库中按天存储和比较
+ */
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_HOUR = 60 * MS_PER_MINUTE;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+/**
+ * 用户的日期边界设置
+ */
+export interface DayBoundary {
+  timezone: string; // IANA 时区（如 Asia/Shanghai）
+  dayStartHour: number; // 每天开始的小时（0-23，当地时间）
+}
+
+/**
+ * 默认日期边界（与 users 表字段默认值一致）
+ */
+export const DEFAULT_DAY_BOUNDARY: DayBoundary = {
+  timezone: "Asia/Shanghai",
+  dayStartHour: 0,
+};
+
+// 按时区缓存格式化器（创建 Intl.DateTimeFormat 的开销较大）
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * 判断是否为有效的 IANA 时区
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 计算某一时刻在指定时区的 UTC 偏移（分钟，东八区为 480）
+ */
+function getTimezoneOffset(date: Date, timezone: string): number {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timezone).formatToParts(date)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  const localAsUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  const utc = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((localAsUtc - utc) / MS_PER_MINUTE);
+}
+
+/**
+ * 日期键转换为 UTC 日期（只使用年月日部分）
+ */
+function parseDayKey(key: string): Date {
+  const [year, month, day] = key.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * UTC 日期格式化为日期键
+ */
+function toDayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * 获取某一时刻所属学习日的日期键
+ *
+ * @param date - 时刻
+ * @param boundary - 日期边界设置
+ * @returns 日期键（YYYY-MM-DD）
+ */
+export function getDayKey(date: Date, boundary: DayBoundary): string {
+  // 先减去每天开始的小时数，再取当地日期
+  const shifted = new Date(
+    date.getTime() - boundary.dayStartHour * MS_PER_HOUR
+  );
+  const offset = getTimezoneOffset(shifted, boundary.timezone);
+  return toDayKey(new Date(shifted.getTime() + offset * MS_PER_MINUTE));
+}
+
+/**
+ * 日期键前后移动若干天
+ */
+export function shiftDayKey(key: string, days: number): string {
+  return toDayKey(new Date(parseDayKey(key).getTime() + days * MS_PER_DAY));
+}
+
+/**
+ * 生成从 startKey 开始连续 days 天的日期键
+ */
+export function buildDayKeys(startKey: string, days: number): string[] {
+  return Array.from({ length: days }, (_, i) => shiftDayKey(startKey, i));
+}
+
+/**
+ * 两个日期键之间相差的天数（b - a）
+ */
+export function diffDayKeys(a: string, b: string): number {
+  return Math.round(
+    (parseDayKey(b).getTime() - parseDayKey(a).getTime()) / MS_PER_DAY
+  );
+}
+
+/**
+ * 获取日期键对应学习日的开始时刻
+ *
+ * @param key - 日期键（YYYY-MM-DD）
+ * @param boundary - 日期边界设置
+ * @returns 学习日开始的时刻
+ */
+export function getDayKeyStart(key: string, boundary: DayBoundary): Date {
+  const localStart =
+    parseDayKey(key).getTime() + boundary.dayStartHour * MS_PER_HOUR;
+
+  // 先按当地时间的偏移估算，再用估算结果处的偏移修正（处理夏令时切换）
+  let utc =
+    localStart -
+    getTimezoneOffset(new Date(localStart), boundary.timezone) * MS_PER_MINUTE;
+  utc =
+    localStart -
+    getTimezoneOffset(new Date(utc), boundary.timezone) * MS_PER_MINUTE;
+  return new Date(utc);
+}
+
+/**
+ * 获取某一时刻所属学习日的开始时刻（替代 setHours(0, 0, 0, 0)）
+ *
+ * @param date - 时刻
+ * @param boundary - 日期边界设置
+ * @returns 学习日开始的时刻
+ */
+export function getDayStart(date: Date, boundary: DayBoundary): Date {
+  return getDayKeyStart(getDayKey(date, boundary), boundary);
+}
+
+/**
+ * 获取下一个学习日的开始时刻（如搁置到明天）
+ *
+ * @param date - 时刻
+ * @param boundary - 日期边界设置
+ * @returns 下一个学习日开始的时刻
+ */
+export function getNextDayStart(date: Date, boundary: DayBoundary): Date {
+  return getDayKeyStart(shiftDayKey(getDayKey(date, boundary), 1), boundary);
+}
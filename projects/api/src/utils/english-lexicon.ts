@@ -0,0 +1,574 @@
+/**
+ * 本地英语分析使用的词典数据
+ *
+ * 包含封闭词类（限定词、代词、介词等）、常见不规则变形和
+ * 规则变形的例外词，供 english-nlp.ts 的词性标注和词形还原使用
+ *
+ * 词性标签与 Google Natural Language API 一致：
+ * ADJ / ADP / ADV / CONJ / DET / NOUN / NUM / PRON / PRT / PUNCT / VERB / X
+ */
+
+/**
+ * 封闭词类：单词（小写）→ 词性
+ *
+ * 这些词数量有限，直接查表比规则判断更准确
+ */
+export const CLOSED_CLASS_WORDS: Record<string, string> = {
+  // 限定词
+  a: "DET",
+  an: "DET",
+  the: "DET",
+  this: "DET",
+  that: "DET",
+  these: "DET",
+  those: "DET",
+  some: "DET",
+  any: "DET",
+  each: "DET",
+  every: "DET",
+  no: "DET",
+  all: "DET",
+  both: "DET",
+  either: "DET",
+  neither: "DET",
+  another: "DET",
+  such: "DET",
+  what: "DET",
+  which: "DET",
+  whatever: "DET",
+  whichever: "DET",
+
+  // 代词（含物主代词，与 Google 一致标为 PRON）
+  i: "PRON",
+  me: "PRON",
+  my: "PRON",
+  mine: "PRON",
+  myself: "PRON",
+  you: "PRON",
+  your: "PRON",
+  yours: "PRON",
+  yourself: "PRON",
+  yourselves: "PRON",
+  he: "PRON",
+  him: "PRON",
+  his: "PRON",
+  himself: "PRON",
+  she: "PRON",
+  her: "PRON",
+  hers: "PRON",
+  herself: "PRON",
+  it: "PRON",
+  its: "PRON",
+  itself: "PRON",
+  we: "PRON",
+  us: "PRON",
+  our: "PRON",
+  ours: "PRON",
+  ourselves: "PRON",
+  they: "PRON",
+  them: "PRON",
+  their: "PRON",
+  theirs: "PRON",
+  themselves: "PRON",
+  who: "PRON",
+  whom: "PRON",
+  whose: "PRON",
+  whoever: "PRON",
+  someone: "PRON",
+  somebody: "PRON",
+  anyone: "PRON",
+  anybody: "PRON",
+  everyone: "PRON",
+  everybody: "PRON",
+  nobody: "PRON",
+
+  // 介词
+  about: "ADP",
+  above: "ADP",
+  across: "ADP",
+  after: "ADP",
+  against: "ADP",
+  along: "ADP",
+  among: "ADP",
+  around: "ADP",
+  as: "ADP",
+  at: "ADP",
+  before: "ADP",
+  behind: "ADP",
+  below: "ADP",
+  beneath: "ADP",
+  beside: "ADP",
+  between: "ADP",
+  beyond: "ADP",
+  by: "ADP",
+  despite: "ADP",
+  down: "ADP",
+  during: "ADP",
+  except: "ADP",
+  for: "ADP",
+  from: "ADP",
+  in: "ADP",
+  inside: "ADP",
+  into: "ADP",
+  like: "ADP",
+  near: "ADP",
+  of: "ADP",
+  off: "ADP",
+  on: "ADP",
+  onto: "ADP",
+  out: "ADP",
+  outside: "ADP",
+  over: "ADP",
+  past: "ADP",
+  since: "ADP",
+  through: "ADP",
+  throughout: "ADP",
+  toward: "ADP",
+  towards: "ADP",
+  under: "ADP",
+  underneath: "ADP",
+  until: "ADP",
+  unlike: "ADP",
+  up: "ADP",
+  upon: "ADP",
+  via: "ADP",
+  with: "ADP",
+  within: "ADP",
+  without: "ADP",
+
+  // 连词
+  and: "CONJ",
+  or: "CONJ",
+  but: "CONJ",
+  nor: "CONJ",
+  yet: "CONJ",
+  so: "CONJ",
+  because: "CONJ",
+  although: "CONJ",
+  though: "CONJ",
+  unless: "CONJ",
+  whereas: "CONJ",
+  whether: "CONJ",
+  while: "CONJ",
+  if: "CONJ",
+
+  // 小品词
+  to: "PRT",
+  not: "PRT",
+
+  // 助动词和情态动词（be / have / do 的变形见 IRREGULAR_FORMS）
+  can: "VERB",
+  could: "VERB",
+  may: "VERB",
+  might: "VERB",
+  must: "VERB",
+  shall: "VERB",
+  should: "VERB",
+  will: "VERB",
+  would: "VERB",
+  ought: "VERB",
+
+  // 常见副词（-ly 结尾的副词由后缀规则识别）
+  again: "ADV",
+  ago: "ADV",
+  almost: "ADV",
+  already: "ADV",
+  also: "ADV",
+  always: "ADV",
+  anyway: "ADV",
+  away: "ADV",
+  besides: "ADV",
+  else: "ADV",
+  enough: "ADV",
+  even: "ADV",
+  ever: "ADV",
+  everywhere: "ADV",
+  furthermore: "ADV",
+  here: "ADV",
+  however: "ADV",
+  indeed: "ADV",
+  instead: "ADV",
+  just: "ADV",
+  later: "ADV",
+  meanwhile: "ADV",
+  moreover: "ADV",
+  never: "ADV",
+  nevertheless: "ADV",
+  nonetheless: "ADV",
+  now: "ADV",
+  often: "ADV",
+  perhaps: "ADV",
+  quite: "ADV",
+  rather: "ADV",
+  seldom: "ADV",
+  sometimes: "ADV",
+  somewhat: "ADV",
+  soon: "ADV",
+  still: "ADV",
+  then: "ADV",
+  there: "ADV",
+  therefore: "ADV",
+  thus: "ADV",
+  today: "ADV",
+  together: "ADV",
+  tomorrow: "ADV",
+  too: "ADV",
+  very: "ADV",
+  when: "ADV",
+  where: "ADV",
+  why: "ADV",
+  how: "ADV",
+  yesterday: "ADV",
+
+  // 数词
+  zero: "NUM",
+  one: "NUM",
+  two: "NUM",
+  three: "NUM",
+  four: "NUM",
+  five: "NUM",
+  six: "NUM",
+  seven: "NUM",
+  eight: "NUM",
+  nine: "NUM",
+  ten: "NUM",
+  eleven: "NUM",
+  twelve: "NUM",
+  twenty: "NUM",
+  thirty: "NUM",
+  forty: "NUM",
+  fifty: "NUM",
+  hundred: "NUM",
+  thousand: "NUM",
+  million: "NUM",
+  billion: "NUM",
+};
+
+/**
+ * 缩写片段（统一为直单引号、小写）→ 词性和原型
+ *
+ * 分词时会把 "don't" 拆成 "do" + "n't"、"he's" 拆成 "he" + "'s"，与 Google 一致
+ */
+export const CONTRACTION_SUFFIXES: Record<
+  string,
+  { pos: string; lemma: string }
+> = {
+  "n't": { pos: "PRT", lemma: "not" },
+  "'s": { pos: "PRT", lemma: "'s" },
+  "'m": { pos: "VERB", lemma: "be" },
+  "'re": { pos: "VERB", lemma: "be" },
+  "'ve": { pos: "VERB", lemma: "have" },
+  "'ll": { pos: "VERB", lemma: "will" },
+  "'d": { pos: "VERB", lemma: "would" },
+};
+
+// 动词原型 → 不规则变形
+const IRREGULAR_VERBS: Record<string, string[]> = {
+  be: ["am", "is", "are", "was", "were", "been", "being"],
+  have: ["has", "had", "having"],
+  do: ["does", "did", "done", "doing"],
+  go: ["goes", "went", "gone", "going"],
+  can: ["ca"],
+  will: ["wo"],
+  shall: ["sha"],
+  arise: ["arose", "arisen"],
+  bear: ["bore", "borne"],
+  beat: ["beaten"],
+  become: ["became"],
+  begin: ["began", "begun"],
+  bend: ["bent"],
+  bind: ["bound"],
+  bite: ["bitten"],
+  bleed: ["bled"],
+  blow: ["blew", "blown"],
+  break: ["broke", "broken"],
+  bring: ["brought"],
+  build: ["built"],
+  burn: ["burnt"],
+  buy: ["bought"],
+  catch: ["caught"],
+  choose: ["chose", "chosen"],
+  come: ["came"],
+  deal: ["dealt"],
+  die: ["dying"],
+  dig: ["dug"],
+  draw: ["drew", "drawn"],
+  dream: ["dreamt"],
+  drink: ["drank", "drunk"],
+  drive: ["drove", "driven"],
+  eat: ["ate", "eaten"],
+  fall: ["fell", "fallen"],
+  feed: ["fed"],
+  feel: ["felt"],
+  fight: ["fought"],
+  find: ["found"],
+  flee: ["fled"],
+  fly: ["flew", "flown"],
+  forbid: ["forbade", "forbidden"],
+  forget: ["forgot", "forgotten"],
+  forgive: ["forgave", "forgiven"],
+  freeze: ["froze", "frozen"],
+  get: ["got", "gotten"],
+  give: ["gave", "given"],
+  grow: ["grew", "grown"],
+  hang: ["hung", "hanged", "hanging"],
+  hear: ["heard"],
+  hide: ["hid", "hidden"],
+  hold: ["held"],
+  keep: ["kept"],
+  know: ["knew", "known"],
+  lay: ["laid"],
+  lead: ["led"],
+  learn: ["learnt"],
+  leave: ["left"],
+  lend: ["lent"],
+  lie: ["lain", "lying"],
+  lose: ["lost"],
+  make: ["made"],
+  mean: ["meant"],
+  meet: ["met"],
+  mistake: ["mistook", "mistaken"],
+  overcome: ["overcame"],
+  pay: ["paid"],
+  ride: ["rode", "ridden"],
+  ring: ["rang", "rung"],
+  rise: ["rose", "risen"],
+  run: ["ran"],
+  say: ["said"],
+  see: ["saw", "seen"],
+  seek: ["sought"],
+  sell: ["sold"],
+  send: ["sent"],
+  shake: ["shook", "shaken"],
+  shine: ["shone"],
+  shoot: ["shot"],
+  show: ["shown"],
+  sing: ["sang", "sung"],
+  sink: ["sank", "sunk"],
+  sit: ["sat"],
+  sleep: ["slept"],
+  slide: ["slid"],
+  speak: ["spoke", "spoken"],
+  spend: ["spent"],
+  spin: ["spun"],
+  stand: ["stood"],
+  steal: ["stole", "stolen"],
+  stick: ["stuck"],
+  strike: ["struck", "stricken"],
+  swear: ["swore", "sworn"],
+  swim: ["swam", "swum"],
+  take: ["took", "taken"],
+  teach: ["taught"],
+  tear: ["tore", "torn"],
+  tell: ["told"],
+  think: ["thought"],
+  throw: ["threw", "thrown"],
+  tie: ["tying"],
+  undergo: ["underwent", "undergone"],
+  understand: ["understood"],
+  undertake: ["undertook", "undertaken"],
+  wake: ["woke", "woken"],
+  wear: ["wore", "worn"],
+  weave: ["wove", "woven"],
+  win: ["won"],
+  withdraw: ["withdrew", "withdrawn"],
+  write: ["wrote", "written"],
+};
+
+// 名词原型 → 不规则复数
+const IRREGULAR_NOUNS: Record<string, string[]> = {
+  man: ["men"],
+  woman: ["women"],
+  child: ["children"],
+  mouse: ["mice"],
+  foot: ["feet"],
+  tooth: ["teeth"],
+  goose: ["geese"],
+  ox: ["oxen"],
+  wife: ["wives"],
+  knife: ["knives"],
+  wolf: ["wolves"],
+  half: ["halves"],
+  shelf: ["shelves"],
+  self: ["selves"],
+  thief: ["thieves"],
+  calf: ["calves"],
+  loaf: ["loaves"],
+  phenomenon: ["phenomena"],
+  criterion: ["criteria"],
+  analysis: ["analyses"],
+  crisis: ["crises"],
+  thesis: ["theses"],
+  hypothesis: ["hypotheses"],
+  index: ["indices"],
+  appendix: ["appendices"],
+  cactus: ["cacti"],
+  fungus: ["fungi"],
+  nucleus: ["nuclei"],
+  stimulus: ["stimuli"],
+  radius: ["radii"],
+};
+
+// 形容词和副词原型 → 不规则比较级、最高级
+const IRREGULAR_ADJECTIVES: Record<string, string[]> = {
+  good: ["better", "best"],
+  bad: ["worse", "worst"],
+  far: ["further", "furthest", "farther", "farthest"],
+};
+
+/**
+ * 不规则变形（小写）→ 词性和原型
+ *
+ * 包括 be / have / do、常见不规则动词的过去式和过去分词、
+ * 不规则名词复数和形容词比较级，以及后缀规则会还原错误的少数单词
+ */
+export const IRREGULAR_FORMS = buildIrregularForms();
+
+function buildIrregularForms(): Record<string, { pos: string; lemma: string }> {
+  const forms: Record<string, { pos: string; lemma: string }> = {};
+
+  for (const [pos, table] of [
+    ["VERB", IRREGULAR_VERBS],
+    ["NOUN", IRREGULAR_NOUNS],
+    ["ADJ", IRREGULAR_ADJECTIVES],
+  ] as const) {
+    for (const [lemma, words] of Object.entries(table)) {
+      for (const word of words) {
+        forms[word] = { pos, lemma };
+      }
+    }
+  }
+
+  // 后缀规则会还原错误的规则变形
+  return {
+    ...forms,
+    added: { pos: "VERB", lemma: "add" },
+    created: { pos: "VERB", lemma: "create" },
+    creating: { pos: "VERB", lemma: "create" },
+    adding: { pos: "VERB", lemma: "add" },
+    focused: { pos: "VERB", lemma: "focus" },
+    focusing: { pos: "VERB", lemma: "focus" },
+    biased: { pos: "ADJ", lemma: "biased" },
+    agreed: { pos: "VERB", lemma: "agree" },
+    freed: { pos: "VERB", lemma: "free" },
+    guaranteed: { pos: "VERB", lemma: "guarantee" },
+  };
+}
+
+/**
+ * -ing / -ed 结尾但不是动词变形的单词 → 词性
+ */
+export const NON_INFLECTED_WORDS: Record<string, string> = {
+  morning: "NOUN",
+  evening: "NOUN",
+  nothing: "NOUN",
+  something: "NOUN",
+  anything: "NOUN",
+  everything: "NOUN",
+  ceiling: "NOUN",
+  wedding: "NOUN",
+  pudding: "NOUN",
+  interesting: "ADJ",
+  amazing: "ADJ",
+  exciting: "ADJ",
+  boring: "ADJ",
+  surprising: "ADJ",
+  willing: "ADJ",
+  outstanding: "ADJ",
+  charming: "ADJ",
+  sacred: "ADJ",
+  naked: "ADJ",
+  wicked: "ADJ",
+  rugged: "ADJ",
+  crooked: "ADJ",
+};
+
+/**
+ * 以 s 结尾、复数加 -es 的名词（buses → bus，lenses → lens）
+ *
+ * 其他 -ses 结尾的复数只去掉 s（houses → house，cases → case）
+ */
+export const S_ENDING_NOUNS = new Set([
+  "bus",
+  "gas",
+  "lens",
+  "virus",
+  "bonus",
+  "campus",
+  "census",
+  "status",
+  "focus",
+  "atlas",
+  "canvas",
+  "alias",
+  "bias",
+  "iris",
+  "plus",
+  "chorus",
+  "circus",
+  "apparatus",
+  "syllabus",
+  "prospectus",
+]);
+
+/**
+ * 情态动词：后面的开放词类是动词原形（will give、can set）
+ */
+export const MODAL_VERBS = new Set([
+  "can",
+  "could",
+  "may",
+  "might",
+  "must",
+  "shall",
+  "should",
+  "will",
+  "would",
+]);
+
+/**
+ * -s 结尾但不是复数或第三人称单数的单词
+ */
+export const NON_PLURAL_WORDS = new Set([
+  "news",
+  "series",
+  "species",
+  "physics",
+  "economics",
+  "mathematics",
+  "politics",
+  "statistics",
+  "ethics",
+  "lens",
+  "christmas",
+]);
+
+/**
+ * -ly 结尾但不是副词的单词 → 词性
+ */
+export const NON_ADVERB_LY_WORDS: Record<string, string> = {
+  family: "NOUN",
+  supply: "NOUN",
+  reply: "NOUN",
+  assembly: "NOUN",
+  anomaly: "NOUN",
+  monopoly: "NOUN",
+  butterfly: "NOUN",
+  rally: "NOUN",
+  belly: "NOUN",
+  jelly: "NOUN",
+  apply: "VERB",
+  rely: "VERB",
+  imply: "VERB",
+  multiply: "VERB",
+  friendly: "ADJ",
+  lonely: "ADJ",
+  lovely: "ADJ",
+  likely: "ADJ",
+  ugly: "ADJ",
+  silly: "ADJ",
+  holy: "ADJ",
+  elderly: "ADJ",
+  costly: "ADJ",
+  deadly: "ADJ",
+};
@@ -0,0 +1,363 @@
+/**
+ * 本地英语分析工具（分词 + 词性标注 + 词形还原）
+ *
+ * 不依赖外部服务，作为 Google Natural Language API 的离线替代：
+ * 输出与 Google analyzeSyntax 相同结构的 token，交给同一套过滤和
+ * 复合词合并逻辑处理（见 text-nlp.service.ts）
+ *
+ * 实现方式：
+ * 1. 分词：按单词、数字、单个标点切分，拆开缩写（don't → do + n't）
+ * 2. 词性标注：封闭词类和不规则变形查表，其余按后缀和前一个词的词性推断
+ * 3. 词形还原：不规则变形查表，规则变形按后缀还原
+ *    （running → run, studies → study, changed → change）
+ *
+ * 规则覆盖常见情况，少数单词的还原结果可能与 Google 不同
+ */
+
+import {
+  CLOSED_CLASS_WORDS,
+  CONTRACTION_SUFFIXES,
+  IRREGULAR_FORMS,
+  MODAL_VERBS,
+  NON_ADVERB_LY_WORDS,
+  NON_INFLECTED_WORDS,
+  NON_PLURAL_WORDS,
+  S_ENDING_NOUNS,
+} from "./english-lexicon";
+
+/**
+ * 分词结果（与 Google NLP 的 token.text 结构一致）
+ */
+export interface EnglishTextSpan {
+  content: string; // token 的文本内容
+  beginOffset: number; // 在原文中的起始位置（UTF-8 字节偏移，与 Google 一致）
+}
+
+/**
+ * 分析结果（与 Google NLP 的 token 结构一致）
+ */
+export interface EnglishToken {
+  text: EnglishTextSpan;
+  lemma: string; // 词根形式
+  partOfSpeech: {
+    tag: string; // 词性标签
+  };
+}
+
+// 小数和千位分隔的数字 | 单词（可含撇号，如 don't、o'clock）| 单个非空白字符
+const TOKEN_PATTERN =
+  /\d+(?:[.,]\d+)+|[\p{L}\p{M}\p{N}]+(?:['’‘`][\p{L}\p{M}\p{N}]+)*|\S/gu;
+
+// 文章中可能出现的撇号变体，统一为直单引号后再查表
+const APOSTROPHE_VARIANTS = /[’‘`]/g;
+
+const SENTENCE_END = new Set([".", "!", "?"]);
+
+// 形容词后缀（单词长度须大于 5，避免 "give"、"table" 这样的短词）
+const ADJECTIVE_SUFFIX = /(?:ous|ful|ive|able|ible|less|ical)$/;
+
+// 去掉 -ing / -ed 后需要补回 e 的词干结尾
+// （state, trouble, realize, require, include, describe, compute,
+//  assume, determine, invoke, cause, sense, continue, dance, move,
+//  judge, charge, change, challenge, prepare）
+const SILENT_E_ENDING =
+  /(?:[^aeiou]at|[bcdfgkptz]l|[^z]z|[^aeiou](?:ir|ur|id|ud|ib|ut|um|in|ar)|[^aeiou][aeiou]k|[aeiou]s|[nrlp]s|u|[cv]|[dlr]g|[hr]ang|eng)$/;
+
+// 单音节的"辅音 + 元音 + 辅音"词干（make, hope, write），去掉后缀后需要补回 e
+const SHORT_SYLLABLE = /^[^aeiouy]*[aeiouy][^aeiouwxy]$/;
+
+// 双写的末尾辅音（running → runn），-ll / -ss / -zz / -ff 是原型本身的拼写
+const DOUBLED_CONSONANT = /([b-df-hj-km-np-tv-z])\1$/;
+const KEPT_DOUBLE = /(?:ll|ss|zz|ff)$/;
+
+/**
+ * 安全查表（避免命中 "constructor" 等原型链属性）
+ */
+function lookup<T>(table: Record<string, T>, key: string): T | undefined {
+  return Object.hasOwn(table, key) ? table[key] : undefined;
+}
+
+function normalizeApostrophes(word: string): string {
+  return word.replace(APOSTROPHE_VARIANTS, "'");
+}
+
+function hasVowel(text: string): boolean {
+  return /[aeiouy]/.test(text);
+}
+
+/**
+ * 拆分缩写
+ *
+ * @example
+ * splitContraction("don't")  // ["do", "n't"]
+ * splitContraction("John's") // ["John", "'s"]
+ * splitContraction("o'clock") // ["o'clock"]
+ */
+function splitContraction(word: string): string[] {
+  const normalized = normalizeApostrophes(word).toLowerCase();
+  const suffix = Object.keys(CONTRACTION_SUFFIXES).find(
+    (s) => normalized.length > s.length && normalized.endsWith(s)
+  );
+  if (!suffix) return [word];
+
+  const cut = word.length - suffix.length;
+  return [word.slice(0, cut), word.slice(cut)];
+}
+
+/**
+ * 英语分词
+ *
+ * 单词、数字和每个标点各为一个 token，连字符单独成为 token
+ * （复合词由后续处理合并），缩写拆为两个 token
+ *
+ * @param text - 原始文本
+ * @returns token 列表（按出现顺序）
+ */
+export function tokenizeEnglish(text: string): EnglishTextSpan[] {
+  const encoder = new TextEncoder();
+  const spans: EnglishTextSpan[] = [];
+  let charIndex = 0;
+  let byteOffset = 0;
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    byteOffset += encoder.encode(text.slice(charIndex, match.index)).length;
+    charIndex = match.index;
+
+    let partOffset = byteOffset;
+    for (const part of splitContraction(match[0])) {
+      spans.push({ content: part, beginOffset: partOffset });
+      partOffset += encoder.encode(part).length;
+    }
+  }
+
+  return spans;
+}
+
+/**
+ * 还原 -ing / -ed 去掉后的词干
+ *
+ * @returns 原型，词干没有元音时（bring, red）返回 null，表示不是动词变形
+ */
+function restoreStem(stem: string): string | null {
+  if (!hasVowel(stem)) return null;
+
+  if (DOUBLED_CONSONANT.test(stem) && !KEPT_DOUBLE.test(stem)) {
+    return stem.slice(0, -1);
+  }
+  if (SILENT_E_ENDING.test(stem) || SHORT_SYLLABLE.test(stem)) {
+    return `${stem}e`;
+  }
+  return stem;
+}
+
+/**
+ * 还原动词的 -ing / -ed 变形
+ *
+ * @returns 原型，不是 -ing / -ed 变形时返回 null
+ */
+function stripVerbSuffix(word: string): string | null {
+  if (word.endsWith("ing")) {
+    return restoreStem(word.slice(0, -3));
+  }
+  if (word.endsWith("ied")) {
+    // studied → study, died → die
+    return word.length > 4 ? `${word.slice(0, -3)}y` : word.slice(0, -1);
+  }
+  if (word.endsWith("eed")) {
+    // need, proceed 等是原型（agreed 这类在不规则表中）
+    return null;
+  }
+  if (word.endsWith("ed")) {
+    return restoreStem(word.slice(0, -2));
+  }
+  return null;
+}
+
+/**
+ * 还原名词复数和动词第三人称单数
+ */
+function stripPluralSuffix(word: string): string {
+  if (
+    word.length <= 3 ||
+    !word.endsWith("s") ||
+    /(?:ss|us|is)$/.test(word) ||
+    NON_PLURAL_WORDS.has(word)
+  ) {
+    return word;
+  }
+
+  if (word.endsWith("ies")) {
+    // studies → study, ties → tie
+    return word.length > 4 ? `${word.slice(0, -3)}y` : word.slice(0, -1);
+  }
+  if (/(?:sses|xes|ches|shes|zzes)$/.test(word)) {
+    return word.slice(0, -2);
+  }
+  if (word.endsWith("ses") && S_ENDING_NOUNS.has(word.slice(0, -2))) {
+    // buses → bus, lenses → lens
+    return word.slice(0, -2);
+  }
+  if (word.endsWith("oes") && word.length > 5) {
+    // heroes → hero（shoes、toes 只去掉 s）
+    return word.slice(0, -2);
+  }
+  return word.slice(0, -1);
+}
+
+/**
+ * 词形还原
+ *
+ * @param word - 单词（任意大小写）
+ * @param pos - 词性标签，只有 NOUN / VERB 会还原规则变形
+ * @returns 原型（小写）
+ *
+ * @example
+ * lemmatize("running", "VERB") // "run"
+ * lemmatize("went", "VERB")    // "go"
+ * lemmatize("cities", "NOUN")  // "city"
+ * lemmatize("better", "ADJ")   // "good"
+ */
+export function lemmatize(word: string, pos: string): string {
+  const lower = normalizeApostrophes(word).toLowerCase();
+
+  const irregular = lookup(IRREGULAR_FORMS, lower);
+  if (irregular) return irregular.lemma;
+
+  if (pos === "VERB") {
+    const base = stripVerbSuffix(lower);
+    if (base) return base;
+  }
+  if (pos === "NOUN" || pos === "VERB") {
+    return stripPluralSuffix(lower);
+  }
+  return lower;
+}
+
+/**
+ * 按后缀和前一个词推断开放词类的词性
+ */
+function guessPartOfSpeech(
+  word: string,
+  previousTag: string | null,
+  previousWord: string | null
+): string {
+  if (word.length > 4 && word.endsWith("ly")) {
+    return lookup(NON_ADVERB_LY_WORDS, word) ?? "ADV";
+  }
+  if (word.length > 5 && ADJECTIVE_SUFFIX.test(word)) {
+    return "ADJ";
+  }
+
+  // 限定词、形容词之后的 -ing 是名词（the building），-ed 是形容词（the tired man）
+  const afterModifier = previousTag === "DET" || previousTag === "ADJ";
+  if (word.endsWith("ing") && hasVowel(word.slice(0, -3))) {
+    return afterModifier ? "NOUN" : "VERB";
+  }
+  if (
+    word.endsWith("ed") &&
+    !word.endsWith("eed") &&
+    hasVowel(word.slice(0, -2))
+  ) {
+    return afterModifier ? "ADJ" : "VERB";
+  }
+
+  // 代词之后的 -s 是第三人称单数动词（she works）
+  if (previousTag === "PRON" && word.endsWith("s")) {
+    return "VERB";
+  }
+
+  // 小品词（to / not / n't）和情态动词之后是动词原形（to take、will give）
+  // 以 s 结尾的是名词复数（from cities to towns），ss / us 结尾的除外（to discuss）
+  const afterVerbMarker =
+    previousTag === "PRT" ||
+    (previousWord !== null && MODAL_VERBS.has(previousWord));
+  if (afterVerbMarker && !/[^su]s$/.test(word)) {
+    return "VERB";
+  }
+  return "NOUN";
+}
+
+/**
+ * 标注单个 token 的词性和原型
+ *
+ * @param word - token 文本
+ * @param previousTag - 前一个 token 的词性
+ * @param previousWord - 前一个 token（小写）
+ * @param sentenceStart - 是否位于句首（句首大写不代表专有名词）
+ */
+function tagToken(
+  word: string,
+  previousTag: string | null,
+  previousWord: string | null,
+  sentenceStart: boolean
+): { pos: string; lemma: string } {
+  if (!/[\p{L}\p{N}]/u.test(word)) {
+    return { pos: "PUNCT", lemma: word };
+  }
+  if (/^\p{N}+(?:[.,]\p{N}+)*$/u.test(word)) {
+    return { pos: "NUM", lemma: word };
+  }
+
+  const lower = normalizeApostrophes(word).toLowerCase();
+
+  const known =
+    lookup(CONTRACTION_SUFFIXES, lower) ?? lookup(IRREGULAR_FORMS, lower);
+  if (known) return known;
+
+  const closedClass = lookup(CLOSED_CLASS_WORDS, lower);
+  if (closedClass) return { pos: closedClass, lemma: lower };
+
+  // 句中大写的词和全大写缩写视为专有名词，保留原样（London, NASA）
+  if (
+    /^\p{Lu}\p{Lu}+$/u.test(word) ||
+    (!sentenceStart && /^\p{Lu}/u.test(word))
+  ) {
+    return { pos: "NOUN", lemma: word };
+  }
+
+  const nonInflected = lookup(NON_INFLECTED_WORDS, lower);
+  if (nonInflected) return { pos: nonInflected, lemma: lower };
+
+  const pos = guessPartOfSpeech(lower, previousTag, previousWord);
+  return { pos, lemma: lemmatize(lower, pos) };
+}
+
+/**
+ * 分析英语文本
+ *
+ * @param text - 原始文本
+ * @returns 与 Google NLP analyzeSyntax 结构一致的 token 列表（未过滤）
+ *
+ * @example
+ * analyzeEnglish("She was running.")
+ * // content:  She   was   running   .
+ * // lemma:    she   be    run       .
+ * // tag:      PRON  VERB  VERB      PUNCT
+ */
+export function analyzeEnglish(text: string): EnglishToken[] {
+  const tokens: EnglishToken[] = [];
+  let previousTag: string | null = null;
+  let previousWord: string | null = null;
+  let sentenceStart = true;
+
+  for (const span of tokenizeEnglish(text)) {
+    const { pos, lemma } = tagToken(
+      span.content,
+      previousTag,
+      previousWord,
+      sentenceStart
+    );
+    tokens.push({ text: span, lemma, partOfSpeech: { tag: pos } });
+
+    // 句末标点之后是新句子；引号、括号等标点不改变句首状态
+    if (SENTENCE_END.has(span.content)) {
+      sentenceStart = true;
+    } else if (pos !== "PUNCT") {
+      sentenceStart = false;
+    }
+    previousTag = pos;
+    previousWord = normalizeApostrophes(span.content).toLowerCase();
+  }
+
+  return tokens;
+}
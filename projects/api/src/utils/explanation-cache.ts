@@ -0,0 +1,40 @@
+/**
+ * AI 解释缓存键工具
+ *
+ * 缓存键由 lemma、所在句子的哈希、Prompt 版本和生成解释的模型组成，
+ * 句子先规范化空白再计算 SHA-256，避免换行、缩进不同导致缓存未命中
+ */
+
+/**
+ * 规范化句子：合并连续空白并去掉首尾空白
+ *
+ * @example
+ * normalizeContext("  The cat\n  sat. ") // "The cat sat."
+ */
+export function normalizeContext(sentence: string): string {
+  return sentence.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * 计算句子的 SHA-256（十六进制，64 位）
+ *
+ * @param sentence - 单词所在的句子
+ * @returns 规范化后句子的哈希
+ */
+export async function hashContext(sentence: string): Promise<string> {
+  const data = new TextEncoder().encode(normalizeContext(sentence));
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * 组合查找用的键（lemma + 句子哈希）
+ *
+ * @param lemma - 单词原型（统一转为小写）
+ * @param contextHash - 句子哈希
+ */
+export function getCacheKey(lemma: string, contextHash: string): string {
+  return `${lemma.toLowerCase()}:${contextHash}`;
+}
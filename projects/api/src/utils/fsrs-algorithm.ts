@@ -0,0 +1,184 @@
+/**
+ * FSRS 间隔重复算法（Free Spaced Repetition Scheduler）
+ *
+ * 基于 FSRS-4.5 的三要素记忆模型（DSR 模型）
+ *
+ * 参考：https://github.com/open-spaced-repetition/fsrs4anki/wiki/The-Algorithm
+ *
+ * 核心概念：
+ * - stability（稳定性 S）: 可提取性从 100% 降到 90% 所需的天数
+ * - difficulty（难度 D）: 卡片本身的难度（1 - 10）
+ * - retrievability（可提取性 R）: 当前时刻能回忆起来的概率（0 - 1）
+ *
+ * 与 SM-2 的区别：
+ * - SM-2 只根据连续正确次数和难度系数放大间隔
+ * - FSRS 根据"距离上次复习过了多久"动态估算遗忘程度，
+ *   对逾期复习、提前复习都能给出更合理的下一个间隔
+ */
+
+import { type DifficultyRating } from "./anki-algorithm";
+
+/**
+ * FSRS 卡片记忆状态
+ */
+export interface FSRSState {
+  stability: number; // 稳定性（天）
+  difficulty: number; // 难度（1 - 10）
+}
+
+/**
+ * FSRS-4.5 默认参数（基于大量 Anki 复习记录训练得到）
+ */
+export const FSRS_DEFAULT_WEIGHTS: readonly number[] = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474,
+  0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+];
+
+// 遗忘曲线参数：R(t, S) = (1 + FACTOR * t / S) ^ DECAY
+const DECAY = -0.5;
+const FACTOR = 19 / 81; // 保证 R(S, S) = 0.9
+
+const MIN_DIFFICULTY = 1;
+const MAX_DIFFICULTY = 10;
+const MIN_STABILITY = 0.1;
+
+/**
+ * 评级转换为 FSRS 的数字等级（1 - 4）
+ */
+function ratingToGrade(rating: DifficultyRating): number {
+  switch (rating) {
+    case "again":
+      return 1;
+    case "hard":
+      return 2;
+    case "good":
+      return 3;
+    case "easy":
+      return 4;
+  }
+}
+
+function clampDifficulty(difficulty: number): number {
+  return Math.min(MAX_DIFFICULTY, Math.max(MIN_DIFFICULTY, difficulty));
+}
+
+/**
+ * 计算初始难度 D0(G)
+ */
+export function initDifficulty(
+  rating: DifficultyRating,
+  weights: readonly number[] = FSRS_DEFAULT_WEIGHTS
+): number {
+  const grade = ratingToGrade(rating);
+  return clampDifficulty(weights[4] - (grade - 3) * weights[5]);
+}
+
+/**
+ * 计算初始稳定性 S0(G)
+ */
+export function initStability(
+  rating: DifficultyRating,
+  weights: readonly number[] = FSRS_DEFAULT_WEIGHTS
+): number {
+  return Math.max(MIN_STABILITY, weights[ratingToGrade(rating) - 1]);
+}
+
+/**
+ * 计算可提取性（回忆概率）
+ *
+ * @param elapsedDays - 距离上次复习的天数
+ * @param stability - 当前稳定性
+ * @returns 0 - 1 之间的回忆概率
+ */
+export function calculateRetrievability(
+  elapsedDays: number,
+  stability: number
+): number {
+  if (stability <= 0) return 0;
+  return Math.pow(1 + (FACTOR * Math.max(0, elapsedDays)) / stability, DECAY);
+}
+
+/**
+ * 根据稳定性和目标保留率计算间隔天数
+ *
+ * 当 desiredRetention = 0.9 时，间隔恰好等于稳定性
+ *
+ * @param stability - 稳定性
+ * @param desiredRetention - 目标保留率（默认 0.9）
+ * @returns 间隔天数（正整数）
+ */
+export function calculateFSRSInterval(
+  stability: number,
+  desiredRetention: number = 0.9
+): number {
+  const interval =
+    (stability / FACTOR) * (Math.pow(desiredRetention, 1 / DECAY) - 1);
+  return Math.max(1, Math.round(interval));
+}
+
+/**
+ * 计算下次复习后的记忆状态
+ *
+ * @param state - 当前记忆状态（null 表示从未用 FSRS 复习过）
+ * @param rating - 用户答题评级
+ * @param elapsedDays - 距离上次复习的天数
+ * @param weights - 模型参数（默认 FSRS-4.5 参数）
+ * @returns 新的记忆状态
+ */
+export function calculateFSRSNextState(
+  state: FSRSState | null,
+  rating: DifficultyRating,
+  elapsedDays: number,
+  weights: readonly number[] = FSRS_DEFAULT_WEIGHTS
+): FSRSState {
+  // ===== 首次复习：直接使用初始值 =====
+  if (!state) {
+    return {
+      stability: initStability(rating, weights),
+      difficulty: initDifficulty(rating, weights),
+    };
+  }
+
+  const grade = ratingToGrade(rating);
+  const { stability, difficulty } = state;
+  const retrievability = calculateRetrievability(elapsedDays, stability);
+
+  // ===== 更新难度：评级越低难度越高，并向初始难度均值回归 =====
+  const nextDifficulty = clampDifficulty(
+    weights[7] * initDifficulty("good", weights) +
+      (1 - weights[7]) * (difficulty - weights[6] * (grade - 3))
+  );
+
+  // ===== 情况1: Again（遗忘），稳定性大幅下降 =====
+  if (rating === "again") {
+    const forgetStability =
+      weights[11] *
+      Math.pow(difficulty, -weights[12]) *
+      (Math.pow(stability + 1, weights[13]) - 1) *
+      Math.exp(weights[14] * (1 - retrievability));
+
+    return {
+      stability: Math.max(MIN_STABILITY, Math.min(forgetStability, stability)),
+      difficulty: nextDifficulty,
+    };
+  }
+
+  // ===== 情况2-4: Hard / Good / Easy（记住了），稳定性增长 =====
+  const hardPenalty = rating === "hard" ? weights[15] : 1;
+  const easyBonus = rating === "easy" ? weights[16] : 1;
+
+  const recallStability =
+    stability *
+    (1 +
+      Math.exp(weights[8]) *
+        (11 - difficulty) *
+        Math.pow(stability, -weights[9]) *
+        (Math.exp(weights[10] * (1 - retrievability)) - 1) *
+        hardPenalty *
+        easyBonus);
+
+  return {
+    stability: Math.max(MIN_STABILITY, recallStability),
+    difficulty: nextDifficulty,
+  };
+}
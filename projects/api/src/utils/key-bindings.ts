@@ -0,0 +1,114 @@
+/**
+ * 复习快捷键绑定
+ *
+ * 复习界面的每个操作对应一个按键，用户可以在快捷键面板中修改；
+ * 设置中保存完整的绑定，读取时用默认值补全（以后新增的操作自动使用默认按键）
+ *
+ * 按键格式（与前端 KeyboardEvent.key 的换算一致）：
+ * - 空格写作 "Space"
+ * - 字母统一小写，其他可见字符原样保存（如 "1"、"?"）
+ * - 少数功能键使用 KeyboardEvent.key 的名称（如 "ArrowLeft"）
+ */
+
+/**
+ * 复习操作
+ */
+export const REVIEW_ACTIONS = [
+  "flip", // 翻转卡片
+  "again",
+  "hard",
+  "good",
+  "easy",
+  "skip", // 跳过当前卡片
+  "undo", // 撤销上一次答题
+  "playAudio", // 朗读单词
+  "edit", // 编辑当前卡片
+  "help", // 打开快捷键面板
+] as const;
+
+export type ReviewAction = (typeof REVIEW_ACTIONS)[number];
+
+export type KeyBindings = Record<ReviewAction, string>;
+
+/**
+ * 默认快捷键
+ */
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  flip: "Space",
+  again: "1",
+  hard: "2",
+  good: "3",
+  easy: "4",
+  skip: "s",
+  undo: "u",
+  playAudio: "p",
+  edit: "e",
+  help: "?",
+};
+
+/**
+ * 可以绑定的功能键（Enter / Escape / Tab 已用于确认、关闭弹窗和切换焦点，不可绑定）
+ */
+const NAMED_KEYS = [
+  "Space",
+  "ArrowUp",
+  "ArrowDown",
+  "ArrowLeft",
+  "ArrowRight",
+  "Backspace",
+  "Delete",
+  "Home",
+  "End",
+  "PageUp",
+  "PageDown",
+];
+
+/**
+ * 按键是否可以绑定
+ *
+ * @param key - 按键
+ * @returns 单个可见字符（字母须为小写）或允许的功能键
+ */
+export function isValidKey(key: string): boolean {
+  if (NAMED_KEYS.includes(key)) return true;
+  return [...key].length === 1 && /\S/.test(key) && key === key.toLowerCase();
+}
+
+/**
+ * 用默认值补全快捷键绑定
+ *
+ * @param stored - 设置中保存的绑定（可能缺少新增的操作）
+ * @returns 完整的绑定
+ */
+export function resolveKeyBindings(
+  stored: Partial<KeyBindings> | null | undefined
+): KeyBindings {
+  const bindings = { ...DEFAULT_KEY_BINDINGS };
+  for (const action of REVIEW_ACTIONS) {
+    const key = stored?.[action];
+    if (key && isValidKey(key)) {
+      bindings[action] = key;
+    }
+  }
+  return bindings;
+}
+
+/**
+ * 查找绑定了同一按键的操作
+ *
+ * @param bindings - 完整的绑定
+ * @returns 冲突的按键和对应的操作（没有冲突时为空数组）
+ */
+export function findKeyConflicts(
+  bindings: KeyBindings
+): { key: string; actions: ReviewAction[] }[] {
+  const byKey = new Map<string, ReviewAction[]>();
+  for (const action of REVIEW_ACTIONS) {
+    const key = bindings[action];
+    byKey.set(key, [...(byKey.get(key) ?? []), action]);
+  }
+
+  return [...byKey.entries()]
+    .filter(([, actions]) => actions.length > 1)
+    .map(([key, actions]) => ({ key, actions }));
+}
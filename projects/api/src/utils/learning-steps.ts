@@ -0,0 +1,273 @@
+/**
+ * 学习步骤（日内短间隔）调度
+ *
+ * 📌 设计目的：
+ * 调度器（SM-2 / FSRS）只负责"天"级别的间隔。
+ * 新卡片和遗忘的卡片需要先在当天以分钟级间隔（如 1 分钟、10 分钟）反复出现，
+ * 全部步骤完成后才"毕业"进入按天复习的队列（类似 Anki 的学习队列）。
+ *
+ * 卡片状态流转：
+ * - new → learning → review（新卡片学习步骤）
+ * - review → relearning → review（遗忘后的重学步骤）
+ * - 步骤为空时直接毕业，行为与原来的按天调度一致
+ */
+
+import {
+  type DifficultyRating,
+  type FuzzOptions,
+  fuzzInterval,
+  getNextReviewDate,
+} from "./anki-algorithm";
+import {
+  type CardSchedulingState,
+  type Scheduler,
+  type SchedulingResult,
+} from "./scheduler";
+
+export type CardState = "new" | "learning" | "review" | "relearning";
+
+/**
+ * 默认学习步骤（分钟）：新卡片 1 分钟后、10 分钟后各复习一次
+ */
+export const DEFAULT_LEARNING_STEPS: readonly number[] = [1, 10];
+
+/**
+ * 默认重学步骤（分钟）：遗忘后 10 分钟再复习一次
+ */
+export const DEFAULT_RELEARNING_STEPS: readonly number[] = [10];
+
+/**
+ * 提前学习窗口（分钟）
+ *
+ * 没有其他到期卡片时，允许提前展示在此窗口内到期的学习中卡片，
+ * 避免用户为了一张 10 分钟后到期的卡片干等
+ */
+export const LEARN_AHEAD_MINUTES = 20;
+
+const MS_PER_MINUTE = 60 * 1000;
+
+/**
+ * 卡片当前状态（含学习步骤）
+ */
+export interface StepCardState extends CardSchedulingState {
+  cardState: CardState;
+  learningStep: number | null; // 当前所处的步骤下标（不在学习步骤中为 null）
+}
+
+/**
+ * 带学习步骤的调度结果
+ */
+export interface StepSchedulingResult extends SchedulingResult {
+  cardState: CardState;
+  learningStep: number | null;
+  nextReviewDate: Date;
+}
+
+/**
+ * 学习步骤配置
+ */
+export interface LearningStepsConfig {
+  learningSteps: readonly number[];
+  relearningSteps: readonly number[];
+  startingEase?: number; // 新卡片毕业时的初始难度系数（不传时沿用卡片当前值）
+}
+
+/**
+ * 计算若干分钟后的时间
+ */
+export function addMinutes(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * MS_PER_MINUTE);
+}
+
+/**
+ * 兼容旧数据：状态为 new 但已经复习过的卡片视为 review
+ */
+export function resolveCardState(
+  cardState: CardState,
+  repetitions: number
+): CardState {
+  if (cardState === "new" && repetitions > 0) {
+    return "review";
+  }
+  return cardState;
+}
+
+/**
+ * 计算 Hard 在学习步骤中的延迟（分钟）
+ *
+ * - 第一步：取第一步和第二步的平均值（只有一步时取 1.5 倍）
+ * - 其余步骤：重复当前步骤
+ */
+function getHardDelay(steps: readonly number[], step: number): number {
+  if (step === 0) {
+    return steps.length > 1
+      ? Math.round((steps[0] + steps[1]) / 2)
+      : Math.round(steps[0] * 1.5);
+  }
+  return steps[step];
+}
+
+/**
+ * 在学习 / 重学步骤中答题
+ *
+ * @returns 下一个步骤的结果；返回 null 表示已完成全部步骤，需要毕业
+ */
+function advanceStep(
+  steps: readonly number[],
+  currentStep: number,
+  rating: DifficultyRating,
+  now: Date
+): { learningStep: number; nextReviewDate: Date } | null {
+  const step = Math.min(currentStep, steps.length - 1);
+
+  switch (rating) {
+    case "again":
+      return { learningStep: 0, nextReviewDate: addMinutes(now, steps[0]) };
+    case "hard":
+      return {
+        learningStep: step,
+        nextReviewDate: addMinutes(now, getHardDelay(steps, step)),
+      };
+    case "good": {
+      const nextStep = step + 1;
+      if (nextStep >= steps.length) return null;
+      return {
+        learningStep: nextStep,
+        nextReviewDate: addMinutes(now, steps[nextStep]),
+      };
+    }
+    case "easy":
+      return null; // Easy 直接毕业
+  }
+}
+
+/**
+ * 计算答题后的卡片状态（学习步骤 + 调度器）
+ *
+ * @param card - 卡片当前状态
+ * @param rating - 用户答题评级
+ * @param now - 当前时间
+ * @param scheduler - 按天调度使用的调度器
+ * @param config - 学习步骤配置
+ * @returns 新的卡片状态和下次复习时间
+ */
+export function scheduleWithSteps(
+  card: StepCardState,
+  rating: DifficultyRating,
+  now: Date,
+  scheduler: Scheduler,
+  config: LearningStepsConfig
+): StepSchedulingResult {
+  const cardState = resolveCardState(card.cardState, card.repetitions);
+  const unchanged: SchedulingResult = {
+    easeFactor: card.easeFactor,
+    intervalDays: card.intervalDays,
+    repetitions: card.repetitions,
+    stability: card.stability,
+    difficulty: card.difficulty,
+  };
+
+  // ===== 新卡片 / 学习中：走学习步骤，完成后交给调度器计算首个间隔 =====
+  if (cardState === "new" || cardState === "learning") {
+    const steps = config.learningSteps;
+    // 新卡片视为处于第一步（与 Anki 一致：新卡片答 Good 进入第二步）
+    const next =
+      steps.length > 0
+        ? advanceStep(steps, card.learningStep ?? 0, rating, now)
+        : null;
+
+    if (next) {
+      return {
+        ...unchanged,
+        cardState: "learning",
+        learningStep: next.learningStep,
+        nextReviewDate: next.nextReviewDate,
+      };
+    }
+
+    // 毕业（或没有配置学习步骤）：由调度器计算首个按天间隔
+    const graduating =
+      config.startingEase !== undefined
+        ? { ...card, easeFactor: config.startingEase }
+        : card;
+    const result = scheduler.next(graduating, rating, now);
+    return {
+      ...result,
+      cardState: "review",
+      learningStep: null,
+      nextReviewDate: getNextReviewDate(result.intervalDays, now),
+    };
+  }
+
+  // ===== 重学中：走重学步骤，完成后使用遗忘时已计算好的间隔 =====
+  if (cardState === "relearning") {
+    const steps = config.relearningSteps;
+    const next =
+      steps.length > 0
+        ? advanceStep(steps, card.learningStep ?? 0, rating, now)
+        : null;
+
+    if (next) {
+      return {
+        ...unchanged,
+        cardState: "relearning",
+        learningStep: next.learningStep,
+        nextReviewDate: next.nextReviewDate,
+      };
+    }
+
+    return {
+      ...unchanged,
+      cardState: "review",
+      learningStep: null,
+      nextReviewDate: getNextReviewDate(card.intervalDays, now),
+    };
+  }
+
+  // ===== 复习中：交给调度器；遗忘时进入重学步骤 =====
+  const result = scheduler.next(card, rating, now);
+
+  if (rating === "again" && config.relearningSteps.length > 0) {
+    return {
+      ...result,
+      cardState: "relearning",
+      learningStep: 0,
+      nextReviewDate: addMinutes(now, config.relearningSteps[0]),
+    };
+  }
+
+  return {
+    ...result,
+    cardState: "review",
+    learningStep: null,
+    nextReviewDate: getNextReviewDate(result.intervalDays, now),
+  };
+}
+
+/**
+ * 对按天调度的结果做间隔随机化
+ *
+ * 只处理毕业 / 复习后按天安排的卡片，仍在学习步骤中的卡片原样返回；
+ * 随机化后的间隔同时写入 intervalDays，下次复习以它为基础继续增长
+ *
+ * @param result - scheduleWithSteps 的结果
+ * @param now - 答题时间
+ * @param options - 随机数来源和每日到期数量（负载均衡）
+ * @returns 随机化后的调度结果
+ */
+export function applyIntervalFuzz(
+  result: StepSchedulingResult,
+  now: Date,
+  options: FuzzOptions = {}
+): StepSchedulingResult {
+  if (result.learningStep !== null) return result;
+
+  const intervalDays = fuzzInterval(result.intervalDays, options);
+  if (intervalDays === result.intervalDays) return result;
+
+  return {
+    ...result,
+    intervalDays,
+    nextReviewDate: getNextReviewDate(intervalDays, now),
+  };
+}
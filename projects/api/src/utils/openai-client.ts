@@ -1,21 +1,26 @@
 import OpenAI from "openai";
 
 // 延迟初始化 OpenAI 客户端（避免模块加载时读取环境变量）
-let openai: OpenAI | null = null;
+// 按接口地址和 Key 缓存，切换到其他 OpenAI 兼容接口时创建新的客户端
+const clients = new Map<string, OpenAI>();
 
-export function getOpenAIClient(apiKey: string): OpenAI {
-  if (!openai) {
-    if (!apiKey) {
-      throw new Error(
-        "Missing AIHUBMIX_API_KEY environment variable. Please check your .env file."
-      );
-    }
+export function getOpenAIClient(options: {
+  apiKey: string;
+  baseURL: string;
+}): OpenAI {
+  const { apiKey, baseURL } = options;
+  if (!apiKey) {
+    throw new Error(
+      "Missing AI_API_KEY or AIHUBMIX_API_KEY environment variable. Please check your .env file."
+    );
+  }
 
-    openai = new OpenAI({
-      baseURL: "https://aihubmix.com/v1",
-      apiKey: apiKey,
-    });
+  const cacheKey = `${baseURL}\n${apiKey}`;
+  let client = clients.get(cacheKey);
+  if (!client) {
+    client = new OpenAI({ baseURL, apiKey });
+    clients.set(cacheKey, client);
   }
 
-  return openai;
+  return client;
 }
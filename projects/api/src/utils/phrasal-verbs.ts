@@ -0,0 +1,221 @@
+/**
+ * 内置的常见短语动词
+ *
+ * 与 vocabulary 表中的短语一起组成短语词典（见 phrase-detector.ts），
+ * 动词使用原型，识别时按 token 的 lemma 匹配（"took over" → "take over"）
+ *
+ * 两个词的短语动词允许中间插入宾语（"turn the offer down"）
+ */
+export const PHRASAL_VERBS = [
+  // 两个词
+  "back down",
+  "back off",
+  "back up",
+  "break down",
+  "break in",
+  "break off",
+  "break out",
+  "break up",
+  "bring about",
+  "bring back",
+  "bring down",
+  "bring in",
+  "bring out",
+  "bring up",
+  "build up",
+  "burn out",
+  "call for",
+  "call off",
+  "call on",
+  "call up",
+  "calm down",
+  "carry on",
+  "carry out",
+  "catch on",
+  "catch up",
+  "check in",
+  "check out",
+  "cheer up",
+  "clean up",
+  "come across",
+  "come along",
+  "come back",
+  "come down",
+  "come out",
+  "come over",
+  "come up",
+  "count on",
+  "cut back",
+  "cut down",
+  "cut off",
+  "cut out",
+  "deal with",
+  "do without",
+  "drag on",
+  "draw up",
+  "dress up",
+  "drop by",
+  "drop in",
+  "drop off",
+  "drop out",
+  "end up",
+  "fall apart",
+  "fall behind",
+  "fall through",
+  "figure out",
+  "fill in",
+  "fill out",
+  "find out",
+  "get across",
+  "get along",
+  "get around",
+  "get away",
+  "get back",
+  "get by",
+  "get over",
+  "get through",
+  "give away",
+  "give back",
+  "give in",
+  "give off",
+  "give out",
+  "give up",
+  "go ahead",
+  "go along",
+  "go over",
+  "go through",
+  "grow up",
+  "hand in",
+  "hand out",
+  "hand over",
+  "hang on",
+  "hang out",
+  "hang up",
+  "hold back",
+  "hold off",
+  "hold on",
+  "hold out",
+  "hold up",
+  "keep on",
+  "keep up",
+  "kick off",
+  "knock down",
+  "knock out",
+  "lay off",
+  "lay out",
+  "leave out",
+  "let down",
+  "let in",
+  "let off",
+  "log in",
+  "log out",
+  "look after",
+  "look back",
+  "look down",
+  "look into",
+  "look out",
+  "look over",
+  "look up",
+  "make out",
+  "make up",
+  "mix up",
+  "move on",
+  "pass away",
+  "pass on",
+  "pass out",
+  "pay back",
+  "pay off",
+  "phase out",
+  "pick out",
+  "pick up",
+  "point out",
+  "pull off",
+  "pull out",
+  "pull over",
+  "pull through",
+  "put away",
+  "put back",
+  "put down",
+  "put forward",
+  "put off",
+  "put on",
+  "put out",
+  "put together",
+  "put up",
+  "rely on",
+  "rule out",
+  "run across",
+  "run into",
+  "run out",
+  "run over",
+  "see through",
+  "sell out",
+  "set aside",
+  "set off",
+  "set out",
+  "set up",
+  "settle down",
+  "show off",
+  "show up",
+  "shut down",
+  "sort out",
+  "speak up",
+  "stand by",
+  "stand for",
+  "stand out",
+  "step down",
+  "step up",
+  "stick to",
+  "take after",
+  "take apart",
+  "take back",
+  "take down",
+  "take in",
+  "take off",
+  "take on",
+  "take over",
+  "take up",
+  "talk over",
+  "tear down",
+  "tear up",
+  "think over",
+  "think through",
+  "throw away",
+  "throw out",
+  "try on",
+  "try out",
+  "turn around",
+  "turn down",
+  "turn in",
+  "turn into",
+  "turn off",
+  "turn on",
+  "turn out",
+  "turn over",
+  "turn up",
+  "use up",
+  "wake up",
+  "warm up",
+  "wear off",
+  "wear out",
+  "wind down",
+  "wind up",
+  "work out",
+  "write down",
+  "write off",
+  // 三个词（不可分离）
+  "catch up with",
+  "come up with",
+  "cut down on",
+  "do away with",
+  "get away with",
+  "get rid of",
+  "get along with",
+  "look down on",
+  "look forward to",
+  "look up to",
+  "make up for",
+  "put up with",
+  "run out of",
+  "keep up with",
+];
@@ -0,0 +1,283 @@
+/**
+ * 多词短语识别
+ *
+ * 在分词之后、过滤之前，按短语词典在 token 序列中查找短语，
+ * 将匹配到的多个 token 合并为一个，使 "take over"、"in the long run"、
+ * "by and large" 作为一个陌生词出现，而不是被拆成单个单词
+ *
+ * 匹配规则：
+ * - 每个位置优先匹配最长的短语
+ * - 按 token 的 lemma 或小写文中形式匹配（"took over" → "take over"）
+ * - 短语动词的第一个词必须是动词；被标为名词的原形（祈使句 "Give up now."）
+ *   只在小品词紧跟其后、且前面不是限定词或形容词时匹配
+ * - 两个词的短语动词允许中间插入不超过 MAX_SEPARATION 个宾语 token
+ *   （"turn the offer down"），小品词后面紧跟名词短语时视为介词，不匹配
+ *   （"put the book on the table" 不是 "put on"）
+ */
+
+import { type GoogleNLPResponse } from "../service/text-nlp.service";
+import { PHRASAL_VERBS } from "./phrasal-verbs";
+
+type RawToken = GoogleNLPResponse["tokens"][number];
+
+/**
+ * 短语词典中的一条短语
+ */
+export interface PhraseEntry {
+  phrase: string; // 短语（小写，单个空格分隔）
+  parts: string[]; // 短语中的各个单词
+  phrasalVerb: boolean; // 是否为短语动词
+}
+
+/**
+ * 短语词典：第一个单词 → 以该单词开头的短语（按长度降序）
+ */
+export type PhraseDictionary = Map<string, PhraseEntry[]>;
+
+/**
+ * 可分离短语动词中间最多插入的 token 数
+ */
+export const MAX_SEPARATION = 3;
+
+// 可以出现在动词和小品词之间的宾语 token
+const OBJECT_TAGS = new Set(["PRON", "DET", "NOUN", "ADJ", "NUM"]);
+
+// 可以作为小品词的词性
+const PARTICLE_TAGS = new Set(["ADP", "PRT", "ADV"]);
+
+// 修饰名词的词性（其后的单词是名词，不是动词）
+const NOUN_MODIFIER_TAGS = new Set(["DET", "ADJ", "NUM"]);
+
+// 只识别由两个及以上纯字母单词组成的短语（连字符复合词另行处理）
+const PHRASE_PATTERN = /^[a-z]+( [a-z]+)+$/;
+
+/**
+ * 构建短语词典
+ *
+ * @param phrases - 短语列表（如 vocabulary 表中包含空格的词条），无效的条目会被忽略
+ * @param phrasalVerbs - 短语动词列表（默认使用内置列表）
+ * @returns 短语词典
+ *
+ * @example
+ * const dictionary = buildPhraseDictionary(["in the long run"]);
+ * dictionary.get("in") // [{ phrase: "in the long run", ... }]
+ */
+export function buildPhraseDictionary(
+  phrases: Iterable<string>,
+  phrasalVerbs: Iterable<string> = PHRASAL_VERBS
+): PhraseDictionary {
+  const entries = new Map<string, PhraseEntry>();
+
+  const add = (raw: string, phrasalVerb: boolean) => {
+    const phrase = raw.replace(/\s+/g, " ").trim().toLowerCase();
+    if (!PHRASE_PATTERN.test(phrase)) return;
+
+    const existing = entries.get(phrase);
+    if (existing) {
+      existing.phrasalVerb ||= phrasalVerb;
+    } else {
+      entries.set(phrase, { phrase, parts: phrase.split(" "), phrasalVerb });
+    }
+  };
+
+  for (const phrase of phrases) add(phrase, false);
+  for (const phrase of phrasalVerbs) add(phrase, true);
+
+  const dictionary: PhraseDictionary = new Map();
+  for (const entry of entries.values()) {
+    const list = dictionary.get(entry.parts[0]) ?? [];
+    list.push(entry);
+    dictionary.set(entry.parts[0], list);
+  }
+  for (const list of dictionary.values()) {
+    list.sort((a, b) => b.parts.length - a.parts.length);
+  }
+
+  return dictionary;
+}
+
+/**
+ * 判断 token 是否与短语中的单词相同（比较 lemma 和小写文中形式）
+ */
+function matchesPart(token: RawToken, part: string): boolean {
+  return (
+    token.lemma.toLowerCase() === part ||
+    token.text.content.toLowerCase() === part
+  );
+}
+
+/**
+ * 匹配连续出现的短语
+ *
+ * @returns 短语结束位置（不含），不匹配时返回 -1
+ */
+function matchContiguous(
+  tokens: RawToken[],
+  start: number,
+  entry: PhraseEntry
+): number {
+  const end = start + entry.parts.length;
+  if (end > tokens.length) return -1;
+
+  return entry.parts.every((part, i) => matchesPart(tokens[start + i], part))
+    ? end
+    : -1;
+}
+
+/**
+ * 匹配中间插入宾语的短语动词（如 "turn the offer down"）
+ *
+ * @returns 小品词的位置，不匹配时返回 -1
+ */
+function matchSeparated(
+  tokens: RawToken[],
+  start: number,
+  entry: PhraseEntry
+): number {
+  if (!entry.phrasalVerb || entry.parts.length !== 2) return -1;
+
+  for (let gap = 1; gap <= MAX_SEPARATION; gap++) {
+    const object = tokens[start + gap];
+    if (!object || !OBJECT_TAGS.has(object.partOfSpeech.tag)) return -1;
+
+    const particle = tokens[start + gap + 1];
+    if (
+      particle &&
+      PARTICLE_TAGS.has(particle.partOfSpeech.tag) &&
+      matchesPart(particle, entry.parts[1])
+    ) {
+      // 小品词后面紧跟名词短语时是介词（"put the book on the table"）
+      const next = tokens[start + gap + 2];
+      return next && OBJECT_TAGS.has(next.partOfSpeech.tag)
+        ? -1
+        : start + gap + 1;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * 判断被标为名词的单词是否可以作为紧邻小品词的短语动词开头
+ *
+ * 词性标注可能把动词原形标为名词（"Give up now."），
+ * 前面是限定词、形容词或数词时才确定是名词（"a set up"）
+ */
+function isUntaggedVerbHead(tokens: RawToken[], start: number): boolean {
+  const head = tokens[start];
+  const particle = tokens[start + 1];
+  const previous = tokens[start - 1];
+
+  return (
+    head.partOfSpeech.tag === "NOUN" &&
+    particle !== undefined &&
+    PARTICLE_TAGS.has(particle.partOfSpeech.tag) &&
+    !(previous && NOUN_MODIFIER_TAGS.has(previous.partOfSpeech.tag))
+  );
+}
+
+/**
+ * 在 token 序列中识别短语并合并
+ *
+ * 连续的短语合并为一个 token；插入了宾语的短语动词合并到动词的位置，
+ * 宾语保留为独立的 token，小品词被移除
+ *
+ * 合并后的 token：
+ * - text.content：原文中从第一个单词到最后一个单词的片段
+ *   （"took over"、"turned the offer down"，保留原文的换行和连续空白）
+ * - lemma：词典中的短语（"take over"、"turn down"）
+ * - partOfSpeech.tag：短语动词为 VERB，其他短语为 X
+ *
+ * @param tokens - 分词后的原始 token 列表（Google NLP 格式，偏移为 UTF-8 字节）
+ * @param dictionary - 短语词典
+ * @param text - 分词前的原文（用于截取短语的文中形式）
+ * @returns 合并短语后的 token 列表
+ *
+ * @example
+ * const text = "They turned it down.";
+ * detectPhrases(analyzeEnglish(text), dictionary, text)
+ * // 文中形式：["They", "turned it down", "it", "."]
+ * // "turned it down" 的 lemma 为 "turn down"
+ */
+export function detectPhrases(
+  tokens: RawToken[],
+  dictionary: PhraseDictionary,
+  text: string
+): RawToken[] {
+  if (dictionary.size === 0) return tokens;
+
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  const bytes = encoder.encode(text);
+
+  // 截取原文中第 start 到第 last 个 token 的片段
+  const sliceText = (start: RawToken, last: RawToken) =>
+    decoder.decode(
+      bytes.subarray(
+        start.text.beginOffset,
+        last.text.beginOffset + encoder.encode(last.text.content).length
+      )
+    );
+
+  const result: RawToken[] = [];
+  const skipped = new Set<number>(); // 已合并到短语动词中的小品词
+  let i = 0;
+
+  while (i < tokens.length) {
+    if (skipped.has(i)) {
+      i++;
+      continue;
+    }
+
+    const current = tokens[i];
+    const keys = new Set([
+      current.lemma.toLowerCase(),
+      current.text.content.toLowerCase(),
+    ]);
+    const candidates = [...keys]
+      .flatMap((key) => dictionary.get(key) ?? [])
+      .sort((a, b) => b.parts.length - a.parts.length);
+
+    const verbHead = current.partOfSpeech.tag === "VERB";
+
+    let merged = false;
+    for (const entry of candidates) {
+      const end = matchContiguous(tokens, i, entry);
+      if (entry.phrasalVerb && !verbHead) {
+        // 非动词开头只接受紧邻小品词的两个词短语动词
+        if (end - i !== 2 || !isUntaggedVerbHead(tokens, i)) continue;
+      }
+
+      const particle =
+        end === -1 && verbHead ? matchSeparated(tokens, i, entry) : -1;
+      if (end === -1 && particle === -1) continue;
+
+      const last = end === -1 ? particle : end - 1;
+      result.push({
+        text: {
+          content: sliceText(current, tokens[last]),
+          beginOffset: current.text.beginOffset,
+        },
+        lemma: entry.phrase,
+        partOfSpeech: { tag: entry.phrasalVerb ? "VERB" : "X" },
+      });
+
+      if (end === -1) {
+        // 宾语保留为独立的 token，小品词已合并
+        skipped.add(particle);
+        i++;
+      } else {
+        i = end;
+      }
+      merged = true;
+      break;
+    }
+
+    if (!merged) {
+      result.push(current);
+      i++;
+    }
+  }
+
+  return result;
+}
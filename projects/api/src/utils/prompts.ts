@@ -3,6 +3,14 @@
  * 用于生成词汇学习相关的 AI Prompt
  */
 
+/**
+ * 单词解释 Prompt 的版本
+ *
+ * AI 解释缓存（ai_explanation_cache）按版本区分结果，
+ * 修改 buildWordExplanationPrompt 或 getSystemMessage 后需要提升版本号
+ */
+export const PROMPT_VERSION = "1";
+
 /**
  * 构建单词解释的 AI Prompt
  *
@@ -0,0 +1,222 @@
+/**
+ * 复习数据分析工具
+ *
+ * 将复习日志 / 卡片状态聚合为统计页面使用的数据：
+ * - 卡片成熟度：new（新卡片）/ learning（学习步骤中）/ young（间隔 < 21 天）/ mature（间隔 >= 21 天）
+ * - 真实记忆保持率（true retention）：复习阶段的卡片答对（非 again）的比例，
+ *   不包含新卡片和学习步骤中的答题，更能反映长期记忆效果
+ * - 答题按钮分布：按答题时卡片所处阶段统计各评级的次数
+ */
+
+import { type DifficultyRating } from "./anki-algorithm";
+import { type CardState, resolveCardState } from "./learning-steps";
+import { type DayBoundary, getDayKey } from "./day-boundary";
+
+/**
+ * 成熟卡片的间隔阈值（天）
+ */
+export const MATURE_INTERVAL_DAYS = 21;
+
+export type CardMaturity = "new" | "learning" | "young" | "mature";
+
+/**
+ * 答题时卡片所处阶段（新卡片和学习步骤都归为 learning）
+ */
+export type ReviewKind = "learning" | "young" | "mature";
+
+/**
+ * 判断成熟度所需的卡片字段
+ */
+export interface MaturityCardFields {
+  cardState: CardState;
+  repetitions: number;
+  learningStep: number | null;
+  intervalDays: number;
+}
+
+/**
+ * 分析所需的复习日志字段
+ */
+export interface ReviewLogSample {
+  rating: DifficultyRating;
+  reviewedAt: Date;
+  prevCardState: CardState;
+  prevRepetitions: number;
+  prevLearningStep: number | null;
+  prevIntervalDays: number;
+}
+
+/**
+ * 保持率统计（答对数 / 总数）
+ */
+export interface RetentionCount {
+  passed: number;
+  total: number;
+}
+
+/**
+ * 每日保持率
+ */
+export interface RetentionPoint {
+  date: string; // YYYY-MM-DD
+  young: RetentionCount;
+  mature: RetentionCount;
+  retention: number | null; // 当天整体保持率（0-1），没有复习时为 null
+}
+
+export type AnswerDistribution = Record<
+  ReviewKind,
+  Record<DifficultyRating, number>
+>;
+
+/**
+ * 判断卡片当前的成熟度
+ */
+export function classifyCardMaturity(card: MaturityCardFields): CardMaturity {
+  if (card.learningStep !== null) {
+    return "learning";
+  }
+  if (resolveCardState(card.cardState, card.repetitions) === "new") {
+    return "new";
+  }
+  return card.intervalDays >= MATURE_INTERVAL_DAYS ? "mature" : "young";
+}
+
+/**
+ * 判断一次答题发生时卡片所处的阶段
+ */
+export function classifyReviewKind(log: ReviewLogSample): ReviewKind {
+  const maturity = classifyCardMaturity({
+    cardState: log.prevCardState,
+    repetitions: log.prevRepetitions,
+    learningStep: log.prevLearningStep,
+    intervalDays: log.prevIntervalDays,
+  });
+  return maturity === "new" ? "learning" : maturity;
+}
+
+const emptyRetention = (): RetentionCount => ({ passed: 0, total: 0 });
+
+/**
+ * 计算保持率（没有样本时返回 null）
+ */
+export function getRetentionRate(count: RetentionCount): number | null {
+  return count.total > 0 ? count.passed / count.total : null;
+}
+
+/**
+ * 按天统计真实记忆保持率
+ *
+ * @param logs - 复习日志
+ * @param dayKeys - 统计范围内的日期键（连续、升序）
+ * @param boundary - 用户的日期边界设置
+ * @returns 每日保持率（没有复习的日期也会包含在内）
+ */
+export function buildRetentionSeries(
+  logs: ReviewLogSample[],
+  dayKeys: string[],
+  boundary: DayBoundary
+): RetentionPoint[] {
+  const points = new Map<string, RetentionPoint>(
+    dayKeys.map((date) => [
+      date,
+      {
+        date,
+        young: emptyRetention(),
+        mature: emptyRetention(),
+        retention: null,
+      },
+    ])
+  );
+
+  for (const log of logs) {
+    const kind = classifyReviewKind(log);
+    if (kind === "learning") continue;
+
+    const point = points.get(getDayKey(log.reviewedAt, boundary));
+    if (!point) continue;
+
+    point[kind].total++;
+    if (log.rating !== "again") point[kind].passed++;
+  }
+
+  return Array.from(points.values()).map((point) => ({
+    ...point,
+    retention: getRetentionRate({
+      passed: point.young.passed + point.mature.passed,
+      total: point.young.total + point.mature.total,
+    }),
+  }));
+}
+
+/**
+ * 统计答题按钮分布
+ *
+ * @param logs - 复习日志
+ * @returns 各阶段中每种评级的答题次数
+ */
+export function buildAnswerDistribution(
+  logs: ReviewLogSample[]
+): AnswerDistribution {
+  const emptyCounts = (): Record<DifficultyRating, number> => ({
+    again: 0,
+    hard: 0,
+    good: 0,
+    easy: 0,
+  });
+  const distribution: AnswerDistribution = {
+    learning: emptyCounts(),
+    young: emptyCounts(),
+    mature: emptyCounts(),
+  };
+
+  for (const log of logs) {
+    distribution[classifyReviewKind(log)][log.rating]++;
+  }
+
+  return distribution;
+}
+
+/**
+ * 每日到期数量
+ */
+export interface ForecastDay {
+  date: string; // YYYY-MM-DD
+  dueCount: number; // 当天到期的卡片数（第一天包含已逾期的卡片）
+}
+
+/**
+ * 按天统计未来的到期卡片数量
+ *
+ * 早于第一天的到期时间视为已逾期，计入第一天；
+ * 超出统计范围的到期时间不计入
+ *
+ * @param dueDates - 卡片的到期时间
+ * @param dayKeys - 预测范围内的日期键（连续、升序，第一天为今天）
+ * @param boundary - 用户的日期边界设置
+ * @returns 每日到期数量和其中已逾期的数量
+ */
+export function buildReviewForecast(
+  dueDates: Date[],
+  dayKeys: string[],
+  boundary: DayBoundary
+): { days: ForecastDay[]; overdueCount: number } {
+  const forecast = dayKeys.map((date) => ({ date, dueCount: 0 }));
+  const indexByDate = new Map(forecast.map((day, i) => [day.date, i]));
+  let overdueCount = 0;
+
+  for (const dueDate of dueDates) {
+    const dayKey = getDayKey(dueDate, boundary);
+    // 日期键格式固定，可以直接按字符串比较先后
+    if (forecast.length > 0 && dayKey < forecast[0].date) {
+      overdueCount++;
+      forecast[0].dueCount++;
+      continue;
+    }
+
+    const index = indexByDate.get(dayKey);
+    if (index !== undefined) forecast[index].dueCount++;
+  }
+
+  return { days: forecast, overdueCount };
+}
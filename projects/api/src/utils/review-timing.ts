@@ -0,0 +1,56 @@
+/**
+ * 复习答题计时
+ *
+ * 答题用时 = 提交答案的时间 - 卡片展示的时间，超过上限按上限计算
+ * （用户离开页面、挂机等情况不应把整段时间计入学习时长）
+ */
+
+const MS_PER_MINUTE = 60 * 1000;
+
+/**
+ * 单次答题计入的最长用时（毫秒）
+ */
+export const MAX_ANSWER_MS = 60 * 1000;
+
+/**
+ * 计算答题用时
+ *
+ * @param cardShownAt - 卡片展示时间（未记录时为 null）
+ * @param now - 提交答案的时间
+ * @returns 答题用时（毫秒），无法计算时返回 null
+ */
+export function getAnswerDuration(
+  cardShownAt: Date | null,
+  now: Date
+): number | null {
+  if (!cardShownAt) return null;
+  const duration = now.getTime() - cardShownAt.getTime();
+  return Math.min(Math.max(duration, 0), MAX_ANSWER_MS);
+}
+
+/**
+ * 累计用时增加后新凑满的分钟数
+ *
+ * 每日统计的学习时长以分钟为单位，按会话累计毫秒数跨过的整分钟数累加，
+ * 避免逐次四舍五入造成误差
+ *
+ * @param previousMs - 增加前的累计用时（毫秒）
+ * @param addedMs - 本次增加的用时（毫秒）
+ * @returns 新凑满的分钟数
+ */
+export function getCompletedMinutes(
+  previousMs: number,
+  addedMs: number
+): number {
+  return (
+    Math.floor((previousMs + addedMs) / MS_PER_MINUTE) -
+    Math.floor(previousMs / MS_PER_MINUTE)
+  );
+}
+
+/**
+ * 毫秒转换为分钟（四舍五入，用于展示）
+ */
+export function toMinutes(ms: number): number {
+  return Math.round(ms / MS_PER_MINUTE);
+}
@@ -0,0 +1,347 @@
+/**
+ * 调度参数优化器
+ *
+ * 根据用户的复习日志拟合 SM-2 调度参数，并估算不同目标保留率下的复习量。
+ *
+ * 记忆模型：
+ * - 按 SM-2 计算出的原始间隔 I 复习，经过 t 天后的回忆概率 R = exp(-(t / I) / k)
+ * - k 越大说明记得越牢；按原始间隔复习时的保留率（基准保留率）为 exp(-1 / k)
+ * - 目标保留率 d 对应的间隔系数 = ln(d) / ln(基准保留率)（与 Anki 的 interval modifier 换算一致）
+ *
+ * 拟合内容：
+ * - baselineRetention: 对所有复习阶段的答题做最大似然估计
+ * - hardMultiplier / easyBonus: 上一次答 Hard / Easy 之后的复习单独估计 k，
+ *   与整体 k 的比值说明这类间隔偏短（> 1）还是偏长（< 1），按比值调整倍数
+ * - startingEase: 成熟卡片难度系数的中位数（新卡片从用户的典型难度开始）
+ *
+ * 只使用 SM-2 安排的间隔（FSRS 的间隔不符合上面的模型）
+ */
+
+import { type DifficultyRating } from "./anki-algorithm";
+import { type SchedulerType } from "./scheduler";
+import { type CardState, resolveCardState } from "./learning-steps";
+import { MATURE_INTERVAL_DAYS } from "./review-analytics";
+
+/**
+ * 目标保留率默认值和可选范围
+ */
+export const DEFAULT_DESIRED_RETENTION = 0.9;
+export const MIN_DESIRED_RETENTION = 0.7;
+export const MAX_DESIRED_RETENTION = 0.97;
+
+/**
+ * 设置页展示的目标保留率选项
+ */
+export const DESIRED_RETENTION_OPTIONS: readonly number[] = [
+  0.7, 0.75, 0.8, 0.85, 0.9, 0.93, 0.95, 0.97,
+];
+
+/**
+ * 拟合所需的最少复习次数（整体 / 单个分组）
+ */
+export const MIN_OPTIMIZER_REVIEWS = 100;
+const MIN_GROUP_REVIEWS = 30;
+
+// 间隔系数的范围（避免极端设置让间隔失控）
+const MIN_INTERVAL_MODIFIER = 0.25;
+const MAX_INTERVAL_MODIFIER = 4;
+
+// 记忆尺度 k 的搜索范围
+const MIN_MEMORY_SCALE = 0.5;
+const MAX_MEMORY_SCALE = 500;
+
+/**
+ * 可拟合的调度参数
+ */
+export interface FittedSchedulerParameters {
+  baselineRetention: number; // 按 SM-2 原始间隔复习时的预计保留率
+  startingEase: number; // 新卡片毕业时的初始难度系数
+  hardMultiplier: number; // Hard 的间隔倍数
+  easyBonus: number; // Easy 的间隔倍数
+}
+
+/**
+ * 默认参数（经典 SM-2 的取值，基准保留率按 90% 估计）
+ */
+export const DEFAULT_FITTED_PARAMETERS: FittedSchedulerParameters = {
+  baselineRetention: 0.9,
+  startingEase: 2.5,
+  hardMultiplier: 1.2,
+  easyBonus: 1.3,
+};
+
+/**
+ * 拟合使用的复习日志字段
+ */
+export interface OptimizerSample {
+  cardId: number;
+  rating: DifficultyRating;
+  reviewedAt: Date;
+  elapsedDays: number; // 距上次复习的实际天数
+  prevIntervalDays: number; // 答题前安排的间隔
+  prevCardState: CardState;
+  prevRepetitions: number;
+  prevLearningStep: number | null;
+  newEaseFactor: number;
+  schedulerType: SchedulerType | null; // 计算新间隔使用的调度器（旧日志为 null）
+  intervalModifier: number; // 计算新间隔使用的间隔系数
+}
+
+/**
+ * 拟合结果
+ */
+export interface OptimizerResult {
+  reviewCount: number; // 参与拟合的复习次数
+  observedRetention: number | null; // 这些复习的实际保留率
+  parameters: FittedSchedulerParameters | null; // 样本不足时为 null
+}
+
+/**
+ * 目标保留率与复习量的权衡
+ */
+export interface RetentionTradeoff {
+  desiredRetention: number;
+  intervalModifier: number; // SM-2 的间隔系数
+  relativeWorkload: number; // 每日复习量（相对目标保留率 90% 的倍数）
+}
+
+/**
+ * 一次复习阶段的答题：按原始间隔归一化的经过时间和是否记住
+ */
+interface RecallObservation {
+  x: number; // t / I
+  passed: boolean;
+  prevRating: DifficultyRating | null; // 安排本次间隔时的评级（不在范围内时为 null）
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function round(value: number, digits: number): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * 目标保留率换算为 SM-2 的间隔系数
+ *
+ * @param desiredRetention - 目标保留率
+ * @param baselineRetention - 按原始间隔复习时的保留率
+ * @returns 间隔系数（目标保留率等于基准保留率时为 1）
+ */
+export function getIntervalModifier(
+  desiredRetention: number,
+  baselineRetention: number
+): number {
+  return clamp(
+    Math.log(desiredRetention) / Math.log(baselineRetention),
+    MIN_INTERVAL_MODIFIER,
+    MAX_INTERVAL_MODIFIER
+  );
+}
+
+/**
+ * 从复习日志中提取复习阶段的答题
+ *
+ * 同一卡片的上一条日志记录了安排本次间隔时的评级和间隔系数；
+ * 没有上一条日志时按间隔系数 1 处理
+ */
+function buildObservations(samples: OptimizerSample[]): RecallObservation[] {
+  const sorted = [...samples].sort(
+    (a, b) =>
+      a.cardId - b.cardId || a.reviewedAt.getTime() - b.reviewedAt.getTime()
+  );
+
+  const observations: RecallObservation[] = [];
+  sorted.forEach((sample, index) => {
+    const prev = index > 0 ? sorted[index - 1] : null;
+    const prevLog = prev && prev.cardId === sample.cardId ? prev : null;
+
+    const wasReview =
+      resolveCardState(sample.prevCardState, sample.prevRepetitions) ===
+        "review" && sample.prevLearningStep === null;
+    if (!wasReview || sample.prevIntervalDays < 1 || sample.elapsedDays <= 0) {
+      return;
+    }
+    if ((prevLog?.schedulerType ?? sample.schedulerType) === "fsrs") return;
+
+    const modifier = prevLog?.intervalModifier ?? 1;
+    observations.push({
+      x: (sample.elapsedDays * modifier) / sample.prevIntervalDays,
+      passed: sample.rating !== "again",
+      prevRating: prevLog?.rating ?? null,
+    });
+  });
+  return observations;
+}
+
+/**
+ * 对数似然：R = exp(-x / k)
+ */
+function logLikelihood(observations: RecallObservation[], k: number): number {
+  let sum = 0;
+  for (const { x, passed } of observations) {
+    const exponent = -x / k;
+    // 答错的概率 1 - exp(-x / k)，用 expm1 避免 x 很小时的精度问题
+    sum += passed ? exponent : Math.log(Math.max(-Math.expm1(exponent), 1e-12));
+  }
+  return sum;
+}
+
+/**
+ * 最大似然估计记忆尺度 k（在对数尺度上做黄金分割搜索）
+ */
+function fitMemoryScale(observations: RecallObservation[]): number {
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let low = Math.log(MIN_MEMORY_SCALE);
+  let high = Math.log(MAX_MEMORY_SCALE);
+
+  for (let i = 0; i < 80; i++) {
+    const a = high - ratio * (high - low);
+    const b = low + ratio * (high - low);
+    if (
+      logLikelihood(observations, Math.exp(a)) <
+      logLikelihood(observations, Math.exp(b))
+    ) {
+      low = a;
+    } else {
+      high = b;
+    }
+  }
+  return Math.exp((low + high) / 2);
+}
+
+/**
+ * 按上一次评级分组拟合，返回调整后的间隔倍数（样本不足时保持不变）
+ */
+function fitRatingMultiplier(
+  observations: RecallObservation[],
+  rating: DifficultyRating,
+  overallScale: number,
+  current: number,
+  [min, max]: [number, number]
+): number {
+  const group = observations.filter((o) => o.prevRating === rating);
+  if (group.length < MIN_GROUP_REVIEWS) return current;
+  return round(
+    clamp((current * fitMemoryScale(group)) / overallScale, min, max),
+    2
+  );
+}
+
+/**
+ * 成熟卡片难度系数的中位数（样本不足时保持不变）
+ */
+function fitStartingEase(samples: OptimizerSample[], current: number): number {
+  const eases = samples
+    .filter(
+      (s) =>
+        s.prevIntervalDays >= MATURE_INTERVAL_DAYS && s.schedulerType !== "fsrs"
+    )
+    .map((s) => s.newEaseFactor)
+    .sort((a, b) => a - b);
+  if (eases.length < MIN_GROUP_REVIEWS) return current;
+
+  const mid = Math.floor(eases.length / 2);
+  const median =
+    eases.length % 2 === 0 ? (eases[mid - 1] + eases[mid]) / 2 : eases[mid];
+  return round(clamp(median, 1.3, 3), 2);
+}
+
+/**
+ * 根据复习日志拟合调度参数
+ *
+ * @param samples - 复习日志
+ * @param current - 当前参数（分组样本不足时沿用）
+ * @returns 拟合结果
+ */
+export function fitSchedulerParameters(
+  samples: OptimizerSample[],
+  current: FittedSchedulerParameters = DEFAULT_FITTED_PARAMETERS
+): OptimizerResult {
+  const observations = buildObservations(samples);
+  const reviewCount = observations.length;
+  const observedRetention =
+    reviewCount > 0
+      ? observations.filter((o) => o.passed).length / reviewCount
+      : null;
+
+  if (reviewCount < MIN_OPTIMIZER_REVIEWS) {
+    return { reviewCount, observedRetention, parameters: null };
+  }
+
+  const scale = fitMemoryScale(observations);
+
+  return {
+    reviewCount,
+    observedRetention,
+    parameters: {
+      baselineRetention: round(clamp(Math.exp(-1 / scale), 0.5, 0.99), 3),
+      startingEase: fitStartingEase(samples, current.startingEase),
+      hardMultiplier: fitRatingMultiplier(
+        observations,
+        "hard",
+        scale,
+        current.hardMultiplier,
+        [0.8, 1.5]
+      ),
+      easyBonus: fitRatingMultiplier(
+        observations,
+        "easy",
+        scale,
+        current.easyBonus,
+        [1, 2]
+      ),
+    },
+  };
+}
+
+/**
+ * 估算每张卡片每天的复习量（相对值）
+ *
+ * 间隔越长复习越少；每次遗忘还要额外走一遍重学步骤
+ *
+ * @param desiredRetention - 目标保留率
+ * @param baselineRetention - 基准保留率
+ * @param relearningReviews - 遗忘后额外的复习次数（重学步骤数）
+ */
+export function estimateWorkload(
+  desiredRetention: number,
+  baselineRetention: number,
+  relearningReviews: number
+): number {
+  const modifier = getIntervalModifier(desiredRetention, baselineRetention);
+  return (1 + (1 - desiredRetention) * relearningReviews) / modifier;
+}
+
+/**
+ * 生成各目标保留率下的间隔系数和复习量
+ *
+ * @param baselineRetention - 基准保留率
+ * @param relearningReviews - 遗忘后额外的复习次数（重学步骤数）
+ * @returns 按目标保留率升序的权衡列表
+ */
+export function buildRetentionTradeoffs(
+  baselineRetention: number,
+  relearningReviews: number
+): RetentionTradeoff[] {
+  const reference = estimateWorkload(
+    DEFAULT_DESIRED_RETENTION,
+    baselineRetention,
+    relearningReviews
+  );
+
+  return DESIRED_RETENTION_OPTIONS.map((desiredRetention) => ({
+    desiredRetention,
+    intervalModifier: round(
+      getIntervalModifier(desiredRetention, baselineRetention),
+      2
+    ),
+    relativeWorkload: round(
+      estimateWorkload(desiredRetention, baselineRetention, relearningReviews) /
+        reference,
+      2
+    ),
+  }));
+}
@@ -0,0 +1,203 @@
+/**
+ * 复习调度器抽象层
+ *
+ * 📌 设计目的：
+ * 将"根据评级计算下一次复习"的算法抽象为统一接口，
+ * 复习服务只依赖 Scheduler 接口，不关心具体算法实现。
+ *
+ * 🔧 当前实现：
+ * - sm2: 简化版 Anki SM-2（见 anki-algorithm.ts）
+ * - fsrs: FSRS-4.5 记忆模型（见 fsrs-algorithm.ts）
+ *
+ * 用户可在复习设置中选择调度器（user_review_settings.scheduler_type），
+ * 调度参数（目标保留率、SM-2 间隔倍数）同样来自复习设置
+ */
+
+import {
+  calculateNextReview,
+  DEFAULT_SM2_PARAMETERS,
+  type AnkiState,
+  type DifficultyRating,
+  type SM2Parameters,
+} from "./anki-algorithm";
+import {
+  calculateFSRSNextState,
+  calculateFSRSInterval,
+  initDifficulty,
+  type FSRSState,
+} from "./fsrs-algorithm";
+
+export type SchedulerType = "sm2" | "fsrs";
+
+/**
+ * 调度器读取的卡片状态
+ *
+ * 包含所有调度器可能用到的字段，各调度器只使用自己需要的部分，
+ * 其余字段原样返回，切换调度器时不会丢失数据
+ */
+export interface CardSchedulingState extends AnkiState {
+  stability: number | null; // FSRS 稳定性（SM-2 卡片为 null）
+  difficulty: number | null; // FSRS 难度（SM-2 卡片为 null）
+  lastReviewedAt: Date | null; // 上次复习时间（用于计算实际间隔）
+}
+
+/**
+ * 调度结果：写回 userLearnedMeanings 的字段
+ */
+export type SchedulingResult = Omit<CardSchedulingState, "lastReviewedAt">;
+
+/**
+ * 调度参数
+ */
+export interface SchedulerParameters {
+  desiredRetention: number; // 目标保留率（FSRS 直接使用，SM-2 换算为间隔系数）
+  sm2: SM2Parameters; // SM-2 参数（intervalModifier 已按目标保留率换算）
+}
+
+/**
+ * 默认调度参数
+ */
+export const DEFAULT_SCHEDULER_PARAMETERS: SchedulerParameters = {
+  desiredRetention: 0.9,
+  sm2: DEFAULT_SM2_PARAMETERS,
+};
+
+/**
+ * 调度器接口
+ */
+export interface Scheduler {
+  readonly type: SchedulerType;
+
+  /**
+   * 计算下次复习的参数
+   *
+   * @param state - 当前卡片状态
+   * @param rating - 用户答题评级
+   * @param now - 当前时间（用于计算距上次复习的天数）
+   * @returns 新的卡片状态
+   */
+  next(
+    state: CardSchedulingState,
+    rating: DifficultyRating,
+    now: Date
+  ): SchedulingResult;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * 计算距离上次复习经过的天数（可为小数）
+ */
+export function getElapsedDays(lastReviewedAt: Date | null, now: Date): number {
+  if (!lastReviewedAt) return 0;
+  return Math.max(0, (now.getTime() - lastReviewedAt.getTime()) / MS_PER_DAY);
+}
+
+/**
+ * 创建 SM-2 调度器
+ *
+ * @param params - SM-2 参数
+ */
+export function createSM2Scheduler(
+  params: SM2Parameters = DEFAULT_SM2_PARAMETERS
+): Scheduler {
+  return {
+    type: "sm2",
+
+    next(state, rating) {
+      const result = calculateNextReview(
+        {
+          easeFactor: state.easeFactor,
+          intervalDays: state.intervalDays,
+          repetitions: state.repetitions,
+        },
+        rating,
+        params
+      );
+
+      return {
+        ...result,
+        // SM-2 不使用 FSRS 字段，原样保留
+        stability: state.stability,
+        difficulty: state.difficulty,
+      };
+    },
+  };
+}
+
+/**
+ * 创建 FSRS 调度器
+ *
+ * @param desiredRetention - 目标保留率
+ */
+export function createFSRSScheduler(
+  desiredRetention: number = DEFAULT_SCHEDULER_PARAMETERS.desiredRetention
+): Scheduler {
+  return {
+    type: "fsrs",
+
+    next(state, rating, now) {
+      let memoryState: FSRSState | null = null;
+
+      if (state.stability !== null && state.difficulty !== null) {
+        memoryState = {
+          stability: state.stability,
+          difficulty: state.difficulty,
+        };
+      } else if (state.repetitions > 0) {
+        // 从 SM-2 切换过来的卡片：用当前间隔近似稳定性，难度取中间值
+        memoryState = {
+          stability: Math.max(1, state.intervalDays),
+          difficulty: initDifficulty("good"),
+        };
+      }
+
+      const nextState = calculateFSRSNextState(
+        memoryState,
+        rating,
+        getElapsedDays(state.lastReviewedAt, now)
+      );
+
+      return {
+        // FSRS 不使用难度系数，原样保留（切回 SM-2 时继续使用）
+        easeFactor: state.easeFactor,
+        intervalDays: calculateFSRSInterval(
+          nextState.stability,
+          desiredRetention
+        ),
+        repetitions: rating === "again" ? 0 : state.repetitions + 1,
+        stability: nextState.stability,
+        difficulty: nextState.difficulty,
+      };
+    },
+  };
+}
+
+/**
+ * SM-2 调度器（默认参数）
+ */
+export const sm2Scheduler: Scheduler = createSM2Scheduler();
+
+/**
+ * FSRS 调度器（默认目标保留率）
+ */
+export const fsrsScheduler: Scheduler = createFSRSScheduler();
+
+/**
+ * 根据类型获取调度器
+ *
+ * @param type - 调度器类型
+ * @param params - 调度参数（不传时返回默认参数的共享实例）
+ * @returns 调度器实例
+ */
+export function getScheduler(
+  type: SchedulerType,
+  params?: SchedulerParameters
+): Scheduler {
+  if (!params) {
+    return type === "sm2" ? sm2Scheduler : fsrsScheduler;
+  }
+  return type === "sm2"
+    ? createSM2Scheduler(params.sm2)
+    : createFSRSScheduler(params.desiredRetention);
+}
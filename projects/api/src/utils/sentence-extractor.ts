@@ -96,3 +96,52 @@ export function batchExtractSentences(
   return result;
 }
 
+
+/**
+ * 完形填空的挖空占位符
+ */
+export const CLOZE_BLANK = "_____";
+
+/**
+ * 常见的英语词形变化后缀（复数、过去式、进行时、比较级等）
+ */
+const INFLECTION_SUFFIX = "(?:s|es|d|ed|ing|er|ers|est|ly)?";
+
+/**
+ * 将例句中的目标单词挖空，生成完形填空题
+ *
+ * 策略（与 extractSentenceFromArticle 的匹配方式一致）：
+ * 1. 依次尝试候选形式（如文中形态、原形），按单词边界匹配
+ * 2. 都未命中时，匹配常见的词形变化后缀（如 "develop" → "developers"）
+ * 3. 句子中所有匹配处都会被挖空，避免答案在句子其他位置露出
+ *
+ * @param sentence - 例句
+ * @param words - 候选单词形式（按优先级排列）
+ * @returns 挖空后的句子；句子中找不到单词时返回 null
+ */
+export function createClozeSentence(
+  sentence: string,
+  words: string[]
+): string | null {
+  const candidates = words.filter((word) => word && word.trim());
+  if (!sentence || candidates.length === 0) {
+    return null;
+  }
+
+  const patterns = [
+    ...candidates.map((word) => `\\b${escapeRegExp(word.trim())}\\b`),
+    ...candidates.map(
+      (word) => `\\b${escapeRegExp(word.trim())}${INFLECTION_SUFFIX}\\b`
+    ),
+  ];
+
+  for (const pattern of patterns) {
+    const regex = new RegExp(pattern, "gi");
+    if (regex.test(sentence)) {
+      regex.lastIndex = 0;
+      return sentence.replace(regex, CLOZE_BLANK);
+    }
+  }
+
+  return null;
+}
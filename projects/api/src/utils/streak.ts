@@ -0,0 +1,58 @@
+/**
+ * 学习连续天数（streak）计算
+ *
+ * 输入为用户有学习记录的学习日日期键（见 day-boundary），输出：
+ * - studyDays: 累计学习天数（去重）
+ * - currentStreak: 当前连续学习天数
+ *   今天还没学习时从昨天开始往前数，避免一早打开就显示连续天数中断
+ * - longestStreak: 历史最长连续学习天数
+ */
+
+import { diffDayKeys } from "./day-boundary";
+
+export interface StreakSummary {
+  studyDays: number; // 累计学习天数
+  currentStreak: number; // 当前连续学习天数
+  longestStreak: number; // 最长连续学习天数
+}
+
+/**
+ * 计算学习天数和连续学习天数
+ *
+ * @param studyDays - 有学习记录的日期键（可重复、无需排序）
+ * @param today - 今天的日期键（用于计算当前连续天数）
+ * @returns 学习天数统计
+ */
+export function calculateStreaks(
+  studyDays: string[],
+  today: string
+): StreakSummary {
+  // 转换为相对今天的天数序号（今天为 0，昨天为 -1）
+  const toDayNumber = (key: string) => diffDayKeys(today, key);
+  const days = Array.from(new Set(studyDays.map(toDayNumber))).sort(
+    (a, b) => a - b
+  );
+
+  // 最长连续天数
+  let longestStreak = 0;
+  let run = 0;
+  for (let i = 0; i < days.length; i++) {
+    run = i > 0 && days[i] === days[i - 1] + 1 ? run + 1 : 1;
+    longestStreak = Math.max(longestStreak, run);
+  }
+
+  // 当前连续天数：从今天（今天未学习则从昨天）往前数
+  const studied = new Set(days);
+  let cursor = studied.has(0) ? 0 : -1;
+  let currentStreak = 0;
+  while (studied.has(cursor)) {
+    currentStreak++;
+    cursor--;
+  }
+
+  return {
+    studyDays: days.length,
+    currentStreak,
+    longestStreak,
+  };
+}
@@ -0,0 +1,130 @@
+/**
+ * AI 解释提供方配置测试
+ */
+
+import {
+  buildStubExplanations,
+  resolveAIProviderConfig,
+  DEFAULT_AI_BASE_URL,
+  DEFAULT_AI_MODEL,
+  DEFAULT_AI_TIMEOUT_MS,
+} from "../src/utils/ai-provider";
+
+describe("resolveAIProviderConfig", () => {
+  test("默认使用 AIHubMix 和 gpt-4o-mini", () => {
+    expect(resolveAIProviderConfig({ AIHUBMIX_API_KEY: "key" })).toEqual({
+      provider: "openai",
+      baseURL: DEFAULT_AI_BASE_URL,
+      model: DEFAULT_AI_MODEL,
+      apiKey: "key",
+      timeoutMs: DEFAULT_AI_TIMEOUT_MS,
+    });
+  });
+
+  test("应该读取自定义的接口地址、模型和超时", () => {
+    const config = resolveAIProviderConfig({
+      AI_BASE_URL: "https://api.example.com/v1",
+      AI_MODEL: "gpt-4.1",
+      AI_API_KEY: "custom",
+      AI_TIMEOUT_MS: "30000",
+      AIHUBMIX_API_KEY: "key",
+    });
+    expect(config).toMatchObject({
+      baseURL: "https://api.example.com/v1",
+      model: "gpt-4.1",
+      apiKey: "custom",
+      timeoutMs: 30000,
+    });
+  });
+
+  test("无效的超时应该使用默认值", () => {
+    for (const value of ["abc", "0", "-5", "1.5"]) {
+      const config = resolveAIProviderConfig({
+        AIHUBMIX_API_KEY: "key",
+        AI_TIMEOUT_MS: value,
+      });
+      expect(config?.timeoutMs).toBe(DEFAULT_AI_TIMEOUT_MS);
+    }
+  });
+
+  test("使用默认接口但没有 API Key 时返回 null", () => {
+    expect(resolveAIProviderConfig({})).toBeNull();
+  });
+
+  test("自定义接口可以不配置 API Key（本地 LLM 服务）", () => {
+    const config = resolveAIProviderConfig({
+      AI_BASE_URL: "http://localhost:11434/v1",
+    });
+    expect(config?.provider).toBe("openai");
+    expect(config?.apiKey).toBeTruthy();
+  });
+
+  test("stub 提供方不需要 API Key", () => {
+    expect(resolveAIProviderConfig({ AI_PROVIDER: "stub" })?.provider).toBe(
+      "stub"
+    );
+  });
+});
+
+describe("buildStubExplanations", () => {
+  const article =
+    "The committee reached a consensus. Their resilience was remarkable.";
+
+  test("应该使用词汇表中的释义", () => {
+    const result = buildStubExplanations(
+      article,
+      [{ word: "consensus", lemma: "consensus" }],
+      [],
+      new Map([["consensus", "共识"]])
+    );
+    expect(result).toEqual([
+      {
+        wordInText: "consensus",
+        lemma: "consensus",
+        meaningText: "共识",
+        isExisting: false,
+        exampleSentence: "The committee reached a consensus.",
+      },
+    ]);
+  });
+
+  test("词汇表中没有的单词应该使用非空的占位释义", () => {
+    const [explanation] = buildStubExplanations(
+      article,
+      [{ word: "Resilience", lemma: "Resilience" }],
+      [],
+      new Map()
+    );
+    expect(explanation.lemma).toBe("resilience");
+    expect(explanation.meaningText.trim()).not.toBe("");
+    expect(explanation.isExisting).toBe(false);
+  });
+
+  test("有学习记录的单词应该使用已学含义并标记为已掌握", () => {
+    const [explanation] = buildStubExplanations(
+      article,
+      [],
+      [
+        {
+          word: "remarkable",
+          lemma: "remarkable",
+          existingMeanings: ["非凡的", "值得注意的"],
+        },
+      ],
+      new Map([["remarkable", "显著的"]])
+    );
+    expect(explanation.meaningText).toBe("非凡的");
+    expect(explanation.isExisting).toBe(true);
+  });
+
+  test("相同输入应该得到相同结果", () => {
+    const build = () =>
+      buildStubExplanations(
+        article,
+        [{ word: "consensus", lemma: "consensus" }],
+        [{ word: "remarkable", lemma: "remarkable", existingMeanings: [] }],
+        new Map()
+      );
+    expect(build()).toEqual(build());
+  });
+});
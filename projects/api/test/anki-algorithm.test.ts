@@ -7,6 +7,9 @@
 import {
   calculateNextReview,
   getNextReviewDate,
+  getFuzzRange,
+  fuzzInterval,
+  DEFAULT_SM2_PARAMETERS,
   type AnkiState,
   type DifficultyRating,
 } from "../src/utils/anki-algorithm";
@@ -342,6 +345,49 @@ describe("calculateNextReview", () => {
       expect(state.repetitions).toBe(1);
     });
   });
+
+  describe("自定义参数", () => {
+    const state: AnkiState = {
+      easeFactor: 2.5,
+      intervalDays: 10,
+      repetitions: 3,
+    };
+
+    test("Hard / Easy 使用传入的间隔倍数", () => {
+      const params = {
+        ...DEFAULT_SM2_PARAMETERS,
+        hardMultiplier: 1,
+        easyBonus: 2,
+      };
+
+      // Math.round(10 * 2.35) * 1
+      expect(calculateNextReview(state, "hard", params).intervalDays).toBe(24);
+      // Math.round(10 * 2.65) * 2
+      expect(calculateNextReview(state, "easy", params).intervalDays).toBe(54);
+    });
+
+    test("间隔系数整体缩放间隔", () => {
+      const params = { ...DEFAULT_SM2_PARAMETERS, intervalModifier: 0.5 };
+
+      expect(calculateNextReview(state, "good", params).intervalDays).toBe(13);
+      expect(
+        calculateNextReview({ ...state, repetitions: 1 }, "good", params)
+          .intervalDays
+      ).toBe(3);
+    });
+
+    test("第一次正确的 1 天间隔不缩放", () => {
+      const params = { ...DEFAULT_SM2_PARAMETERS, intervalModifier: 2 };
+
+      expect(
+        calculateNextReview(
+          { ...state, intervalDays: 0, repetitions: 0 },
+          "good",
+          params
+        ).intervalDays
+      ).toBe(1);
+    });
+  });
 });
 
 describe("getNextReviewDate", () => {
@@ -402,3 +448,94 @@ describe("getNextReviewDate", () => {
     expect(result.getTime()).toBeGreaterThan(Date.now());
   });
 });
+
+describe("getFuzzRange", () => {
+  test("短间隔不做随机化", () => {
+    expect(getFuzzRange(1)).toEqual({ min: 1, max: 1 });
+    expect(getFuzzRange(2)).toEqual({ min: 2, max: 2 });
+  });
+
+  test("随机范围随间隔增大", () => {
+    expect(getFuzzRange(3)).toEqual({ min: 2, max: 4 });
+    expect(getFuzzRange(10)).toEqual({ min: 8, max: 12 });
+    expect(getFuzzRange(100)).toEqual({ min: 93, max: 107 });
+  });
+
+  test("随机后的间隔不少于 2 天", () => {
+    expect(getFuzzRange(2.5).min).toBeGreaterThanOrEqual(2);
+  });
+});
+
+describe("fuzzInterval", () => {
+  test("短间隔原样返回", () => {
+    expect(fuzzInterval(1, { random: () => 0.99 })).toBe(1);
+  });
+
+  test("按随机数在范围内均匀取值", () => {
+    expect(fuzzInterval(10, { random: () => 0 })).toBe(8);
+    expect(fuzzInterval(10, { random: () => 0.5 })).toBe(10);
+    expect(fuzzInterval(10, { random: () => 0.999 })).toBe(12);
+  });
+
+  test("结果始终在随机范围内", () => {
+    for (const interval of [3, 7, 25, 180, 365]) {
+      const { min, max } = getFuzzRange(interval);
+      for (let i = 0; i < 50; i++) {
+        const fuzzed = fuzzInterval(interval);
+        expect(fuzzed).toBeGreaterThanOrEqual(min);
+        expect(fuzzed).toBeLessThanOrEqual(max);
+      }
+    }
+  });
+
+  test("同一批卡片的间隔会被错开", () => {
+    let seed = 1;
+    // 固定种子的线性同余随机数，保证测试结果稳定
+    const random = () => {
+      seed = (seed * 16807) % 2147483647;
+      return seed / 2147483647;
+    };
+    const intervals = new Set(
+      Array.from({ length: 60 }, () => fuzzInterval(10, { random }))
+    );
+    expect(intervals.size).toBeGreaterThan(1);
+  });
+
+  describe("负载均衡", () => {
+    test("选择到期卡片最少的一天", () => {
+      const dueCounts = new Map([
+        [8, 30],
+        [9, 12],
+        [10, 40],
+        [11, 5],
+        [12, 20],
+      ]);
+      expect(fuzzInterval(10, { dueCounts, random: () => 0 })).toBe(11);
+      expect(fuzzInterval(10, { dueCounts, random: () => 0.999 })).toBe(11);
+    });
+
+    test("没有到期记录的日期视为 0 张", () => {
+      const dueCounts = new Map([
+        [8, 3],
+        [10, 3],
+        [11, 3],
+        [12, 3],
+      ]);
+      expect(fuzzInterval(10, { dueCounts })).toBe(9);
+    });
+
+    test("数量相同的几天之间随机", () => {
+      const tied = new Map([
+        [8, 2],
+        [9, 2],
+        [10, 2],
+        [11, 2],
+        [12, 2],
+      ]);
+      expect(fuzzInterval(10, { dueCounts: tied, random: () => 0 })).toBe(8);
+      expect(fuzzInterval(10, { dueCounts: tied, random: () => 0.999 })).toBe(
+        12
+      );
+    });
+  });
+});
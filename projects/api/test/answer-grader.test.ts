@@ -0,0 +1,98 @@
+/**
+ * 输入答案评分测试
+ */
+
+import {
+  gradeAnswer,
+  getInflectedForms,
+  editDistance,
+  normalizeAnswer,
+} from "../src/utils/answer-grader";
+
+describe("gradeAnswer", () => {
+  test("完全一致时建议 Good", () => {
+    const grade = gradeAnswer("Abandon", { lemma: "abandon" });
+    expect(grade.match).toBe("exact");
+    expect(grade.isCorrect).toBe(true);
+    expect(grade.suggestedRating).toBe("good");
+  });
+
+  test("忽略首尾空白和标点", () => {
+    const grade = gradeAnswer("  abandon. ", { lemma: "abandon" });
+    expect(grade.match).toBe("exact");
+  });
+
+  test("cloze 卡片以文中形态为期望答案", () => {
+    const grade = gradeAnswer("running", { lemma: "run", form: "running" });
+    expect(grade.match).toBe("exact");
+    expect(grade.expected).toBe("running");
+  });
+
+  test("原形的词形变化视为答对", () => {
+    expect(gradeAnswer("studied", { lemma: "study" }).match).toBe(
+      "inflection"
+    );
+    expect(gradeAnswer("run", { lemma: "run", form: "running" }).match).toBe(
+      "inflection"
+    );
+    expect(gradeAnswer("stopping", { lemma: "stop" }).suggestedRating).toBe(
+      "good"
+    );
+  });
+
+  test("小的拼写错误建议 Hard", () => {
+    const grade = gradeAnswer("abandom", { lemma: "abandon" });
+    expect(grade.match).toBe("typo");
+    expect(grade.isCorrect).toBe(true);
+    expect(grade.distance).toBe(1);
+    expect(grade.suggestedRating).toBe("hard");
+  });
+
+  test("短词不容错", () => {
+    const grade = gradeAnswer("cut", { lemma: "cat" });
+    expect(grade.match).toBe("wrong");
+  });
+
+  test("答错或未作答建议 Again", () => {
+    expect(gradeAnswer("forsake", { lemma: "abandon" }).suggestedRating).toBe(
+      "again"
+    );
+    expect(gradeAnswer("   ", { lemma: "abandon" }).match).toBe("wrong");
+  });
+});
+
+describe("getInflectedForms", () => {
+  test("生成规则词形变化", () => {
+    const forms = getInflectedForms("bake");
+    expect(forms).toContain("bakes");
+    expect(forms).toContain("baked");
+    expect(forms).toContain("baking");
+  });
+
+  test("辅音 + y 结尾变 i", () => {
+    const forms = getInflectedForms("carry");
+    expect(forms).toContain("carries");
+    expect(forms).toContain("carried");
+  });
+
+  test("短语不生成词形变化", () => {
+    expect(getInflectedForms("give up")).toEqual(new Set(["give up"]));
+  });
+});
+
+describe("editDistance", () => {
+  test("计算插入、删除和替换", () => {
+    expect(editDistance("kitten", "sitting")).toBe(3);
+    expect(editDistance("", "abc")).toBe(3);
+  });
+
+  test("相邻字符交换只算一次", () => {
+    expect(editDistance("teh", "the")).toBe(1);
+  });
+});
+
+describe("normalizeAnswer", () => {
+  test("统一大小写、空白和撇号", () => {
+    expect(normalizeAnswer("  Don’t   Worry! ")).toBe("don't worry");
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * 自定义学习会话队列测试
+ */
+
+import {
+  advanceQueue,
+  skipInQueue,
+  shouldRescheduleByDefault,
+  AGAIN_REQUEUE_OFFSET,
+} from "../src/utils/custom-session";
+
+describe("advanceQueue", () => {
+  test("答对后从队列中移除卡片", () => {
+    expect(advanceQueue([1, 2, 3], 1, "good")).toEqual([2, 3]);
+    expect(advanceQueue([1, 2, 3], 2, "easy")).toEqual([1, 3]);
+  });
+
+  test("答 again 时隔几张卡片后再次出现", () => {
+    const queue = [1, 2, 3, 4, 5, 6];
+    const next = advanceQueue(queue, 1, "again");
+
+    expect(next).toHaveLength(queue.length);
+    expect(next.indexOf(1)).toBe(AGAIN_REQUEUE_OFFSET);
+  });
+
+  test("剩余卡片不足时放到队尾", () => {
+    expect(advanceQueue([1, 2], 1, "again")).toEqual([2, 1]);
+    expect(advanceQueue([1], 1, "again")).toEqual([1]);
+  });
+
+  test("重复出现的卡片只移除第一次出现的位置", () => {
+    expect(advanceQueue([1, 2, 1], 1, "good")).toEqual([2, 1]);
+  });
+
+  test("不在队列中的卡片不影响队列", () => {
+    const queue = [1, 2, 3];
+    expect(advanceQueue(queue, 9, "hard")).toEqual([1, 2, 3]);
+    expect(queue).toEqual([1, 2, 3]);
+  });
+});
+
+describe("skipInQueue", () => {
+  test("跳过的卡片移到队尾", () => {
+    expect(skipInQueue([1, 2, 3], 1)).toEqual([2, 3, 1]);
+    expect(skipInQueue([1, 2, 1], 1)).toEqual([2, 1, 1]);
+  });
+
+  test("不在队列中的卡片不影响队列", () => {
+    const queue = [1, 2, 3];
+    expect(skipInQueue(queue, 9)).toEqual([1, 2, 3]);
+    expect(queue).toEqual([1, 2, 3]);
+  });
+});
+
+describe("shouldRescheduleByDefault", () => {
+  test("只有提前复习默认重新调度", () => {
+    expect(shouldRescheduleByDefault({ type: "ahead", days: 3 })).toBe(true);
+    expect(shouldRescheduleByDefault({ type: "failed", days: 7 })).toBe(false);
+    expect(shouldRescheduleByDefault({ type: "recent", days: 3 })).toBe(false);
+    expect(shouldRescheduleByDefault({ type: "article", articleId: 1 })).toBe(
+      false
+    );
+  });
+});
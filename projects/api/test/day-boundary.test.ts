@@ -0,0 +1,91 @@
+/**
+ * 学习日日期边界测试
+ */
+
+import {
+  getDayKey,
+  getDayStart,
+  getNextDayStart,
+  getDayKeyStart,
+  shiftDayKey,
+  buildDayKeys,
+  diffDayKeys,
+  isValidTimezone,
+  type DayBoundary,
+} from "../src/utils/day-boundary";
+
+const shanghai: DayBoundary = { timezone: "Asia/Shanghai", dayStartHour: 0 };
+
+describe("getDayKey", () => {
+  test("按用户时区划分日期（UTC 16:00 是上海的次日零点）", () => {
+    expect(getDayKey(new Date("2025-01-15T15:59:59Z"), shanghai)).toBe(
+      "2025-01-15"
+    );
+    expect(getDayKey(new Date("2025-01-15T16:00:00Z"), shanghai)).toBe(
+      "2025-01-16"
+    );
+  });
+
+  test("每天开始时间之前的时刻算作前一天", () => {
+    const boundary = { ...shanghai, dayStartHour: 4 };
+    // 上海时间 1 月 16 日 03:00
+    expect(getDayKey(new Date("2025-01-15T19:00:00Z"), boundary)).toBe(
+      "2025-01-15"
+    );
+    // 上海时间 1 月 16 日 04:00
+    expect(getDayKey(new Date("2025-01-15T20:00:00Z"), boundary)).toBe(
+      "2025-01-16"
+    );
+  });
+});
+
+describe("getDayStart / getNextDayStart", () => {
+  test("返回学习日开始的 UTC 时刻", () => {
+    const now = new Date("2025-01-15T01:00:00Z"); // 上海时间 09:00
+    expect(getDayStart(now, shanghai).toISOString()).toBe(
+      "2025-01-14T16:00:00.000Z"
+    );
+    expect(getNextDayStart(now, shanghai).toISOString()).toBe(
+      "2025-01-15T16:00:00.000Z"
+    );
+  });
+
+  test("考虑每天开始时间", () => {
+    const boundary = { timezone: "UTC", dayStartHour: 4 };
+    const now = new Date("2025-01-15T02:00:00Z");
+    expect(getDayStart(now, boundary).toISOString()).toBe(
+      "2025-01-14T04:00:00.000Z"
+    );
+  });
+
+  test("夏令时切换日使用当天正确的偏移", () => {
+    const newYork = { timezone: "America/New_York", dayStartHour: 0 };
+    // 2025-03-09 开始夏令时：当天零点为 EST（-5），次日零点为 EDT（-4）
+    expect(getDayKeyStart("2025-03-09", newYork).toISOString()).toBe(
+      "2025-03-09T05:00:00.000Z"
+    );
+    expect(getDayKeyStart("2025-03-10", newYork).toISOString()).toBe(
+      "2025-03-10T04:00:00.000Z"
+    );
+  });
+});
+
+describe("日期键运算", () => {
+  test("跨月、跨年移动", () => {
+    expect(shiftDayKey("2025-01-31", 1)).toBe("2025-02-01");
+    expect(shiftDayKey("2025-01-01", -1)).toBe("2024-12-31");
+    expect(buildDayKeys("2024-02-28", 3)).toEqual([
+      "2024-02-28",
+      "2024-02-29",
+      "2024-03-01",
+    ]);
+    expect(diffDayKeys("2024-12-30", "2025-01-02")).toBe(3);
+  });
+});
+
+describe("isValidTimezone", () => {
+  test("校验 IANA 时区", () => {
+    expect(isValidTimezone("Asia/Shanghai")).toBe(true);
+    expect(isValidTimezone("Mars/Olympus")).toBe(false);
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * 本地英语分析工具测试
+ */
+
+import {
+  analyzeEnglish,
+  lemmatize,
+  tokenizeEnglish,
+} from "../src/utils/english-nlp";
+
+describe("tokenizeEnglish", () => {
+  test("应该按单词和标点分词", () => {
+    const spans = tokenizeEnglish("Hello, world!");
+    expect(spans.map((s) => s.content)).toEqual(["Hello", ",", "world", "!"]);
+  });
+
+  test("应该拆分缩写", () => {
+    const spans = tokenizeEnglish("I don't think he's here");
+    expect(spans.map((s) => s.content)).toEqual([
+      "I",
+      "do",
+      "n't",
+      "think",
+      "he",
+      "'s",
+      "here",
+    ]);
+  });
+
+  test("应该识别弯引号缩写", () => {
+    const spans = tokenizeEnglish("We’re ready");
+    expect(spans.map((s) => s.content)).toEqual(["We", "’re", "ready"]);
+  });
+
+  test("不应该拆分单词中间的撇号", () => {
+    const spans = tokenizeEnglish("at five o'clock");
+    expect(spans.map((s) => s.content)).toContain("o'clock");
+  });
+
+  test("连字符应该单独成为 token", () => {
+    const spans = tokenizeEnglish("state-of-the-art");
+    expect(spans.map((s) => s.content)).toEqual([
+      "state",
+      "-",
+      "of",
+      "-",
+      "the",
+      "-",
+      "art",
+    ]);
+  });
+
+  test("小数应该作为一个 token", () => {
+    const spans = tokenizeEnglish("It costs 3.14 dollars.");
+    expect(spans.map((s) => s.content)).toContain("3.14");
+  });
+
+  test("偏移量应该是 UTF-8 字节偏移", () => {
+    const spans = tokenizeEnglish("café culture");
+    expect(spans).toEqual([
+      { content: "café", beginOffset: 0 },
+      { content: "culture", beginOffset: 6 },
+    ]);
+  });
+
+  test("缩写的后半部分应该有正确的偏移量", () => {
+    const spans = tokenizeEnglish("Don't");
+    expect(spans).toEqual([
+      { content: "Do", beginOffset: 0 },
+      { content: "n't", beginOffset: 2 },
+    ]);
+  });
+});
+
+describe("lemmatize", () => {
+  test("应该还原不规则动词", () => {
+    expect(lemmatize("went", "VERB")).toBe("go");
+    expect(lemmatize("was", "VERB")).toBe("be");
+    expect(lemmatize("written", "VERB")).toBe("write");
+    expect(lemmatize("thought", "VERB")).toBe("think");
+  });
+
+  test("应该还原不规则名词和形容词", () => {
+    expect(lemmatize("children", "NOUN")).toBe("child");
+    expect(lemmatize("wolves", "NOUN")).toBe("wolf");
+    expect(lemmatize("better", "ADJ")).toBe("good");
+  });
+
+  test("应该还原 -ing 形式", () => {
+    expect(lemmatize("running", "VERB")).toBe("run");
+    expect(lemmatize("making", "VERB")).toBe("make");
+    expect(lemmatize("looking", "VERB")).toBe("look");
+    expect(lemmatize("studying", "VERB")).toBe("study");
+    expect(lemmatize("calling", "VERB")).toBe("call");
+    expect(lemmatize("creating", "VERB")).toBe("create");
+    expect(lemmatize("using", "VERB")).toBe("use");
+  });
+
+  test("应该还原 -ed 形式", () => {
+    expect(lemmatize("stopped", "VERB")).toBe("stop");
+    expect(lemmatize("hoped", "VERB")).toBe("hope");
+    expect(lemmatize("studied", "VERB")).toBe("study");
+    expect(lemmatize("died", "VERB")).toBe("die");
+    expect(lemmatize("played", "VERB")).toBe("play");
+    expect(lemmatize("realized", "VERB")).toBe("realize");
+    expect(lemmatize("included", "VERB")).toBe("include");
+    expect(lemmatize("changed", "VERB")).toBe("change");
+    expect(lemmatize("continued", "VERB")).toBe("continue");
+    expect(lemmatize("visited", "VERB")).toBe("visit");
+    expect(lemmatize("treated", "VERB")).toBe("treat");
+  });
+
+  test("不应该把原型当作变形还原", () => {
+    expect(lemmatize("need", "VERB")).toBe("need");
+    expect(lemmatize("bring", "VERB")).toBe("bring");
+  });
+
+  test("应该还原复数", () => {
+    expect(lemmatize("cities", "NOUN")).toBe("city");
+    expect(lemmatize("boxes", "NOUN")).toBe("box");
+    expect(lemmatize("classes", "NOUN")).toBe("class");
+    expect(lemmatize("watches", "NOUN")).toBe("watch");
+    expect(lemmatize("heroes", "NOUN")).toBe("hero");
+    expect(lemmatize("shoes", "NOUN")).toBe("shoe");
+    expect(lemmatize("developers", "NOUN")).toBe("developer");
+  });
+
+  test("以 s 结尾的名词复数应该去掉 -es", () => {
+    expect(lemmatize("buses", "NOUN")).toBe("bus");
+    expect(lemmatize("gases", "NOUN")).toBe("gas");
+    expect(lemmatize("lenses", "NOUN")).toBe("lens");
+    expect(lemmatize("viruses", "NOUN")).toBe("virus");
+    expect(lemmatize("houses", "NOUN")).toBe("house");
+    expect(lemmatize("cases", "NOUN")).toBe("case");
+  });
+
+  test("不应该还原非复数的 -s 结尾单词", () => {
+    expect(lemmatize("analysis", "NOUN")).toBe("analysis");
+    expect(lemmatize("status", "NOUN")).toBe("status");
+    expect(lemmatize("business", "NOUN")).toBe("business");
+    expect(lemmatize("news", "NOUN")).toBe("news");
+  });
+
+  test("形容词和副词不做规则还原", () => {
+    expect(lemmatize("dangerous", "ADJ")).toBe("dangerous");
+    expect(lemmatize("quickly", "ADV")).toBe("quickly");
+  });
+
+  test("应该返回小写原型", () => {
+    expect(lemmatize("Running", "VERB")).toBe("run");
+  });
+});
+
+describe("analyzeEnglish", () => {
+  const tagsOf = (text: string) =>
+    Object.fromEntries(
+      analyzeEnglish(text).map((t) => [t.text.content, t.partOfSpeech.tag])
+    );
+  const lemmasOf = (text: string) =>
+    Object.fromEntries(
+      analyzeEnglish(text).map((t) => [t.text.content, t.lemma])
+    );
+
+  test("应该返回与 Google NLP 结构一致的 token", () => {
+    expect(analyzeEnglish("She was running.")).toEqual([
+      {
+        text: { content: "She", beginOffset: 0 },
+        lemma: "she",
+        partOfSpeech: { tag: "PRON" },
+      },
+      {
+        text: { content: "was", beginOffset: 4 },
+        lemma: "be",
+        partOfSpeech: { tag: "VERB" },
+      },
+      {
+        text: { content: "running", beginOffset: 8 },
+        lemma: "run",
+        partOfSpeech: { tag: "VERB" },
+      },
+      {
+        text: { content: ".", beginOffset: 15 },
+        lemma: ".",
+        partOfSpeech: { tag: "PUNCT" },
+      },
+    ]);
+  });
+
+  test("应该标注封闭词类", () => {
+    const tags = tagsOf("The cat sat on a mat and it was happy");
+    expect(tags.The).toBe("DET");
+    expect(tags.on).toBe("ADP");
+    expect(tags.and).toBe("CONJ");
+    expect(tags.it).toBe("PRON");
+    expect(tags.sat).toBe("VERB");
+  });
+
+  test("应该按后缀推断词性", () => {
+    const tags = tagsOf("Dangerous storms quickly destroyed houses");
+    expect(tags.Dangerous).toBe("ADJ");
+    expect(tags.storms).toBe("NOUN");
+    expect(tags.quickly).toBe("ADV");
+    expect(tags.destroyed).toBe("VERB");
+  });
+
+  test("限定词之后的 -ing 形式应该是名词，不还原", () => {
+    const lemmas = lemmasOf("They admired the building");
+    const tags = tagsOf("They admired the building");
+    expect(tags.building).toBe("NOUN");
+    expect(lemmas.building).toBe("building");
+    expect(lemmas.admired).toBe("admire");
+  });
+
+  test("代词之后的 -s 形式应该是动词", () => {
+    const tags = tagsOf("she works hard");
+    expect(tags.works).toBe("VERB");
+    expect(lemmasOf("she works hard").works).toBe("work");
+  });
+
+  test("to 之后的动词原形应该是动词", () => {
+    expect(tagsOf("They decided to take the job").take).toBe("VERB");
+    expect(tagsOf("We need to set limits").set).toBe("VERB");
+    expect(tagsOf("She tried not to give in").give).toBe("VERB");
+  });
+
+  test("情态动词之后的动词原形应该是动词", () => {
+    expect(tagsOf("He will give it back").give).toBe("VERB");
+    expect(tagsOf("You can set it").set).toBe("VERB");
+    expect(tagsOf("They won't take it").take).toBe("VERB");
+  });
+
+  test("to 之后的名词复数不应该标注为动词", () => {
+    const tags = tagsOf("from cities to towns");
+    expect(tags.towns).toBe("NOUN");
+    expect(lemmasOf("from cities to towns").towns).toBe("town");
+  });
+
+  test("句中大写单词应该作为专有名词保留原样", () => {
+    const lemmas = lemmasOf("We visited Paris and met James");
+    expect(lemmas.Paris).toBe("Paris");
+    expect(lemmas.James).toBe("James");
+  });
+
+  test("句首大写单词应该正常还原", () => {
+    const lemmas = lemmasOf("Cities grow. Prices rose");
+    expect(lemmas.Cities).toBe("city");
+    expect(lemmas.Prices).toBe("price");
+  });
+
+  test("缩写片段应该有对应的词性和原型", () => {
+    const tokens = analyzeEnglish("I'm sure it isn't");
+    expect(tokens.find((t) => t.text.content === "'m")).toMatchObject({
+      lemma: "be",
+      partOfSpeech: { tag: "VERB" },
+    });
+    expect(tokens.find((t) => t.text.content === "n't")).toMatchObject({
+      lemma: "not",
+      partOfSpeech: { tag: "PRT" },
+    });
+  });
+
+  test("数字和标点应该分别标注为 NUM 和 PUNCT", () => {
+    const tags = tagsOf("About 200 people came -");
+    expect(tags["200"]).toBe("NUM");
+    expect(tags["-"]).toBe("PUNCT");
+  });
+
+  test("应该正常处理空文本", () => {
+    expect(analyzeEnglish("")).toEqual([]);
+    expect(analyzeEnglish("   ")).toEqual([]);
+  });
+});
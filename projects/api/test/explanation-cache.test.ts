@@ -0,0 +1,39 @@
+/**
+ * AI 解释缓存键测试
+ */
+
+import {
+  normalizeContext,
+  hashContext,
+  getCacheKey,
+} from "../src/utils/explanation-cache";
+
+describe("normalizeContext", () => {
+  test("应该合并连续空白并去掉首尾空白", () => {
+    expect(normalizeContext("  The cat\n\t sat.  ")).toBe("The cat sat.");
+  });
+});
+
+describe("hashContext", () => {
+  test("应该返回 64 位十六进制字符串", async () => {
+    expect(await hashContext("The cat sat.")).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  test("空白不同的同一句子应该得到相同哈希", async () => {
+    expect(await hashContext("The  cat\nsat. ")).toBe(
+      await hashContext("The cat sat.")
+    );
+  });
+
+  test("不同句子应该得到不同哈希", async () => {
+    expect(await hashContext("The cat sat.")).not.toBe(
+      await hashContext("The dog sat.")
+    );
+  });
+});
+
+describe("getCacheKey", () => {
+  test("lemma 应该忽略大小写", () => {
+    expect(getCacheKey("Run", "abc")).toBe(getCacheKey("run", "abc"));
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * FSRS 算法与调度器测试
+ *
+ * 测试 FSRS 记忆模型的核心公式，以及 Scheduler 接口的两种实现
+ */
+
+import {
+  calculateFSRSNextState,
+  calculateFSRSInterval,
+  calculateRetrievability,
+  initDifficulty,
+  initStability,
+  FSRS_DEFAULT_WEIGHTS,
+} from "../src/utils/fsrs-algorithm";
+import {
+  getScheduler,
+  getElapsedDays,
+  type CardSchedulingState,
+} from "../src/utils/scheduler";
+
+describe("calculateRetrievability", () => {
+  test("刚复习完时回忆概率为 100%", () => {
+    expect(calculateRetrievability(0, 10)).toBe(1);
+  });
+
+  test("经过稳定性对应的天数后回忆概率为 90%", () => {
+    expect(calculateRetrievability(10, 10)).toBeCloseTo(0.9, 5);
+    expect(calculateRetrievability(100, 100)).toBeCloseTo(0.9, 5);
+  });
+
+  test("时间越久回忆概率越低", () => {
+    const r1 = calculateRetrievability(5, 10);
+    const r2 = calculateRetrievability(20, 10);
+    expect(r1).toBeGreaterThan(r2);
+  });
+});
+
+describe("calculateFSRSInterval", () => {
+  test("目标保留率 90% 时间隔等于稳定性", () => {
+    expect(calculateFSRSInterval(10)).toBe(10);
+    expect(calculateFSRSInterval(36.6)).toBe(37);
+  });
+
+  test("目标保留率越高间隔越短", () => {
+    expect(calculateFSRSInterval(30, 0.95)).toBeLessThan(
+      calculateFSRSInterval(30, 0.9)
+    );
+    expect(calculateFSRSInterval(30, 0.8)).toBeGreaterThan(
+      calculateFSRSInterval(30, 0.9)
+    );
+  });
+
+  test("间隔至少为1天", () => {
+    expect(calculateFSRSInterval(0.1)).toBe(1);
+  });
+});
+
+describe("初始状态", () => {
+  test("初始稳定性取对应评级的参数", () => {
+    expect(initStability("again")).toBe(FSRS_DEFAULT_WEIGHTS[0]);
+    expect(initStability("good")).toBe(FSRS_DEFAULT_WEIGHTS[2]);
+    expect(initStability("easy")).toBe(FSRS_DEFAULT_WEIGHTS[3]);
+  });
+
+  test("评级越高初始难度越低", () => {
+    expect(initDifficulty("again")).toBeGreaterThan(initDifficulty("hard"));
+    expect(initDifficulty("hard")).toBeGreaterThan(initDifficulty("good"));
+    expect(initDifficulty("good")).toBeGreaterThan(initDifficulty("easy"));
+  });
+
+  test("初始难度限制在 1 - 10 之间", () => {
+    const ratings = ["again", "hard", "good", "easy"] as const;
+    ratings.forEach((rating) => {
+      const d = initDifficulty(rating);
+      expect(d).toBeGreaterThanOrEqual(1);
+      expect(d).toBeLessThanOrEqual(10);
+    });
+  });
+});
+
+describe("calculateFSRSNextState", () => {
+  const state = { stability: 10, difficulty: 5 };
+
+  test("首次复习使用初始值", () => {
+    const result = calculateFSRSNextState(null, "good", 0);
+    expect(result.stability).toBe(initStability("good"));
+    expect(result.difficulty).toBe(initDifficulty("good"));
+  });
+
+  test("记住时稳定性增长", () => {
+    const result = calculateFSRSNextState(state, "good", 10);
+    expect(result.stability).toBeGreaterThan(state.stability);
+  });
+
+  test("Easy 的稳定性增长大于 Good，Good 大于 Hard", () => {
+    const hard = calculateFSRSNextState(state, "hard", 10);
+    const good = calculateFSRSNextState(state, "good", 10);
+    const easy = calculateFSRSNextState(state, "easy", 10);
+    expect(easy.stability).toBeGreaterThan(good.stability);
+    expect(good.stability).toBeGreaterThan(hard.stability);
+  });
+
+  test("遗忘时稳定性下降且不超过原值", () => {
+    const result = calculateFSRSNextState(state, "again", 10);
+    expect(result.stability).toBeLessThan(state.stability);
+  });
+
+  test("遗忘时难度上升", () => {
+    const result = calculateFSRSNextState(state, "again", 10);
+    expect(result.difficulty).toBeGreaterThan(state.difficulty);
+  });
+
+  test("逾期越久记住后稳定性增长越多", () => {
+    const onTime = calculateFSRSNextState(state, "good", 10);
+    const overdue = calculateFSRSNextState(state, "good", 30);
+    expect(overdue.stability).toBeGreaterThan(onTime.stability);
+  });
+});
+
+describe("Scheduler", () => {
+  const now = new Date("2025-01-15T00:00:00Z");
+  const baseState: CardSchedulingState = {
+    easeFactor: 2.5,
+    intervalDays: 6,
+    repetitions: 2,
+    stability: null,
+    difficulty: null,
+    lastReviewedAt: new Date("2025-01-09T00:00:00Z"),
+  };
+
+  test("getElapsedDays 计算距上次复习的天数", () => {
+    expect(getElapsedDays(baseState.lastReviewedAt, now)).toBe(6);
+    expect(getElapsedDays(null, now)).toBe(0);
+  });
+
+  test("SM-2 调度器与 calculateNextReview 结果一致，并保留 FSRS 字段", () => {
+    const result = getScheduler("sm2").next(
+      { ...baseState, stability: 3, difficulty: 4 },
+      "good",
+      now
+    );
+    expect(result.intervalDays).toBe(15); // Math.round(6 * 2.5)
+    expect(result.repetitions).toBe(3);
+    expect(result.stability).toBe(3);
+    expect(result.difficulty).toBe(4);
+  });
+
+  test("FSRS 调度器为新卡片初始化记忆状态", () => {
+    const result = getScheduler("fsrs").next(
+      { ...baseState, repetitions: 0, lastReviewedAt: null },
+      "good",
+      now
+    );
+    expect(result.stability).toBe(initStability("good"));
+    expect(result.difficulty).toBe(initDifficulty("good"));
+    expect(result.repetitions).toBe(1);
+    expect(result.easeFactor).toBe(2.5);
+  });
+
+  test("FSRS 调度器可以接管 SM-2 卡片", () => {
+    const result = getScheduler("fsrs").next(baseState, "good", now);
+    expect(result.stability).not.toBeNull();
+    expect(result.intervalDays).toBeGreaterThan(baseState.intervalDays);
+  });
+
+  test("FSRS 调度器 again 时重置连续正确次数", () => {
+    const result = getScheduler("fsrs").next(
+      { ...baseState, stability: 6, difficulty: 5 },
+      "again",
+      now
+    );
+    expect(result.repetitions).toBe(0);
+    expect(result.intervalDays).toBeGreaterThanOrEqual(1);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * 复习快捷键绑定测试
+ */
+
+import {
+  resolveKeyBindings,
+  findKeyConflicts,
+  isValidKey,
+  DEFAULT_KEY_BINDINGS,
+} from "../src/utils/key-bindings";
+
+describe("isValidKey", () => {
+  test("单个可见字符和允许的功能键", () => {
+    expect(isValidKey("a")).toBe(true);
+    expect(isValidKey("1")).toBe(true);
+    expect(isValidKey("?")).toBe(true);
+    expect(isValidKey("Space")).toBe(true);
+    expect(isValidKey("ArrowLeft")).toBe(true);
+  });
+
+  test("拒绝大写字母、空白、多个字符和保留按键", () => {
+    expect(isValidKey("A")).toBe(false);
+    expect(isValidKey(" ")).toBe(false);
+    expect(isValidKey("")).toBe(false);
+    expect(isValidKey("ab")).toBe(false);
+    expect(isValidKey("Enter")).toBe(false);
+    expect(isValidKey("Escape")).toBe(false);
+  });
+});
+
+describe("resolveKeyBindings", () => {
+  test("没有保存的绑定时使用默认值", () => {
+    expect(resolveKeyBindings(null)).toEqual(DEFAULT_KEY_BINDINGS);
+    expect(resolveKeyBindings({})).toEqual(DEFAULT_KEY_BINDINGS);
+  });
+
+  test("保存的绑定覆盖默认值，缺少的操作用默认值补全", () => {
+    const bindings = resolveKeyBindings({ again: "j", skip: "ArrowRight" });
+
+    expect(bindings.again).toBe("j");
+    expect(bindings.skip).toBe("ArrowRight");
+    expect(bindings.good).toBe(DEFAULT_KEY_BINDINGS.good);
+  });
+
+  test("忽略无效的按键", () => {
+    expect(resolveKeyBindings({ flip: "Enter" }).flip).toBe("Space");
+  });
+});
+
+describe("findKeyConflicts", () => {
+  test("默认绑定没有冲突", () => {
+    expect(findKeyConflicts(DEFAULT_KEY_BINDINGS)).toEqual([]);
+  });
+
+  test("找出绑定同一按键的操作", () => {
+    const bindings = { ...DEFAULT_KEY_BINDINGS, skip: "1" };
+
+    expect(findKeyConflicts(bindings)).toEqual([
+      { key: "1", actions: ["again", "skip"] },
+    ]);
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * 学习步骤调度测试
+ *
+ * 测试新卡片 / 遗忘卡片在日内学习步骤中的流转
+ */
+
+import {
+  scheduleWithSteps,
+  resolveCardState,
+  addMinutes,
+  applyIntervalFuzz,
+  type StepCardState,
+  type LearningStepsConfig,
+} from "../src/utils/learning-steps";
+import { sm2Scheduler } from "../src/utils/scheduler";
+import { getNextReviewDate } from "../src/utils/anki-algorithm";
+
+describe("scheduleWithSteps", () => {
+  const now = new Date("2025-01-15T10:00:00Z");
+  const config: LearningStepsConfig = {
+    learningSteps: [1, 10],
+    relearningSteps: [10],
+  };
+
+  const newCard: StepCardState = {
+    easeFactor: 2.5,
+    intervalDays: 1,
+    repetitions: 0,
+    cardState: "new",
+    learningStep: null,
+    stability: null,
+    difficulty: null,
+    lastReviewedAt: null,
+  };
+
+  const reviewCard: StepCardState = {
+    ...newCard,
+    intervalDays: 10,
+    repetitions: 3,
+    cardState: "review",
+    lastReviewedAt: new Date("2025-01-05T10:00:00Z"),
+  };
+
+  describe("新卡片 / 学习中", () => {
+    test("Again 回到第一步，按分钟调度", () => {
+      const result = scheduleWithSteps(
+        newCard,
+        "again",
+        now,
+        sm2Scheduler,
+        config
+      );
+      expect(result.cardState).toBe("learning");
+      expect(result.learningStep).toBe(0);
+      expect(result.nextReviewDate).toEqual(addMinutes(now, 1));
+    });
+
+    test("Good 进入下一步", () => {
+      const result = scheduleWithSteps(
+        newCard,
+        "good",
+        now,
+        sm2Scheduler,
+        config
+      );
+      expect(result.cardState).toBe("learning");
+      expect(result.learningStep).toBe(1);
+      expect(result.nextReviewDate).toEqual(addMinutes(now, 10));
+    });
+
+    test("Hard 在第一步取前两步的平均值", () => {
+      const result = scheduleWithSteps(
+        newCard,
+        "hard",
+        now,
+        sm2Scheduler,
+        config
+      );
+      expect(result.learningStep).toBe(0);
+      expect(result.nextReviewDate).toEqual(addMinutes(now, 6));
+    });
+
+    test("学习步骤内不修改调度参数", () => {
+      const result = scheduleWithSteps(
+        newCard,
+        "again",
+        now,
+        sm2Scheduler,
+        config
+      );
+      expect(result.easeFactor).toBe(2.5);
+      expect(result.repetitions).toBe(0);
+    });
+
+    test("完成最后一步后毕业，按天调度", () => {
+      const learning: StepCardState = {
+        ...newCard,
+        cardState: "learning",
+        learningStep: 1,
+      };
+      const result = scheduleWithSteps(
+        learning,
+        "good",
+        now,
+        sm2Scheduler,
+        config
+      );
+      expect(result.cardState).toBe("review");
+      expect(result.learningStep).toBeNull();
+      expect(result.repetitions).toBe(1);
+      expect(result.intervalDays).toBe(1);
+    });
+
+    test("Easy 直接毕业", () => {
+      const result = scheduleWithSteps(
+        newCard,
+        "easy",
+        now,
+        sm2Scheduler,
+        config
+      );
+      expect(result.cardState).toBe("review");
+      expect(result.learningStep).toBeNull();
+    });
+
+    test("没有学习步骤时直接按天调度", () => {
+      const result = scheduleWithSteps(newCard, "again", now, sm2Scheduler, {
+        ...config,
+        learningSteps: [],
+      });
+      expect(result.cardState).toBe("review");
+      expect(result.intervalDays).toBe(1);
+    });
+
+    test("毕业时使用配置的初始难度系数", () => {
+      const result = scheduleWithSteps(newCard, "easy", now, sm2Scheduler, {
+        ...config,
+        startingEase: 2.2,
+      });
+      expect(result.easeFactor).toBeCloseTo(2.35); // 2.2 + Easy 的 0.15
+    });
+  });
+
+  describe("复习中 / 重学中", () => {
+    test("复习中答 Again 进入重学步骤", () => {
+      const result = scheduleWithSteps(
+        reviewCard,
+        "again",
+        now,
+        sm2Scheduler,
+        config
+      );
+      expect(result.cardState).toBe("relearning");
+      expect(result.learningStep).toBe(0);
+      expect(result.nextReviewDate).toEqual(addMinutes(now, 10));
+      // 调度器已计算遗忘后的间隔和难度系数
+      expect(result.intervalDays).toBe(1);
+      expect(result.easeFactor).toBe(2.3);
+    });
+
+    test("复习中答 Good 按天调度", () => {
+      const result = scheduleWithSteps(
+        reviewCard,
+        "good",
+        now,
+        sm2Scheduler,
+        config
+      );
+      expect(result.cardState).toBe("review");
+      expect(result.intervalDays).toBe(25);
+    });
+
+    test("重学完成后使用遗忘时计算的间隔", () => {
+      const relearning: StepCardState = {
+        ...reviewCard,
+        intervalDays: 1,
+        repetitions: 0,
+        cardState: "relearning",
+        learningStep: 0,
+      };
+      const result = scheduleWithSteps(
+        relearning,
+        "good",
+        now,
+        sm2Scheduler,
+        config
+      );
+      expect(result.cardState).toBe("review");
+      expect(result.intervalDays).toBe(1);
+      expect(result.repetitions).toBe(0);
+    });
+
+    test("没有重学步骤时遗忘直接按天调度", () => {
+      const result = scheduleWithSteps(reviewCard, "again", now, sm2Scheduler, {
+        ...config,
+        relearningSteps: [],
+      });
+      expect(result.cardState).toBe("review");
+      expect(result.learningStep).toBeNull();
+    });
+  });
+});
+
+describe("applyIntervalFuzz", () => {
+  const now = new Date("2025-01-15T10:00:00Z");
+  const base = {
+    easeFactor: 2.5,
+    repetitions: 3,
+    stability: null,
+    difficulty: null,
+  };
+
+  test("按天调度的卡片随机化间隔和下次复习时间", () => {
+    const result = applyIntervalFuzz(
+      {
+        ...base,
+        intervalDays: 10,
+        cardState: "review",
+        learningStep: null,
+        nextReviewDate: getNextReviewDate(10, now),
+      },
+      now,
+      { random: () => 0 }
+    );
+    expect(result.intervalDays).toBe(8);
+    expect(result.nextReviewDate).toEqual(getNextReviewDate(8, now));
+  });
+
+  test("学习步骤中的卡片不做随机化", () => {
+    const learning = {
+      ...base,
+      intervalDays: 10,
+      cardState: "relearning" as const,
+      learningStep: 0,
+      nextReviewDate: addMinutes(now, 10),
+    };
+    expect(applyIntervalFuzz(learning, now, { random: () => 0 })).toBe(
+      learning
+    );
+  });
+});
+
+describe("resolveCardState", () => {
+  test("旧数据中已复习过的卡片视为 review", () => {
+    expect(resolveCardState("new", 2)).toBe("review");
+  });
+
+  test("从未复习的卡片保持 new", () => {
+    expect(resolveCardState("new", 0)).toBe("new");
+  });
+
+  test("其他状态保持不变", () => {
+    expect(resolveCardState("relearning", 0)).toBe("relearning");
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * 多词短语识别测试
+ */
+
+import {
+  buildPhraseDictionary,
+  detectPhrases,
+} from "../src/utils/phrase-detector";
+import { analyzeEnglish } from "../src/utils/english-nlp";
+
+const dictionary = buildPhraseDictionary([
+  "in the long run",
+  "by and large",
+  "in the long",
+]);
+
+function detect(text: string) {
+  return detectPhrases(analyzeEnglish(text), dictionary, text);
+}
+
+function phrasesIn(text: string) {
+  return detect(text)
+    .filter((token) => token.text.content.includes(" "))
+    .map((token) => [token.text.content, token.lemma]);
+}
+
+describe("buildPhraseDictionary", () => {
+  test("应该按第一个单词分组，长短语在前", () => {
+    const entries = dictionary.get("in")!.map((e) => e.phrase);
+    expect(entries.indexOf("in the long run")).toBeLessThan(
+      entries.indexOf("in the long")
+    );
+  });
+
+  test("应该忽略单个单词和连字符复合词", () => {
+    const result = buildPhraseDictionary(["run", "well-known"], []);
+    expect(result.size).toBe(0);
+  });
+
+  test("应该规范化大小写和空白", () => {
+    const result = buildPhraseDictionary(["  By  And Large "], []);
+    expect(result.get("by")?.[0].phrase).toBe("by and large");
+  });
+
+  test("内置短语动词应该标记为短语动词", () => {
+    expect(dictionary.get("take")?.some((e) => e.phrasalVerb)).toBe(true);
+    expect(dictionary.get("by")?.[0].phrasalVerb).toBe(false);
+  });
+});
+
+describe("detectPhrases", () => {
+  test("应该识别词典中的多词短语", () => {
+    expect(phrasesIn("By and large, it works in the long run.")).toEqual([
+      ["By and large", "by and large"],
+      ["in the long run", "in the long run"],
+    ]);
+  });
+
+  test("应该按原型识别变形的短语动词", () => {
+    expect(phrasesIn("She took over the firm.")).toEqual([
+      ["took over", "take over"],
+    ]);
+  });
+
+  test("应该识别 to 之后的短语动词原形", () => {
+    expect(phrasesIn("The bank decided to take over the rival.")).toEqual([
+      ["take over", "take over"],
+    ]);
+    expect(phrasesIn("They want to give up.")).toEqual([
+      ["give up", "give up"],
+    ]);
+    expect(phrasesIn("We need to set up the server.")).toEqual([
+      ["set up", "set up"],
+    ]);
+  });
+
+  test("应该识别情态动词之后的短语动词原形", () => {
+    expect(phrasesIn("He will give up.")).toEqual([["give up", "give up"]]);
+    expect(phrasesIn("You can turn it down.")).toEqual([
+      ["turn it down", "turn down"],
+    ]);
+  });
+
+  test("应该识别祈使句开头的短语动词", () => {
+    expect(phrasesIn("Give up now.")).toEqual([["Give up", "give up"]]);
+  });
+
+  test("应该识别中间插入宾语的短语动词，宾语保留为独立 token", () => {
+    const tokens = detect("They turned the offer down.");
+    expect(tokens.map((t) => t.text.content)).toEqual([
+      "They",
+      "turned the offer down",
+      "the",
+      "offer",
+      ".",
+    ]);
+    expect(tokens[1].lemma).toBe("turn down");
+    expect(tokens[1].partOfSpeech.tag).toBe("VERB");
+  });
+
+  test("小品词后面紧跟名词短语时不应该识别为短语动词", () => {
+    expect(phrasesIn("He put the book on the table.")).toEqual([]);
+  });
+
+  test("短语动词的第一个词不是动词时不应该识别", () => {
+    expect(phrasesIn("The take over time was short.")).toEqual([]);
+  });
+
+  test("合并后的 token 应该使用第一个单词的位置", () => {
+    const tokens = detect("So he gave up.");
+    const phrase = tokens.find((t) => t.lemma === "give up");
+    expect(phrase?.text.beginOffset).toBe(6);
+  });
+
+  test("词典为空时应该原样返回", () => {
+    const tokens = analyzeEnglish("They gave up.");
+    expect(detectPhrases(tokens, new Map(), "They gave up.")).toBe(tokens);
+  });
+
+  test("文中形式应该保留原文的换行和连续空白", () => {
+    expect(phrasesIn("It pays off\nin  the long run.")).toEqual([
+      ["pays off", "pay off"],
+      ["in  the long run", "in the long run"],
+    ]);
+    expect(phrasesIn("They turned the\n  offer down.")).toEqual([
+      ["turned the\n  offer down", "turn down"],
+    ]);
+  });
+
+  test("多字节字符之后的短语应该按字节偏移截取", () => {
+    expect(phrasesIn("Café owners gave up.")).toEqual([
+      ["gave up", "give up"],
+    ]);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * 复习数据分析测试
+ */
+
+import {
+  classifyCardMaturity,
+  classifyReviewKind,
+  buildRetentionSeries,
+  buildAnswerDistribution,
+  buildReviewForecast,
+  type ReviewLogSample,
+} from "../src/utils/review-analytics";
+import { buildDayKeys, type DayBoundary } from "../src/utils/day-boundary";
+
+const utc: DayBoundary = { timezone: "UTC", dayStartHour: 0 };
+
+const reviewLog = (overrides: Partial<ReviewLogSample>): ReviewLogSample => ({
+  rating: "good",
+  reviewedAt: new Date("2025-01-15T10:00:00Z"),
+  prevCardState: "review",
+  prevRepetitions: 3,
+  prevLearningStep: null,
+  prevIntervalDays: 10,
+  ...overrides,
+});
+
+describe("classifyCardMaturity", () => {
+  const card = {
+    cardState: "review" as const,
+    repetitions: 3,
+    learningStep: null,
+    intervalDays: 10,
+  };
+
+  test("按卡片状态和间隔划分成熟度", () => {
+    expect(
+      classifyCardMaturity({ ...card, cardState: "new", repetitions: 0 })
+    ).toBe("new");
+    expect(classifyCardMaturity({ ...card, learningStep: 0 })).toBe(
+      "learning"
+    );
+    expect(classifyCardMaturity(card)).toBe("young");
+    expect(classifyCardMaturity({ ...card, intervalDays: 21 })).toBe("mature");
+  });
+
+  test("旧数据中已复习过的 new 卡片按复习卡片处理", () => {
+    expect(classifyCardMaturity({ ...card, cardState: "new" })).toBe("young");
+  });
+});
+
+describe("classifyReviewKind", () => {
+  test("新卡片和学习步骤中的答题归为 learning", () => {
+    expect(
+      classifyReviewKind(
+        reviewLog({ prevCardState: "new", prevRepetitions: 0 })
+      )
+    ).toBe("learning");
+    expect(classifyReviewKind(reviewLog({ prevLearningStep: 1 }))).toBe(
+      "learning"
+    );
+  });
+
+  test("复习阶段按答题前的间隔区分 young / mature", () => {
+    expect(classifyReviewKind(reviewLog({}))).toBe("young");
+    expect(classifyReviewKind(reviewLog({ prevIntervalDays: 30 }))).toBe(
+      "mature"
+    );
+  });
+});
+
+describe("buildRetentionSeries", () => {
+  const dayKeys = buildDayKeys("2025-01-14", 3);
+
+  test("按天统计复习阶段的保持率", () => {
+    const series = buildRetentionSeries(
+      [
+        reviewLog({}),
+        reviewLog({ rating: "again" }),
+        reviewLog({ prevIntervalDays: 30, rating: "hard" }),
+        // 学习步骤中的答题不计入保持率
+        reviewLog({ prevLearningStep: 0, rating: "again" }),
+      ],
+      dayKeys,
+      utc
+    );
+
+    expect(series.map((p) => p.date)).toEqual([
+      "2025-01-14",
+      "2025-01-15",
+      "2025-01-16",
+    ]);
+    expect(series[0].retention).toBeNull();
+    expect(series[1].young).toEqual({ passed: 1, total: 2 });
+    expect(series[1].mature).toEqual({ passed: 1, total: 1 });
+    expect(series[1].retention).toBeCloseTo(2 / 3);
+  });
+
+  test("忽略统计范围之外的日志", () => {
+    const series = buildRetentionSeries(
+      [reviewLog({ reviewedAt: new Date("2025-01-01T10:00:00Z") })],
+      dayKeys,
+      utc
+    );
+    expect(series.every((p) => p.retention === null)).toBe(true);
+  });
+});
+
+describe("buildAnswerDistribution", () => {
+  test("按阶段统计各评级次数", () => {
+    const distribution = buildAnswerDistribution([
+      reviewLog({ rating: "again" }),
+      reviewLog({ rating: "good" }),
+      reviewLog({ rating: "easy", prevIntervalDays: 40 }),
+      reviewLog({ rating: "hard", prevCardState: "new", prevRepetitions: 0 }),
+    ]);
+
+    expect(distribution.young).toEqual({ again: 1, hard: 0, good: 1, easy: 0 });
+    expect(distribution.mature.easy).toBe(1);
+    expect(distribution.learning.hard).toBe(1);
+  });
+});
+
+describe("buildRetentionSeries 时区", () => {
+  test("按用户时区划分复习日期", () => {
+    // UTC 1 月 15 日 20:00 是上海的 1 月 16 日凌晨
+    const series = buildRetentionSeries(
+      [reviewLog({ reviewedAt: new Date("2025-01-15T20:00:00Z") })],
+      buildDayKeys("2025-01-15", 2),
+      { timezone: "Asia/Shanghai", dayStartHour: 0 }
+    );
+    expect(series[0].young.total).toBe(0);
+    expect(series[1].young.total).toBe(1);
+  });
+});
+
+describe("buildReviewForecast", () => {
+  const dayKeys = buildDayKeys("2025-01-15", 3);
+
+  test("逾期卡片计入第一天，超出范围的不计入", () => {
+    const forecast = buildReviewForecast(
+      [
+        new Date("2025-01-10T08:00:00Z"), // 逾期
+        new Date("2025-01-15T23:00:00Z"), // 今天
+        new Date("2025-01-17T09:00:00Z"),
+        new Date("2025-01-17T18:00:00Z"),
+        new Date("2025-02-01T00:00:00Z"), // 超出范围
+      ],
+      dayKeys,
+      utc
+    );
+
+    expect(forecast.overdueCount).toBe(1);
+    expect(forecast.days).toEqual([
+      { date: "2025-01-15", dueCount: 2 },
+      { date: "2025-01-16", dueCount: 0 },
+      { date: "2025-01-17", dueCount: 2 },
+    ]);
+  });
+});
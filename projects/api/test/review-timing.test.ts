@@ -0,0 +1,59 @@
+/**
+ * 复习答题计时测试
+ */
+
+import {
+  getAnswerDuration,
+  getCompletedMinutes,
+  toMinutes,
+  MAX_ANSWER_MS,
+} from "../src/utils/review-timing";
+
+describe("getAnswerDuration", () => {
+  const shownAt = new Date("2025-01-15T10:00:00Z");
+
+  test("返回从展示到提交的毫秒数", () => {
+    expect(
+      getAnswerDuration(shownAt, new Date("2025-01-15T10:00:08.500Z"))
+    ).toBe(8500);
+  });
+
+  test("超过上限按上限计算", () => {
+    expect(getAnswerDuration(shownAt, new Date("2025-01-15T11:00:00Z"))).toBe(
+      MAX_ANSWER_MS
+    );
+  });
+
+  test("没有展示时间时返回 null，时钟回拨时为 0", () => {
+    expect(getAnswerDuration(null, shownAt)).toBeNull();
+    expect(getAnswerDuration(shownAt, new Date("2025-01-15T09:59:00Z"))).toBe(
+      0
+    );
+  });
+});
+
+describe("getCompletedMinutes", () => {
+  test("只在跨过整分钟时累加", () => {
+    expect(getCompletedMinutes(0, 30_000)).toBe(0);
+    expect(getCompletedMinutes(30_000, 40_000)).toBe(1);
+    expect(getCompletedMinutes(110_000, 60_000)).toBe(1);
+    expect(getCompletedMinutes(0, 125_000)).toBe(2);
+  });
+
+  test("多次累加的结果与一次性累加一致", () => {
+    let total = 0;
+    let minutes = 0;
+    for (const duration of [8_000, 12_000, 45_000, 3_000, 60_000, 20_000]) {
+      minutes += getCompletedMinutes(total, duration);
+      total += duration;
+    }
+    expect(minutes).toBe(Math.floor(total / 60_000));
+  });
+});
+
+describe("toMinutes", () => {
+  test("四舍五入到分钟", () => {
+    expect(toMinutes(89_000)).toBe(1);
+    expect(toMinutes(90_000)).toBe(2);
+  });
+});
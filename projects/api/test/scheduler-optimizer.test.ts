@@ -0,0 +1,166 @@
+/**
+ * 调度参数优化器测试
+ */
+
+import {
+  fitSchedulerParameters,
+  getIntervalModifier,
+  buildRetentionTradeoffs,
+  DEFAULT_FITTED_PARAMETERS,
+  MIN_OPTIMIZER_REVIEWS,
+  type OptimizerSample,
+} from "../src/utils/scheduler-optimizer";
+import { type DifficultyRating } from "../src/utils/anki-algorithm";
+
+const start = new Date("2025-01-01T00:00:00Z").getTime();
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * 生成一条按时复习的复习阶段日志
+ */
+function reviewLog(
+  cardId: number,
+  day: number,
+  rating: DifficultyRating,
+  overrides: Partial<OptimizerSample> = {}
+): OptimizerSample {
+  return {
+    cardId,
+    rating,
+    reviewedAt: new Date(start + day * DAY),
+    elapsedDays: 10,
+    prevIntervalDays: 10,
+    prevCardState: "review",
+    prevRepetitions: 3,
+    prevLearningStep: null,
+    newEaseFactor: 2.5,
+    schedulerType: "sm2",
+    intervalModifier: 1,
+    ...overrides,
+  };
+}
+
+/**
+ * 每张卡片一条日志，前 passed 张答对
+ */
+function singleReviews(total: number, passed: number): OptimizerSample[] {
+  return Array.from({ length: total }, (_, i) =>
+    reviewLog(i + 1, 0, i < passed ? "good" : "again")
+  );
+}
+
+describe("getIntervalModifier", () => {
+  test("目标保留率等于基准保留率时为 1", () => {
+    expect(getIntervalModifier(0.9, 0.9)).toBeCloseTo(1, 10);
+  });
+
+  test("目标保留率越高间隔越短", () => {
+    expect(getIntervalModifier(0.95, 0.9)).toBeLessThan(1);
+    expect(getIntervalModifier(0.8, 0.9)).toBeGreaterThan(1);
+  });
+
+  test("间隔系数有上下限", () => {
+    expect(getIntervalModifier(0.7, 0.99)).toBe(4);
+    expect(getIntervalModifier(0.97, 0.5)).toBe(0.25);
+  });
+});
+
+describe("fitSchedulerParameters", () => {
+  test("样本不足时不返回参数", () => {
+    const result = fitSchedulerParameters(singleReviews(10, 9));
+
+    expect(result.reviewCount).toBe(10);
+    expect(result.observedRetention).toBeCloseTo(0.9);
+    expect(result.parameters).toBeNull();
+  });
+
+  test("按时复习时基准保留率等于实际保留率", () => {
+    const result = fitSchedulerParameters(singleReviews(200, 160));
+
+    expect(result.parameters?.baselineRetention).toBeCloseTo(0.8, 2);
+  });
+
+  test("提前复习时按实际经过的天数换算", () => {
+    // 只过了半个间隔就有 80% 的保留率，按完整间隔复习时会更低
+    const samples = singleReviews(200, 160).map((s) => ({
+      ...s,
+      elapsedDays: 5,
+    }));
+    const result = fitSchedulerParameters(samples);
+
+    expect(result.parameters?.baselineRetention).toBeCloseTo(0.64, 2);
+  });
+
+  test("忽略学习步骤、FSRS 安排的间隔和首次复习", () => {
+    const samples = [
+      ...singleReviews(MIN_OPTIMIZER_REVIEWS, 90),
+      reviewLog(1000, 0, "again", { prevCardState: "learning" }),
+      reviewLog(1001, 0, "again", { schedulerType: "fsrs" }),
+      reviewLog(1002, 0, "again", { elapsedDays: 0 }),
+      reviewLog(1003, 0, "again", {
+        prevCardState: "new",
+        prevRepetitions: 0,
+      }),
+    ];
+
+    expect(fitSchedulerParameters(samples).reviewCount).toBe(
+      MIN_OPTIMIZER_REVIEWS
+    );
+  });
+
+  test("Hard 之后的复习记得更牢时增大 Hard 倍数", () => {
+    const samples: OptimizerSample[] = [];
+    for (let card = 1; card <= 100; card++) {
+      // 第一次复习答 Hard，之后的复习全部答对
+      samples.push(reviewLog(card, 0, "hard"));
+      samples.push(reviewLog(card, 10, "good"));
+    }
+    // 其他卡片保留率 80%
+    samples.push(
+      ...singleReviews(100, 80).map((s) => ({ ...s, cardId: s.cardId + 1000 }))
+    );
+
+    const result = fitSchedulerParameters(samples);
+    expect(result.parameters?.hardMultiplier).toBeGreaterThan(
+      DEFAULT_FITTED_PARAMETERS.hardMultiplier
+    );
+    // Easy 样本不足，保持不变
+    expect(result.parameters?.easyBonus).toBe(
+      DEFAULT_FITTED_PARAMETERS.easyBonus
+    );
+  });
+
+  test("初始难度系数取成熟卡片难度系数的中位数", () => {
+    const samples = singleReviews(200, 180).map((s, i) => ({
+      ...s,
+      prevIntervalDays: 30,
+      elapsedDays: 30,
+      newEaseFactor: i % 2 === 0 ? 2.1 : 2.3,
+    }));
+
+    expect(fitSchedulerParameters(samples).parameters?.startingEase).toBe(
+      2.2
+    );
+  });
+});
+
+describe("buildRetentionTradeoffs", () => {
+  const tradeoffs = buildRetentionTradeoffs(0.9, 1);
+
+  test("目标保留率 90% 的复习量为基准", () => {
+    const reference = tradeoffs.find((t) => t.desiredRetention === 0.9);
+    expect(reference?.relativeWorkload).toBe(1);
+    expect(reference?.intervalModifier).toBe(1);
+  });
+
+  test("目标保留率越高复习量越大", () => {
+    for (let i = 1; i < tradeoffs.length; i++) {
+      expect(tradeoffs[i].relativeWorkload).toBeGreaterThan(
+        tradeoffs[i - 1].relativeWorkload
+      );
+      expect(tradeoffs[i].intervalModifier).toBeLessThan(
+        tradeoffs[i - 1].intervalModifier
+      );
+    }
+  });
+});
@@ -5,6 +5,8 @@
 import {
   extractSentenceFromArticle,
   batchExtractSentences,
+  createClozeSentence,
+  CLOZE_BLANK,
 } from "../src/utils/sentence-extractor";
 
 describe("extractSentenceFromArticle", () => {
@@ -353,3 +355,40 @@ describe("extractSentenceFromArticle - 扩展边界测试", () => {
     expect(result).toContain("important");
   });
 });
+
+describe("createClozeSentence", () => {
+  test("应该挖空文中形态的单词", () => {
+    const result = createClozeSentence("She is running fast.", [
+      "running",
+      "run",
+    ]);
+    expect(result).toBe(`She is ${CLOZE_BLANK} fast.`);
+  });
+
+  test("应该不区分大小写并挖空所有出现的位置", () => {
+    const result = createClozeSentence("Time flies. Time waits for no one.", [
+      "time",
+    ]);
+    expect(result).toBe(
+      `${CLOZE_BLANK} flies. ${CLOZE_BLANK} waits for no one.`
+    );
+  });
+
+  test("文中形态未命中时应该按原形匹配词形变化", () => {
+    const result = createClozeSentence("AI helps developers write code.", [
+      "",
+      "develop",
+    ]);
+    expect(result).toBe(`AI helps ${CLOZE_BLANK} write code.`);
+  });
+
+  test("不应该挖空单词的一部分", () => {
+    const result = createClozeSentence("The category is wide.", ["cat"]);
+    expect(result).toBeNull();
+  });
+
+  test("应该处理空输入", () => {
+    expect(createClozeSentence("", ["word"])).toBeNull();
+    expect(createClozeSentence("Some sentence.", [])).toBeNull();
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * 学习连续天数计算测试
+ */
+
+import { calculateStreaks } from "../src/utils/streak";
+import { shiftDayKey } from "../src/utils/day-boundary";
+
+describe("calculateStreaks", () => {
+  const today = "2025-01-15";
+  const day = (offset: number) => shiftDayKey(today, offset);
+
+  test("没有学习记录时全部为 0", () => {
+    expect(calculateStreaks([], today)).toEqual({
+      studyDays: 0,
+      currentStreak: 0,
+      longestStreak: 0,
+    });
+  });
+
+  test("包含今天的连续学习", () => {
+    const result = calculateStreaks([day(0), day(-1), day(-2)], today);
+    expect(result.currentStreak).toBe(3);
+    expect(result.longestStreak).toBe(3);
+  });
+
+  test("今天还没学习时从昨天开始计算", () => {
+    const result = calculateStreaks([day(-1), day(-2)], today);
+    expect(result.currentStreak).toBe(2);
+  });
+
+  test("昨天也没学习时当前连续天数中断", () => {
+    const result = calculateStreaks([day(-2), day(-3)], today);
+    expect(result.currentStreak).toBe(0);
+    expect(result.longestStreak).toBe(2);
+  });
+
+  test("统计历史最长连续天数和去重后的学习天数", () => {
+    const result = calculateStreaks(
+      [day(-10), day(-9), day(-8), day(-7), day(-3), day(0), day(0)],
+      today
+    );
+    expect(result.studyDays).toBe(6);
+    expect(result.longestStreak).toBe(4);
+    expect(result.currentStreak).toBe(1);
+  });
+
+  test("跨月份的连续天数", () => {
+    const result = calculateStreaks(["2025-01-31", "2025-02-01"], "2025-02-01");
+    expect(result.currentStreak).toBe(2);
+  });
+});
@@ -8,6 +8,7 @@ import RegisterPage from "@/pages/register";
 import ForgotPasswordPage from "@/pages/forgot-password";
 import ResetPasswordPage from "@/pages/reset-password";
 import ReviewPage from "@/pages/review";
+import StatisticsPage from "@/pages/statistics";
 import CheckoutPage from "@/pages/checkout";
 import PaymentSuccessPage from "@/pages/payment-success";
 import PaymentCancelPage from "@/pages/payment-cancel";
@@ -39,6 +40,7 @@ function App() {
           <Route path="/dashboard" element={<DashboardPage />} />
           <Route path="/vocabulary" element={<VocabularyPage />} />
           <Route path="/review" element={<ReviewPage />} />
+          <Route path="/statistics" element={<StatisticsPage />} />
           <Route path="/checkout" element={<CheckoutPage />} />
           <Route path="/subscription" element={<SubscriptionPage />} />
         </Route>
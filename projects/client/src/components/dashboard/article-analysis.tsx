@@ -24,6 +24,12 @@ import {
   showToastWarning,
   showToastSuccess,
 } from "@/utils/toast";
+import { readSSE } from "@/utils/sse";
+import type {
+  ExplainStreamBatchEvent,
+  ExplainStreamDoneEvent,
+  ExplainStreamErrorEvent,
+} from "../../../../api/src/route/text.route";
 
 interface UnfamiliarWord {
   word: string; // 单词在文中的形式
@@ -55,6 +61,11 @@ export default function ArticleAnalysis() {
   const [explanations, setExplanations] = useState<Explanation[]>([]);
   const [selectedWords, setSelectedWords] = useState(new Set<string>());
   const [isLoadingExplanations, setIsLoadingExplanations] = useState(false);
+  // 流式生成解释的进度（已完成批次 / 总批次）
+  const [explainProgress, setExplainProgress] = useState<{
+    done: number;
+    total: number;
+  } | null>(null);
   const [isSaving, setIsSaving] = useState(false);
 
   // 配额信息
@@ -273,7 +284,7 @@ export default function ArticleAnalysis() {
     }
   };
 
-  // 获取AI解释
+  // 获取AI解释（流式：每批解释生成后立即展示）
   const handleGetExplanations = async () => {
     if (unknownWords.length === 0) {
       showToastWarning("请至少保留一个词汇", 1000);
@@ -281,11 +292,14 @@ export default function ArticleAnalysis() {
     }
 
     setIsLoadingExplanations(true);
+    setExplanations([]);
+    setSelectedWords(new Set());
+    setExplainProgress(null);
 
     try {
-      // 调用后端 AI API（新PRD流程）
+      // 调用后端 AI 流式接口
       // 发送单词在文中的形式，同时包含原型
-      const response = await apiClient.api.text.explain.$post({
+      const response = await apiClient.api.text.explain.stream.$post({
         json: {
           unfamiliarWords: unknownWords.map((w) => ({
             word: w.word, // 单词在文中的形式
@@ -302,58 +316,47 @@ export default function ArticleAnalysis() {
         );
       }
 
-      const result = await response.json();
-      console.log(result);
-
-      if (
-        result &&
-        typeof result === "object" &&
-        "success" in result &&
-        result.success
-      ) {
-        const data = result as {
-          success: true;
-          data: {
-            results: Array<{
-              word: string; // 单词在文章中的形式
-              lemma: string; // 单词原型
-              pos?: string;
-              meaningText: string; // 在上下文中的含义（中文）
-              exampleSentence: string; // 单词在上下文中的句子（必填）
-              type: "new" | "extend" | "existing";
-              isExisting: boolean;
-              learnedMeanings?: Array<{
-                id: number;
-                meaningText: string;
-                pos?: string;
-              }>;
-            }>;
-            isFallback?: boolean; // 是否为降级数据
-          };
-        };
-
-        // 检查是否为降级数据
-        if (data.data.isFallback) {
-          showToastWarning(
-            "AI 服务暂时不可用，已返回基础单词列表。请稍后重试或联系管理员。",
-            5000
-          );
+      const outcome = { fallbackBatches: 0, error: "" };
+
+      await readSSE(response, ({ event, data }) => {
+        if (event === "batch") {
+          const batch = JSON.parse(data) as ExplainStreamBatchEvent;
+
+          // 重要：展示所有解释（包括 isExisting: true 的单词）
+          // 这些单词需要在UI中展示，让用户了解AI的判断结果
+          setExplanations((prev) => [...prev, ...batch.results]);
+
+          // 默认选择：new 和 extend 类型默认选中，existing 类型不选中
+          setSelectedWords((prev) => {
+            const next = new Set(prev);
+            for (const e of batch.results) {
+              if (!e.isExisting) next.add(e.word);
+            }
+            return next;
+          });
+          // 批次并发生成、按完成顺序推送，按已收到的批次数计算进度
+          setExplainProgress((prev) => ({
+            done: (prev?.done ?? 0) + 1,
+            total: batch.total,
+          }));
+        } else if (event === "done") {
+          const done = JSON.parse(data) as ExplainStreamDoneEvent;
+          outcome.fallbackBatches = done.fallbackBatches;
+        } else if (event === "error") {
+          outcome.error = (JSON.parse(data) as ExplainStreamErrorEvent).error;
         }
+      });
 
-        // 重要：设置所有解释（包括 isExisting: true 的单词）
-        // 这些单词需要在UI中展示，让用户了解AI的判断结果
-        setExplanations(data.data.results);
+      if (outcome.error) {
+        throw new Error(outcome.error);
+      }
 
-        // 默认选择：new 和 extend 类型默认选中，existing 类型不选中
-        // 注意：existing 类型的单词仍然会在UI中显示，只是不可勾选
-        const defaultSelected = new Set(
-          data.data.results
-            .filter((e) => !e.isExisting) // 只选择 isExisting=false 的
-            .map((e) => e.word)
+      // 部分批次为降级数据（AI 调用失败）
+      if (outcome.fallbackBatches > 0) {
+        showToastWarning(
+          "部分单词的 AI 服务暂时不可用，已返回基础单词列表。请稍后重试或联系管理员。",
+          5000
         );
-        setSelectedWords(defaultSelected);
-      } else {
-        throw new Error("生成解释失败");
       }
     } catch (error) {
       console.error("获取解释失败:", error);
@@ -362,6 +365,7 @@ export default function ArticleAnalysis() {
       );
     } finally {
       setIsLoadingExplanations(false);
+      setExplainProgress(null);
     }
   };
 
@@ -653,7 +657,11 @@ export default function ArticleAnalysis() {
                   className="w-full"
                 >
                   <Sparkles className="w-4 h-4 mr-2" />
-                  {isLoadingExplanations ? "生成中..." : "获取 AI 解释"}
+                  {isLoadingExplanations
+                    ? explainProgress
+                      ? `生成中 (${explainProgress.done}/${explainProgress.total})...`
+                      : "生成中..."
+                    : "获取 AI 解释"}
                 </Button>
               </CardContent>
             </>
@@ -718,6 +726,10 @@ export default function ArticleAnalysis() {
                 selectedWords={selectedWords}
                 toggleWordSelection={toggleWordSelection}
               />
+            ) : isLoadingExplanations ? (
+              <div className="h-full flex items-center justify-center text-sm text-muted-foreground">
+                AI 正在生成解释，完成一批就会显示一批...
+              </div>
             ) : (
               <UsageGuide />
             )}
@@ -729,7 +741,11 @@ export default function ArticleAnalysis() {
               <div className="flex gap-2 w-full">
                 <Button
                   onClick={handleAddToVocabulary}
-                  disabled={selectedWords.size === 0 || isSaving}
+                  disabled={
+                    selectedWords.size === 0 ||
+                    isSaving ||
+                    isLoadingExplanations
+                  }
                   className="flex-1"
                 >
                   {isSaving
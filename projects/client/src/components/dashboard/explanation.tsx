@@ -1,7 +1,9 @@
 import { Checkbox } from "@radix-ui/react-checkbox";
+import { Volume2 } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { highlightWordInSentence } from "@/utils/text-utils";
+import { speak, isSpeechSupported } from "@/utils/speech";
 
 interface ExplanationItem {
   word: string; // 单词在文章中的形式（用于展示）
@@ -95,6 +97,19 @@ export default function Explanation({
                       </span>
                     )}
                   </h3>
+                  {isSpeechSupported() && (
+                    // 点击朗读时不切换选中状态
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        speak(item.word);
+                      }}
+                      className="p-1 rounded text-muted-foreground hover:text-foreground hover:scale-110 transition-all"
+                      title="朗读单词"
+                    >
+                      <Volume2 className="w-3.5 h-3.5" />
+                    </button>
+                  )}
                   {getTypeBadge(item.type)}
                 </div>
 
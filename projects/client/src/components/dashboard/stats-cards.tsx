@@ -1,10 +1,18 @@
 import { BookOpen, RotateCw, CheckCircle2, Calendar } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
+import {
+  useLearningStats,
+  type LearningStats,
+} from "@/hooks/use-learning-stats";
 
-const statsData = [
+// 加载中或加载失败时显示占位符
+const PLACEHOLDER = "--";
+
+const getStatsData = (stats: LearningStats | null) => [
   {
     label: "今日学习",
-    value: "12",
+    value: stats ? String(stats.todayNewWords) : PLACEHOLDER,
+    hint: null,
     icon: BookOpen,
     gradient: "from-violet-500 to-purple-500",
     bgGradient: "from-violet-100 to-purple-100",
@@ -12,7 +20,8 @@ const statsData = [
   },
   {
     label: "待复习",
-    value: "8",
+    value: stats ? String(stats.dueCount) : PLACEHOLDER,
+    hint: null,
     icon: RotateCw,
     gradient: "from-orange-500 to-red-500",
     bgGradient: "from-orange-100 to-red-100",
@@ -20,7 +29,11 @@ const statsData = [
   },
   {
     label: "掌握词汇",
-    value: "328",
+    // 复习间隔达到阈值的含义 + 已认识的词
+    value: stats
+      ? String(stats.masteredCount + stats.knownWordsCount)
+      : PLACEHOLDER,
+    hint: null,
     icon: CheckCircle2,
     gradient: "from-green-500 to-emerald-500",
     bgGradient: "from-green-100 to-emerald-100",
@@ -28,7 +41,10 @@ const statsData = [
   },
   {
     label: "学习天数",
-    value: "15",
+    value: stats ? String(stats.studyDays) : PLACEHOLDER,
+    hint: stats
+      ? `连续 ${stats.currentStreak} 天 · 最长 ${stats.longestStreak} 天`
+      : null,
     icon: Calendar,
     gradient: "from-blue-500 to-indigo-500",
     bgGradient: "from-blue-100 to-indigo-100",
@@ -37,6 +53,9 @@ const statsData = [
 ];
 
 export function StatsCards() {
+  const { stats } = useLearningStats();
+  const statsData = getStatsData(stats);
+
   return (
     <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 lg:gap-6 mb-6 lg:mb-8">
       {statsData.map((stat, index) => {
@@ -56,6 +75,11 @@ export function StatsCards() {
                   <p className="text-3xl lg:text-4xl font-bold bg-linear-to-r from-foreground to-foreground/80 bg-clip-text text-transparent">
                     {stat.value}
                   </p>
+                  {stat.hint && (
+                    <p className="text-xs text-muted-foreground">
+                      {stat.hint}
+                    </p>
+                  )}
                 </div>
 
                 {/* Right: Icon */}
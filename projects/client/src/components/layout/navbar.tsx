@@ -30,6 +30,7 @@ const navLinks = [
   { label: "新建", href: "/dashboard" },
   { label: "词汇本", href: "/vocabulary" },
   { label: "复习", href: "/review" },
+  { label: "统计", href: "/statistics" },
 ];
 
 export function Navbar() {
@@ -1,5 +1,15 @@
+import { formatKey, type KeyBindings } from "@/utils/review-hotkeys";
+
 type DifficultyRating = "again" | "hard" | "good" | "easy";
 
+// 快捷键设置加载前展示的默认按键
+const DEFAULT_RATING_KEYS: Pick<KeyBindings, DifficultyRating> = {
+  again: "1",
+  hard: "2",
+  good: "3",
+  easy: "4",
+};
+
 interface AnswerButtonsProps {
   onAnswer: (rating: DifficultyRating) => void;
   intervals?: {
@@ -8,6 +18,8 @@ interface AnswerButtonsProps {
     good: string;
     easy: string;
   };
+  suggestedRating?: DifficultyRating; // 输入模式下服务端建议的评级（高亮显示）
+  keyBindings?: Pick<KeyBindings, DifficultyRating>; // 用户设置的快捷键
 }
 
 export default function AnswerButtons({
@@ -18,6 +30,8 @@ export default function AnswerButtons({
     good: "1天",
     easy: "4天",
   },
+  suggestedRating,
+  keyBindings = DEFAULT_RATING_KEYS,
 }: AnswerButtonsProps) {
   const buttons = [
     {
@@ -96,12 +110,19 @@ export default function AnswerButtons({
             <button
               key={btn.rating}
               onClick={() => onAnswer(btn.rating)}
-              className={`answer-btn py-6 rounded-2xl font-bold text-white relative shadow-lg bg-linear-to-br ${btn.gradient} ${btn.shadow} hover:shadow-xl`}
+              className={`answer-btn py-6 rounded-2xl font-bold text-white relative shadow-lg bg-linear-to-br ${btn.gradient} ${btn.shadow} hover:shadow-xl ${
+                suggestedRating === btn.rating
+                  ? "ring-4 ring-primary ring-offset-2 ring-offset-background"
+                  : ""
+              }`}
             >
               <div className="relative z-10">
                 <div className="text-xs opacity-90 mb-1">{btn.label}</div>
                 <div className="text-xl">{btn.text}</div>
-                <div className="text-xs opacity-90 mt-1">{btn.interval}</div>
+                <div className="text-xs opacity-90 mt-1">
+                  {btn.interval}
+                  {suggestedRating === btn.rating && " · 建议"}
+                </div>
               </div>
             </button>
           ))}
@@ -110,11 +131,15 @@ export default function AnswerButtons({
         {/* 键盘快捷键提示 */}
         <div className="mt-6 text-center text-sm text-muted-foreground">
           快捷键:
-          <kbd className="px-2 py-1 rounded bg-muted mx-1">1</kbd>
-          Again ·<kbd className="px-2 py-1 rounded bg-muted mx-1">2</kbd>
-          Hard ·<kbd className="px-2 py-1 rounded bg-muted mx-1">3</kbd>
-          Good ·<kbd className="px-2 py-1 rounded bg-muted mx-1">4</kbd>
-          Easy
+          {buttons.map((btn, index) => (
+            <span key={btn.rating}>
+              {index > 0 && " ·"}
+              <kbd className="px-2 py-1 rounded bg-muted mx-1">
+                {formatKey(keyBindings[btn.rating])}
+              </kbd>
+              {btn.text}
+            </span>
+          ))}
         </div>
       </div>
     </>
@@ -0,0 +1,260 @@
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiClient } from "@/lib/api-client";
+import { extractApiData, getErrorMessage } from "@/utils/api-helpers";
+import { showToastError } from "@/utils/toast";
+import type {
+  CustomSessionResponse,
+  CustomSessionArticlesResponse,
+} from "../../../../api/src/route/review.route";
+
+type CustomSession = CustomSessionResponse["data"];
+type CustomSessionType = NonNullable<CustomSession["filter"]>["type"];
+type CustomSessionArticle =
+  CustomSessionArticlesResponse["data"]["articles"][number];
+
+interface CustomSessionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onStart: (session: CustomSession) => void;
+}
+
+// 会话类型（默认天数和是否重新调度与后端默认值一致）
+const SESSION_TYPE_OPTIONS: {
+  value: CustomSessionType;
+  label: string;
+  description: string;
+  defaultDays: number;
+  reschedule: boolean;
+}[] = [
+  {
+    value: "failed",
+    label: "答错的卡片",
+    description: "最近几天内答错过的卡片",
+    defaultDays: 7,
+    reschedule: false,
+  },
+  {
+    value: "recent",
+    label: "新加入的单词",
+    description: "最近几天内保存的单词",
+    defaultDays: 3,
+    reschedule: false,
+  },
+  {
+    value: "ahead",
+    label: "提前复习",
+    description: "未来几天内到期的卡片",
+    defaultDays: 1,
+    reschedule: true,
+  },
+  {
+    value: "article",
+    label: "按文章",
+    description: "某篇文章中保存的所有单词",
+    defaultDays: 0,
+    reschedule: false,
+  },
+];
+
+export function CustomSessionDialog({
+  open,
+  onOpenChange,
+  onStart,
+}: CustomSessionDialogProps) {
+  const [type, setType] = useState<CustomSessionType>("failed");
+  const [days, setDays] = useState("7");
+  const [articleId, setArticleId] = useState("");
+  const [reschedule, setReschedule] = useState(false);
+  const [articles, setArticles] = useState<CustomSessionArticle[] | null>(
+    null
+  );
+  const [isStarting, setIsStarting] = useState(false);
+
+  // 选择"按文章"时加载文章列表（只加载一次）
+  useEffect(() => {
+    if (!open || type !== "article" || articles) return;
+
+    extractApiData<CustomSessionArticlesResponse>(
+      apiClient.api.review["custom-session"].articles.$get()
+    )
+      .then((data) => {
+        setArticles(data.articles);
+        if (data.articles.length > 0) {
+          setArticleId(String(data.articles[0].id));
+        }
+      })
+      .catch((error) => {
+        console.error("加载文章列表失败:", getErrorMessage(error));
+        showToastError("加载文章列表失败");
+      });
+  }, [open, type, articles]);
+
+  // 切换类型时恢复该类型的默认值
+  const handleTypeChange = (value: CustomSessionType) => {
+    const option = SESSION_TYPE_OPTIONS.find((o) => o.value === value)!;
+    setType(value);
+    setDays(String(option.defaultDays));
+    setReschedule(option.reschedule);
+  };
+
+  const handleStart = async () => {
+    let filter: NonNullable<CustomSession["filter"]>;
+    if (type === "article") {
+      if (!articleId) {
+        showToastError("请选择文章");
+        return;
+      }
+      filter = { type, articleId: Number(articleId) };
+    } else {
+      const dayCount = Number(days);
+      if (!Number.isInteger(dayCount) || dayCount < 1 || dayCount > 365) {
+        showToastError("天数需为 1 - 365 之间的整数");
+        return;
+      }
+      filter = { type, days: dayCount };
+    }
+
+    setIsStarting(true);
+    try {
+      const session = await extractApiData<CustomSessionResponse>(
+        apiClient.api.review["custom-session"].$post({
+          json: { filter, reschedule },
+        })
+      );
+      onOpenChange(false);
+      onStart(session);
+    } catch (error) {
+      // 没有符合条件的卡片时后端返回 404 和提示信息
+      showToastError(getErrorMessage(error));
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const selectedOption = SESSION_TYPE_OPTIONS.find((o) => o.value === type)!;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>自定义学习</DialogTitle>
+          <DialogDescription>
+            筛选一批卡片集中学习，不受每日上限限制
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label>学习内容</Label>
+            <Select
+              value={type}
+              onValueChange={(value) =>
+                handleTypeChange(value as CustomSessionType)
+              }
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SESSION_TYPE_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {selectedOption.description}
+            </p>
+          </div>
+
+          {type === "article" ? (
+            <div className="space-y-2">
+              <Label>文章</Label>
+              {articles && articles.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  还没有从文章中保存过单词
+                </p>
+              ) : (
+                <Select
+                  value={articleId}
+                  onValueChange={setArticleId}
+                  disabled={!articles}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="加载中..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {articles?.map((article) => (
+                      <SelectItem key={article.id} value={String(article.id)}>
+                        {article.title || "未命名文章"}（{article.wordCount}{" "}
+                        个单词）
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="customSessionDays">
+                {type === "ahead" ? "提前天数" : "最近天数"}
+              </Label>
+              <Input
+                id="customSessionDays"
+                type="number"
+                min={1}
+                max={365}
+                value={days}
+                onChange={(e) => setDays(e.target.value)}
+              />
+            </div>
+          )}
+
+          <div className="flex items-start gap-2.5">
+            <Checkbox
+              id="customSessionReschedule"
+              checked={reschedule}
+              onCheckedChange={(checked) => setReschedule(checked === true)}
+              className="mt-0.5"
+            />
+            <div className="space-y-1">
+              <Label htmlFor="customSessionReschedule">更新复习计划</Label>
+              <p className="text-xs text-muted-foreground">
+                不勾选时只作为练习，答题不会改变卡片的下次复习时间
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            取消
+          </Button>
+          <Button onClick={handleStart} disabled={isStarting}>
+            {isStarting ? "创建中..." : "开始学习"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,138 @@
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { apiClient } from "@/lib/api-client";
+import { extractApiData, getErrorMessage } from "@/utils/api-helpers";
+import { showToastSuccess, showToastError } from "@/utils/toast";
+import type { GetNextCardResponse } from "../../../../api/src/route/review.route";
+import type { UpdateLearningWordResponse } from "../../../../api/src/route/user-learned-meanings.route";
+
+type ReviewCard = NonNullable<GetNextCardResponse["data"]["card"]>;
+
+interface EditCardDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  card: ReviewCard;
+  onSaved: (card: ReviewCard) => void;
+}
+
+/**
+ * 复习中编辑当前卡片的含义、词性和例句
+ *
+ * 修改的是卡片所属的含义，同一含义的其他模板卡片一起更新
+ */
+export function EditCardDialog({
+  open,
+  onOpenChange,
+  card,
+  onSaved,
+}: EditCardDialogProps) {
+  const [meaning, setMeaning] = useState("");
+  const [pos, setPos] = useState("");
+  const [sentence, setSentence] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setMeaning(card.meaning);
+    setPos(card.pos || "");
+    setSentence(card.sentence || "");
+  }, [open, card]);
+
+  const handleSave = async () => {
+    if (!meaning.trim()) {
+      showToastError("含义不能为空");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await extractApiData<UpdateLearningWordResponse>(
+        apiClient.api["learning-words"].update.$put({
+          json: {
+            id: card.meaningId,
+            word: card.word,
+            meaningText: meaning.trim(),
+            pos: pos.trim() || null,
+            exampleSentence: sentence.trim() || null,
+          },
+        })
+      );
+
+      onSaved({
+        ...card,
+        meaning: meaning.trim(),
+        pos: pos.trim() || undefined,
+        sentence: sentence.trim() || undefined,
+      });
+      showToastSuccess("卡片已更新");
+      onOpenChange(false);
+    } catch (error) {
+      console.error("更新卡片失败:", getErrorMessage(error));
+      showToastError("保存失败，请重试");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>编辑卡片：{card.word}</DialogTitle>
+          <DialogDescription>
+            修改后同一含义的所有卡片一起更新，不影响复习进度
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="editCardMeaning">含义</Label>
+            <Input
+              id="editCardMeaning"
+              value={meaning}
+              onChange={(e) => setMeaning(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="editCardPos">词性</Label>
+            <Input
+              id="editCardPos"
+              value={pos}
+              onChange={(e) => setPos(e.target.value)}
+              placeholder="例如：n. / v. / adj."
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="editCardSentence">例句</Label>
+            <Textarea
+              id="editCardSentence"
+              value={sentence}
+              onChange={(e) => setSentence(e.target.value)}
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            取消
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "保存中..." : "保存"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
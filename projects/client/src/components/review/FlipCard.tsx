@@ -1,42 +1,92 @@
-import { useState, useEffect } from "react";
+import { useEffect } from "react";
 import { Volume2, Eye } from "lucide-react";
-import { toast } from "sonner";
+import { speak, stopSpeaking, isSpeechSupported } from "@/utils/speech";
 
 interface CardData {
   word: string;
-  pronunciation?: string;
+  pronunciation?: string; // IPA 音标（词汇表中没有时为空）
   pos?: string; // 词性
   meaning: string;
   sentence?: string;
   highlightedWord: string;
   type: "new" | "extend";
   learnedMeanings?: string[];
+  template: "recognition" | "reverse" | "cloze"; // 卡片模板
+  clozeSentence?: string; // 挖空后的例句（仅 cloze 模板）
 }
 
 interface FlipCardProps {
   cardData: CardData;
-  onFlip?: () => void;
+  isFlipped: boolean; // 是否已翻到背面（由父组件控制，支持快捷键翻转）
+  onFlip: () => void;
+  autoPlayAudio?: boolean; // 翻转时自动朗读单词
 }
 
-export default function FlipCard({ cardData, onFlip }: FlipCardProps) {
-  const [isFlipped, setIsFlipped] = useState(false);
-
-  // 当卡片数据变化时，重置翻转状态
+export default function FlipCard({
+  cardData,
+  isFlipped,
+  onFlip,
+  autoPlayAudio = false,
+}: FlipCardProps) {
+  // 切换卡片时停止上一张卡片的朗读
   useEffect(() => {
-    setIsFlipped(false);
+    stopSpeaking();
   }, [cardData]);
 
+  // 翻到背面时自动朗读（背面才显示单词，正面朗读会泄露答案）
+  useEffect(() => {
+    if (isFlipped && autoPlayAudio) {
+      speak(cardData.word);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isFlipped]);
+
   const handleFlip = () => {
-    setIsFlipped(true);
-    onFlip?.();
+    if (!isFlipped) onFlip();
   };
 
-  // TODO: 实现音频播放
   const handlePlayAudio = () => {
-    toast.warning("播放音频功能暂未实现");
-    // 后续实现: 调用 TTS API 或播放预录音频
+    speak(cardData.word);
   };
 
+  // 看中文含义回忆单词（reverse 模板；cloze 缺少挖空例句时也使用）
+  const renderMeaningPrompt = () => (
+    <div className="space-y-3">
+      {cardData.pos && (
+        <span className="text-lg text-muted-foreground">{cardData.pos}</span>
+      )}
+      <p className="text-2xl md:text-3xl leading-relaxed font-medium">
+        {cardData.meaning}
+      </p>
+    </div>
+  );
+
+  // 例句挖空，含义作为提示（cloze 模板）
+  const renderClozePrompt = (clozeSentence: string) => (
+    <div className="space-y-4">
+      <p className="text-2xl md:text-3xl leading-relaxed font-light">
+        {clozeSentence}
+      </p>
+      <p className="text-base text-muted-foreground">
+        提示：{cardData.meaning}
+      </p>
+    </div>
+  );
+
+  // 根据卡片模板渲染正面内容
+  const renderFront = () => {
+    if (cardData.template === "cloze" && cardData.clozeSentence) {
+      return renderClozePrompt(cardData.clozeSentence);
+    }
+    if (cardData.template !== "recognition") {
+      return renderMeaningPrompt();
+    }
+    return renderHighlightedSentence();
+  };
+
+  const frontHint =
+    cardData.template === "recognition" ? "点击查看释义" : "回忆单词后点击查看";
+
   // 高亮句子中的单词
   const renderHighlightedSentence = () => {
     const { sentence, highlightedWord } = cardData;
@@ -116,7 +166,7 @@ export default function FlipCard({ cardData, onFlip }: FlipCardProps) {
             className="card-front p-10 flex flex-col justify-between cursor-pointer"
             onClick={handleFlip}
           >
-            <div className="self-start">
+            <div className="self-start flex items-center gap-2">
               <span
                 className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold ${
                   cardData.type === "new"
@@ -126,14 +176,19 @@ export default function FlipCard({ cardData, onFlip }: FlipCardProps) {
               >
                 {cardData.type === "new" ? "新单词" : "扩展含义"}
               </span>
+              {cardData.template !== "recognition" && (
+                <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold bg-muted text-muted-foreground">
+                  {cardData.template === "reverse" ? "看义忆词" : "例句填空"}
+                </span>
+              )}
             </div>
 
-            <div className="text-center">{renderHighlightedSentence()}</div>
+            <div className="text-center">{renderFront()}</div>
 
             <div className="text-center">
               <div className="inline-flex items-center gap-2 px-6 py-3 rounded-full bg-muted">
                 <Eye className="w-5 h-5 text-primary" />
-                <span className="font-medium">点击查看释义</span>
+                <span className="font-medium">{frontHint}</span>
               </div>
             </div>
           </div>
@@ -146,17 +201,18 @@ export default function FlipCard({ cardData, onFlip }: FlipCardProps) {
                   <h2 className="text-4xl font-bold mb-2">{cardData.word}</h2>
                   <div className="flex items-center gap-3">
                     {cardData.pronunciation && (
-                      <>
-                        <span className="text-lg text-muted-foreground">
-                          {cardData.pronunciation}
-                        </span>
-                        <button
-                          onClick={handlePlayAudio}
-                          className="p-2 rounded-lg hover:scale-110 transition-transform bg-muted"
-                        >
-                          <Volume2 className="w-4 h-4" />
-                        </button>
-                      </>
+                      <span className="text-lg text-muted-foreground">
+                        {cardData.pronunciation}
+                      </span>
+                    )}
+                    {isSpeechSupported() && (
+                      <button
+                        onClick={handlePlayAudio}
+                        className="p-2 rounded-lg hover:scale-110 transition-transform bg-muted"
+                        title="朗读单词"
+                      >
+                        <Volume2 className="w-4 h-4" />
+                      </button>
                     )}
                   </div>
                 </div>
@@ -0,0 +1,151 @@
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { apiClient } from "@/lib/api-client";
+import { extractApiData, getErrorMessage } from "@/utils/api-helpers";
+import { showToastSuccess, showToastError } from "@/utils/toast";
+import {
+  REVIEW_ACTION_LABELS,
+  formatKey,
+  getEventKey,
+  type KeyBindings,
+  type ReviewAction,
+} from "@/utils/review-hotkeys";
+import type { ReviewSettingsResponse } from "../../../../api/src/route/review.route";
+
+interface KeyboardShortcutsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  bindings: KeyBindings;
+  onSaved: (bindings: KeyBindings) => void;
+}
+
+export function KeyboardShortcutsDialog({
+  open,
+  onOpenChange,
+  bindings,
+  onSaved,
+}: KeyboardShortcutsDialogProps) {
+  // 正在修改的操作（等待用户按下新按键）
+  const [recording, setRecording] = useState<ReviewAction | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) setRecording(null);
+  }, [open]);
+
+  const saveBindings = async (next: Partial<KeyBindings>) => {
+    setIsSaving(true);
+    try {
+      const settings = await extractApiData<ReviewSettingsResponse>(
+        apiClient.api.review.settings.$patch({
+          json: { keyBindings: next },
+        })
+      );
+      onSaved(settings.keyBindings);
+      showToastSuccess("快捷键已保存");
+    } catch (error) {
+      console.error("保存快捷键失败:", getErrorMessage(error));
+      showToastError("保存失败，请重试");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // 录制新按键：捕获阶段拦截，避免触发弹窗和复习界面的其他快捷键
+  useEffect(() => {
+    if (!recording) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+
+      if (e.key === "Escape") {
+        setRecording(null);
+        return;
+      }
+
+      const key = getEventKey(e);
+      if (!key) {
+        showToastError("不支持该按键，请换一个");
+        return;
+      }
+
+      const conflict = REVIEW_ACTION_LABELS.find(
+        ({ action }) => action !== recording && bindings[action] === key
+      );
+      if (conflict) {
+        showToastError(`${formatKey(key)} 已用于"${conflict.label}"`);
+        return;
+      }
+
+      setRecording(null);
+      if (bindings[recording] !== key) {
+        saveBindings({ ...bindings, [recording]: key });
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => window.removeEventListener("keydown", handleKeyDown, true);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [recording, bindings]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>键盘快捷键</DialogTitle>
+          <DialogDescription>
+            点击按键可以修改，在输入框中输入时快捷键不生效
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1 py-2">
+          {REVIEW_ACTION_LABELS.map(({ action, label }) => (
+            <div
+              key={action}
+              className="flex items-center justify-between py-1.5"
+            >
+              <span className="text-sm">{label}</span>
+              <button
+                onClick={() => setRecording(action)}
+                disabled={isSaving}
+                className={`min-w-16 px-3 py-1 rounded-md border text-sm font-mono transition-colors ${
+                  recording === action
+                    ? "border-primary text-primary animate-pulse"
+                    : "bg-muted hover:border-primary/50"
+                }`}
+              >
+                {recording === action
+                  ? "请按键..."
+                  : formatKey(bindings[action])}
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          Ctrl/⌘ + Z 始终可以撤销；输入模式下按 Enter 接受建议评级
+        </p>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => saveBindings({})}
+            disabled={isSaving}
+          >
+            恢复默认
+          </Button>
+          <Button onClick={() => onOpenChange(false)}>完成</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,6 +5,7 @@ interface ReviewCompleteProps {
     hard: number;
     good: number;
     easy: number;
+    timeSpentMinutes: number;
   };
   onBackToEntrance: () => void;
 }
@@ -65,6 +66,11 @@ export default function ReviewComplete({
           </svg>
           <div className="text-4xl font-bold mb-2">{stats.totalReviewed}</div>
           <div className="text-muted-foreground">张卡片已复习</div>
+          {stats.timeSpentMinutes > 0 && (
+            <div className="text-sm text-muted-foreground mt-2">
+              用时 {stats.timeSpentMinutes} 分钟
+            </div>
+          )}
         </div>
       </div>
 
@@ -1,4 +1,18 @@
+import { useState, useEffect } from "react";
+import { Settings, Filter } from "lucide-react";
 import { ReviewStats } from "./ReviewStats";
+import { ReviewSettingsDialog } from "./ReviewSettingsDialog";
+import { CustomSessionDialog } from "./CustomSessionDialog";
+import { ReviewForecastChart } from "@/components/statistics/review-forecast";
+import { apiClient } from "@/lib/api-client";
+import { extractApiData, getErrorMessage } from "@/utils/api-helpers";
+import type {
+  ReviewForecastResponse,
+  CustomSessionResponse,
+} from "../../../../api/src/route/review.route";
+
+// 复习入口展示未来一周的到期预测
+const FORECAST_DAYS = 7;
 
 interface ReviewEntranceProps {
   stats: {
@@ -10,16 +24,46 @@ interface ReviewEntranceProps {
     completedToday: number;
   };
   onStartReview: () => void;
+  onStartCustomSession: (session: CustomSessionResponse["data"]) => void;
+  onSettingsChange?: () => void;
 }
 
 export default function ReviewEntrance({
   stats,
   onStartReview,
+  onStartCustomSession,
+  onSettingsChange,
 }: ReviewEntranceProps) {
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [customSessionOpen, setCustomSessionOpen] = useState(false);
+  const [forecast, setForecast] = useState<
+    ReviewForecastResponse["data"] | null
+  >(null);
+
+  // 统计数据刷新时（如修改设置后）同步刷新预测
+  useEffect(() => {
+    extractApiData<ReviewForecastResponse>(
+      apiClient.api.review.forecast.$get({
+        query: { days: String(FORECAST_DAYS) },
+      })
+    )
+      .then(setForecast)
+      .catch((error) => {
+        console.error("加载复习预测失败:", getErrorMessage(error));
+      });
+  }, [stats]);
+
   return (
     <div className="max-w-5xl mx-auto">
       {/* 头部 */}
-      <div className="mb-12 text-center">
+      <div className="mb-12 text-center relative">
+        <button
+          onClick={() => setSettingsOpen(true)}
+          title="复习设置"
+          className="absolute right-0 top-0 p-3 rounded-xl hover:scale-105 transition-transform bg-card border border-border"
+        >
+          <Settings className="w-5 h-5" />
+        </button>
         <h1 className="text-4xl md:text-5xl font-bold mb-4">
           <span
             className="bg-linear-to-r from-primary to-primary/80"
@@ -58,6 +102,14 @@ export default function ReviewEntrance({
             >
               开始复习
             </button>
+
+            <button
+              onClick={() => setCustomSessionOpen(true)}
+              className="w-full mt-3 py-3 rounded-2xl font-medium transition-all bg-card border border-border hover:translate-y-[-2px] hover:shadow-md inline-flex items-center justify-center gap-2"
+            >
+              <Filter className="w-4 h-4" />
+              自定义学习
+            </button>
           </div>
         </div>
       </div>
@@ -79,7 +131,7 @@ export default function ReviewEntrance({
       </div>
 
       {/* 今日成就 */}
-      <div className="bg-card border border-border p-6 rounded-2xl shadow-lg">
+      <div className="bg-card border border-border p-6 rounded-2xl shadow-lg mb-8">
         <div className="flex items-center justify-between mb-4">
           <h3 className="font-semibold">今日已完成</h3>
           <span className="text-2xl font-bold text-primary">
@@ -103,6 +155,26 @@ export default function ReviewEntrance({
           ))}
         </div>
       </div>
+
+      {/* 未来一周到期预测 */}
+      {forecast && (
+        <div className="bg-card border border-border p-6 rounded-2xl shadow-lg">
+          <h3 className="font-semibold mb-4">未来一周待复习</h3>
+          <ReviewForecastChart forecast={forecast} />
+        </div>
+      )}
+
+      <ReviewSettingsDialog
+        open={settingsOpen}
+        onOpenChange={setSettingsOpen}
+        onSaved={onSettingsChange}
+      />
+
+      <CustomSessionDialog
+        open={customSessionOpen}
+        onOpenChange={setCustomSessionOpen}
+        onStart={onStartCustomSession}
+      />
     </div>
   );
 }
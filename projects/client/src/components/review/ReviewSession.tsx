@@ -1,24 +1,49 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
+import { Undo2, Keyboard, SkipForward } from "lucide-react";
 import FlipCard from "./FlipCard";
+import TypedAnswerCard from "./TypedAnswerCard";
 import AnswerButtons from "./AnswerButtons";
-import { showToastInfo, showToastError } from "@/utils/toast";
+import { KeyboardShortcutsDialog } from "./KeyboardShortcutsDialog";
+import { EditCardDialog } from "./EditCardDialog";
+import {
+  showToastInfo,
+  showToastError,
+  showToastSuccess,
+  showToastWarning,
+} from "@/utils/toast";
 import { apiClient } from "@/lib/api-client";
 import type { DifficultyRating, CompleteStats } from "@/types/review";
 import { extractApiData, getErrorMessage } from "@/utils/api-helpers";
+import { speak } from "@/utils/speech";
+import {
+  formatKey,
+  isTypingTarget,
+  type KeyBindings,
+} from "@/utils/review-hotkeys";
+import { useReviewHotkeys } from "@/hooks/use-review-hotkeys";
 import type {
   GetNextCardResponse,
   SubmitAnswerResponse,
-  // SkipCardResponse,
+  UndoAnswerResponse,
+  GradeAnswerResponse,
+  ReviewSettingsResponse,
+  StartSessionResponse,
+  ExitSessionResponse,
+  CustomSessionResponse,
+  SkipCardResponse,
 } from "../../../../api/src/route/review.route";
 
 interface ReviewSessionProps {
   initialTotalCards: number;
+  // 已创建的自定义学习会话（不传时开始普通复习会话）
+  customSession?: CustomSessionResponse["data"] | null;
   onExit: () => void;
   onComplete: (stats: CompleteStats) => void;
 }
 
 export default function ReviewSession({
   initialTotalCards,
+  customSession,
   onExit,
   onComplete,
 }: ReviewSessionProps) {
@@ -26,6 +51,25 @@ export default function ReviewSession({
     useState<GetNextCardResponse["data"]["card"]>(null);
   const [showAnswerButtons, setShowAnswerButtons] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [isUndoing, setIsUndoing] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // 快捷键（设置加载前为 null）和快捷键面板 / 编辑卡片弹窗
+  const [keyBindings, setKeyBindings] = useState<KeyBindings | null>(null);
+  const [shortcutsOpen, setShortcutsOpen] = useState(false);
+  const [editOpen, setEditOpen] = useState(false);
+
+  // 服务端复习会话（负责答题计时和会话统计）
+  const [sessionId, setSessionId] = useState<number | null>(null);
+
+  // 输入模式（reverse / cloze 卡片通过输入单词作答）
+  const [typedAnswerMode, setTypedAnswerMode] = useState(false);
+  const [autoPlayAudio, setAutoPlayAudio] = useState(false);
+  const [typedAnswer, setTypedAnswer] = useState<string | null>(null);
+  const [grade, setGrade] = useState<GradeAnswerResponse["data"] | null>(
+    null
+  );
+  const [isGrading, setIsGrading] = useState(false);
 
   // 会话统计
   const [reviewedCount, setReviewedCount] = useState(0);
@@ -36,24 +80,64 @@ export default function ReviewSession({
     easy: 0,
   });
 
-  // 加载第一张卡片
+  // 开始复习会话后加载第一张卡片，同时加载复习设置
+  // （自定义学习会话已在入口页创建，直接使用）
   useEffect(() => {
-    loadNextCard();
+    const sessionPromise = customSession
+      ? Promise.resolve(customSession)
+      : extractApiData<StartSessionResponse>(
+          apiClient.api.review.start.$post()
+        );
+    sessionPromise
+      .then((session) => {
+        setSessionId(session.id);
+        return loadNextCard(session.id);
+      })
+      .catch((error) => {
+        // 会话创建失败不影响复习，只是不记录学习时长
+        console.error("开始复习会话失败:", getErrorMessage(error));
+        return loadNextCard(null);
+      });
+    extractApiData<ReviewSettingsResponse>(
+      apiClient.api.review.settings.$get()
+    )
+      .then((settings) => {
+        setTypedAnswerMode(settings.typedAnswerMode);
+        setAutoPlayAudio(settings.autoPlayAudio);
+        setKeyBindings(settings.keyBindings);
+      })
+      .catch((error) => {
+        console.error("加载复习设置失败:", getErrorMessage(error));
+      });
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // 切换卡片时重置输入模式的评分状态
+  useEffect(() => {
+    setTypedAnswer(null);
+    setGrade(null);
+  }, [currentCard]);
+
+  // 看词忆义（recognition）卡片没有可输入的答案，始终使用翻转卡片
+  const isTypedInput =
+    typedAnswerMode && !!currentCard && currentCard.template !== "recognition";
+
   // 计算进度
   // const current = reviewedCount + 1;
   const total = initialTotalCards;
-  const progress = total > 0 ? Math.round((reviewedCount / total) * 100) : 0;
+  // 学习步骤中的卡片会在同一会话内再次出现，进度最多显示到 100%
+  const progress =
+    total > 0 ? Math.min(100, Math.round((reviewedCount / total) * 100)) : 0;
 
   // 加载下一张卡片
-  const loadNextCard = async () => {
+  const loadNextCard = async (id: number | null) => {
     setIsLoading(true);
     try {
       // ✅ 使用 extractApiData，类型自动推断
       const data = await extractApiData<GetNextCardResponse>(
-        apiClient.api.review.next.$get()
+        apiClient.api.review.next.$get({
+          query: id !== null ? { sessionId: String(id) } : {},
+        })
       );
 
       if (data.card) {
@@ -61,7 +145,7 @@ export default function ReviewSession({
         setShowAnswerButtons(false);
       } else {
         // 没有更多卡片，复习完成
-        handleComplete();
+        handleComplete(id);
       }
     } catch (error) {
       console.error("加载卡片失败:", getErrorMessage(error));
@@ -71,58 +155,94 @@ export default function ReviewSession({
     }
   };
 
-  // 退出复习会话
+  // 结束服务端复习会话，返回会话汇总（失败时返回 null）
+  const endSession = async (id: number | null) => {
+    if (id === null) return null;
+    try {
+      return await extractApiData<ExitSessionResponse>(
+        apiClient.api.review.exit.$post({ json: { sessionId: id } })
+      );
+    } catch (error) {
+      console.error("结束复习会话失败:", getErrorMessage(error));
+      return null;
+    }
+  };
+
+  // 退出复习会话（进度已随每次答题保存）
   const handleExit = async () => {
+    const summary = await endSession(sessionId);
+    if (summary && summary.reviewedCount > 0) {
+      showToastInfo(`已保存进度，用时 ${summary.timeSpentMinutes} 分钟`);
+    }
+    onExit();
+  };
+
+  // 跳过当前卡片（不改变复习计划，本次会话中不再出现或移到队尾）
+  const handleSkip = async () => {
+    if (!currentCard || isSubmitting) return;
+
+    setIsSubmitting(true);
     try {
-      // 保存进度
-      const correctCount =
-        ratingStats.hard + ratingStats.good + ratingStats.easy;
-      await apiClient.api.review.exit.$post({
-        json: {
-          reviewedCount,
-          correctCount,
-        },
-      });
-      showToastInfo("已保存进度");
+      const data = await extractApiData<SkipCardResponse>(
+        apiClient.api.review.skip.$post({
+          json: {
+            cardId: currentCard.id,
+            ...(sessionId !== null && { sessionId }),
+          },
+        })
+      );
+
+      if (data.nextCard) {
+        setCurrentCard(data.nextCard);
+        setShowAnswerButtons(false);
+        showToastInfo("已跳过");
+      } else {
+        handleComplete();
+      }
     } catch (error) {
-      console.error("保存进度失败:", error);
+      console.error("跳过失败:", getErrorMessage(error));
+      showToastError("跳过失败，请重试");
     } finally {
-      onExit();
+      setIsSubmitting(false);
     }
   };
 
-  // 跳过当前卡片
-  // const handleSkip = async () => {
-  //   if (!currentCard) return;
-
-  //   try {
-  //     // ✅ 使用 extractApiData，类型自动推断
-  //     const data = await extractApiData<SkipCardResponse>(
-  //       apiClient.api.review.skip.$post()
-  //     );
-
-  //     if (data.nextCard) {
-  //       setCurrentCard(data.nextCard);
-  //       setShowAnswerButtons(false);
-  //       showToastInfo("已跳过");
-  //     } else {
-  //       handleComplete();
-  //     }
-  //   } catch (error) {
-  //     console.error("跳过失败:", getErrorMessage(error));
-  //     showToastError("跳过失败，请重试");
-  //   }
-  // };
-
   // 卡片翻转时显示答题按钮
   const handleCardFlip = () => {
     setShowAnswerButtons(true);
   };
 
+  // 输入模式：提交输入的单词评分，展示结果并预选建议评级
+  const handleGrade = async (answer: string) => {
+    if (!currentCard) return;
+
+    setIsGrading(true);
+    try {
+      const data = await extractApiData<GradeAnswerResponse>(
+        apiClient.api.review.grade.$post({
+          json: {
+            cardId: currentCard.id,
+            typedAnswer: answer,
+          },
+        })
+      );
+      setTypedAnswer(answer);
+      setGrade(data);
+      setShowAnswerButtons(true);
+    } catch (error) {
+      console.error("评分失败:", getErrorMessage(error));
+      showToastError("评分失败，请重试");
+    } finally {
+      setIsGrading(false);
+    }
+  };
+
   // 提交答案
   const handleAnswer = async (rating: DifficultyRating) => {
-    if (!currentCard) return;
+    // 防止连续按键重复提交
+    if (!currentCard || isSubmitting) return;
 
+    setIsSubmitting(true);
     try {
       // ✅ 使用 extractApiData，类型自动推断
       const data = await extractApiData<SubmitAnswerResponse>(
@@ -130,10 +250,21 @@ export default function ReviewSession({
           json: {
             cardId: currentCard.id,
             rating,
+            ...(typedAnswer !== null && { typedAnswer }),
+            ...(sessionId !== null && { sessionId }),
           },
         })
       );
 
+      // 难记卡片提示
+      if (data.leech.becameLeech) {
+        showToastWarning(
+          data.leech.suspended
+            ? `"${currentCard.word}" 遗忘次数过多，已暂停复习`
+            : `"${currentCard.word}" 已标记为难记卡片`
+        );
+      }
+
       // 更新统计
       setReviewedCount((prev) => prev + 1);
       setRatingStats((prev) => ({
@@ -154,17 +285,128 @@ export default function ReviewSession({
     } catch (error) {
       console.error("提交答案失败:", getErrorMessage(error));
       showToastError("提交失败，请重试");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // 撤销上一次答题（只能撤销本次会话中的答题）
+  // 不重新调度的自定义学习不写入复习日志，无法撤销
+  const canUndoSession = customSession?.reschedule ?? true;
+  const canUndo = canUndoSession && reviewedCount > 0 && !isUndoing;
+
+  const handleUndo = useCallback(async () => {
+    if (!canUndo) return;
+
+    setIsUndoing(true);
+    try {
+      const data = await extractApiData<UndoAnswerResponse>(
+        apiClient.api.review.undo.$post()
+      );
+
+      // 回退会话统计
+      setReviewedCount((prev) => Math.max(0, prev - 1));
+      setRatingStats((prev) => ({
+        ...prev,
+        [data.rating]: Math.max(0, prev[data.rating] - 1),
+      }));
+
+      // 重新展示被撤销的卡片
+      setCurrentCard(data.card);
+      setShowAnswerButtons(false);
+      showToastSuccess("已撤销上一次答题");
+    } catch (error) {
+      console.error("撤销失败:", getErrorMessage(error));
+      showToastError("撤销失败，请重试");
+    } finally {
+      setIsUndoing(false);
     }
+  }, [canUndo]);
+
+  // 快捷键：Ctrl/Cmd + Z 撤销（不受快捷键设置影响）
+  // 与其他快捷键一样，弹窗打开或在输入框中输入时不处理，保留浏览器的文本撤销
+  const hotkeysEnabled = !isLoading && !shortcutsOpen && !editOpen;
+  useEffect(() => {
+    if (!hotkeysEnabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || isTypingTarget(e.target)) return;
+
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "z") {
+        e.preventDefault();
+        handleUndo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [handleUndo, hotkeysEnabled]);
+
+  // 朗读单词：翻转后才朗读，避免泄露看义忆词 / 例句填空的答案
+  // （看词忆义卡片正面就展示单词，可以直接朗读）
+  const canPlayAudio =
+    !!currentCard &&
+    (showAnswerButtons || currentCard.template === "recognition");
+
+  // 评级快捷键只在显示答题按钮后生效
+  const handleRatingKey = (rating: DifficultyRating) => {
+    if (showAnswerButtons) handleAnswer(rating);
   };
 
-  // 复习完成
-  const handleComplete = () => {
+  // 按钮提示中的快捷键（设置加载前不显示）
+  const hotkeyHint = (action: keyof KeyBindings) =>
+    keyBindings ? ` / ${formatKey(keyBindings[action])}` : "";
+
+  // 用户设置的快捷键（弹窗打开时停用）
+  useReviewHotkeys(
+    keyBindings,
+    {
+      flip: () => {
+        if (!isTypedInput && !showAnswerButtons) handleCardFlip();
+      },
+      again: () => handleRatingKey("again"),
+      hard: () => handleRatingKey("hard"),
+      good: () => handleRatingKey("good"),
+      easy: () => handleRatingKey("easy"),
+      skip: handleSkip,
+      undo: handleUndo,
+      playAudio: () => {
+        if (canPlayAudio) speak(currentCard.word);
+      },
+      edit: () => {
+        if (currentCard) setEditOpen(true);
+      },
+      help: () => setShortcutsOpen(true),
+    },
+    hotkeysEnabled
+  );
+
+  // 输入模式：评分后按回车接受建议评级（弹窗打开时不处理）
+  useEffect(() => {
+    if (!grade || shortcutsOpen || editOpen) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Enter") {
+        e.preventDefault();
+        handleAnswer(grade.suggestedRating);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
+  // 复习完成：结束会话，复习数量和学习时长以服务端统计为准
+  // （首次加载时会话 ID 还未写入 state，由调用方传入）
+  const handleComplete = async (id: number | null = sessionId) => {
+    const summary = await endSession(id);
     onComplete({
-      totalReviewed: reviewedCount,
+      totalReviewed: summary?.reviewedCount ?? reviewedCount,
       again: ratingStats.again,
       hard: ratingStats.hard,
       good: ratingStats.good,
       easy: ratingStats.easy,
+      timeSpentMinutes: summary?.timeSpentMinutes ?? 0,
     });
   };
 
@@ -191,6 +433,35 @@ export default function ReviewSession({
           ← 退出
         </button>
 
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => setShortcutsOpen(true)}
+            disabled={!keyBindings}
+            title="键盘快捷键"
+            className="p-3 rounded-xl hover:scale-105 transition-transform bg-card border border-border disabled:opacity-50 disabled:pointer-events-none"
+          >
+            <Keyboard className="w-4 h-4" />
+          </button>
+          <button
+            onClick={handleSkip}
+            disabled={isSubmitting}
+            title={`跳过当前卡片（不改变复习计划${hotkeyHint("skip")}）`}
+            className="inline-flex items-center gap-2 px-6 py-3 rounded-xl hover:scale-105 transition-transform font-medium bg-card border border-border disabled:opacity-50 disabled:pointer-events-none"
+          >
+            <SkipForward className="w-4 h-4" />
+            跳过
+          </button>
+          <button
+            onClick={handleUndo}
+            disabled={!canUndo}
+            title={`撤销上一次答题（Ctrl+Z${hotkeyHint("undo")}）`}
+            className="inline-flex items-center gap-2 px-6 py-3 rounded-xl hover:scale-105 transition-transform font-medium bg-card border border-border disabled:opacity-50 disabled:pointer-events-none"
+          >
+            <Undo2 className="w-4 h-4" />
+            撤销
+          </button>
+        </div>
+
         {/* <div className="flex items-center gap-4">
           <div className="text-lg font-semibold">
             <span className="text-primary">{current}</span>
@@ -217,15 +488,48 @@ export default function ReviewSession({
 
       {/* 卡片 */}
       <div className="mb-8">
-        <FlipCard cardData={currentCard} onFlip={handleCardFlip} />
+        {isTypedInput ? (
+          <TypedAnswerCard
+            cardData={currentCard}
+            grade={grade}
+            isGrading={isGrading}
+            onSubmit={handleGrade}
+          />
+        ) : (
+          <FlipCard
+            cardData={currentCard}
+            isFlipped={showAnswerButtons}
+            onFlip={handleCardFlip}
+            autoPlayAudio={autoPlayAudio}
+          />
+        )}
       </div>
 
       {/* 答题按钮 */}
       {showAnswerButtons && (
         <div className="animate-in fade-in slide-in-from-bottom-4 duration-300">
-          <AnswerButtons onAnswer={handleAnswer} />
+          <AnswerButtons
+            onAnswer={handleAnswer}
+            suggestedRating={grade?.suggestedRating}
+            keyBindings={keyBindings ?? undefined}
+          />
         </div>
       )}
+
+      {keyBindings && (
+        <KeyboardShortcutsDialog
+          open={shortcutsOpen}
+          onOpenChange={setShortcutsOpen}
+          bindings={keyBindings}
+          onSaved={setKeyBindings}
+        />
+      )}
+      <EditCardDialog
+        open={editOpen}
+        onOpenChange={setEditOpen}
+        card={currentCard}
+        onSaved={setCurrentCard}
+      />
     </div>
   );
 }
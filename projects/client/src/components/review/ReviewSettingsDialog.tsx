@@ -0,0 +1,637 @@
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiClient, type ExtendedUser } from "@/lib/api-client";
+import { useAuth, useUpdateUser } from "@/hooks/use-auth";
+import { extractApiData, getErrorMessage } from "@/utils/api-helpers";
+import { showToastSuccess, showToastError } from "@/utils/toast";
+import type {
+  ReviewSettingsResponse,
+  SchedulerOptimizerResponse,
+  ApplyOptimizerResponse,
+} from "../../../../api/src/route/review.route";
+
+type ReviewSettings = ReviewSettingsResponse["data"];
+type OptimizerReport = SchedulerOptimizerResponse["data"];
+
+interface ReviewSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: (settings: ReviewSettings) => void;
+}
+
+// 表单状态（输入框统一使用字符串，保存时再解析）
+interface SettingsForm {
+  schedulerType: ReviewSettings["schedulerType"];
+  desiredRetention: number;
+  loadBalancing: boolean;
+  learningSteps: string;
+  relearningSteps: string;
+  newCardsPerDay: string;
+  reviewsPerDay: string;
+  leechThreshold: string;
+  leechAction: ReviewSettings["leechAction"];
+  burySiblings: boolean;
+  extraCardTemplates: ReviewSettings["extraCardTemplates"];
+  typedAnswerMode: boolean;
+  autoPlayAudio: boolean;
+  timezone: string; // 以下两项保存在用户信息中
+  dayStartHour: string;
+}
+
+// 浏览器所在时区
+const BROWSER_TIMEZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// 常用时区（用户当前时区和浏览器时区不在列表中时会追加）
+const COMMON_TIMEZONES = [
+  { value: "Asia/Shanghai", label: "中国标准时间（北京）" },
+  { value: "Asia/Hong_Kong", label: "香港" },
+  { value: "Asia/Taipei", label: "台北" },
+  { value: "Asia/Tokyo", label: "东京" },
+  { value: "Asia/Singapore", label: "新加坡" },
+  { value: "Europe/London", label: "伦敦" },
+  { value: "Europe/Berlin", label: "柏林" },
+  { value: "America/New_York", label: "纽约" },
+  { value: "America/Los_Angeles", label: "洛杉矶" },
+  { value: "Australia/Sydney", label: "悉尼" },
+  { value: "UTC", label: "UTC" },
+];
+
+const getTimezoneOptions = (current: string) => {
+  const options = [...COMMON_TIMEZONES];
+  for (const timezone of [current, BROWSER_TIMEZONE]) {
+    if (timezone && !options.some((option) => option.value === timezone)) {
+      options.push({ value: timezone, label: timezone });
+    }
+  }
+  return options;
+};
+
+// 可选启用的卡片模板（与原有的"看词忆义"卡片独立调度）
+const CARD_TEMPLATE_OPTIONS: {
+  value: ReviewSettings["extraCardTemplates"][number];
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "reverse",
+    label: "看义忆词",
+    description: "看中文含义，回忆英文单词",
+  },
+  {
+    value: "cloze",
+    label: "例句填空",
+    description: "例句中的单词被挖空，回忆并填出单词（需要有例句）",
+  },
+];
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+// 最接近目标保留率的复习量估算
+const findTradeoff = (report: OptimizerReport, desiredRetention: number) =>
+  report.tradeoffs.reduce((best, tradeoff) =>
+    Math.abs(tradeoff.desiredRetention - desiredRetention) <
+    Math.abs(best.desiredRetention - desiredRetention)
+      ? tradeoff
+      : best
+  );
+
+const formatSteps = (steps: number[]) => steps.join(" ");
+
+// 解析学习步骤："1 10" / "1, 10" → [1, 10]，格式错误返回 null
+const parseSteps = (value: string): number[] | null => {
+  const parts = value.split(/[\s,，]+/).filter(Boolean);
+  const steps = parts.map(Number);
+  if (steps.some((n) => !Number.isInteger(n) || n < 1 || n > 1440)) {
+    return null;
+  }
+  return steps;
+};
+
+const parseLimit = (value: string): number | null => {
+  const n = Number(value);
+  return Number.isInteger(n) && n >= 0 && n <= 9999 ? n : null;
+};
+
+export function ReviewSettingsDialog({
+  open,
+  onOpenChange,
+  onSaved,
+}: ReviewSettingsDialogProps) {
+  const [form, setForm] = useState<SettingsForm | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [optimizer, setOptimizer] = useState<OptimizerReport | null>(null);
+  const [optimizedAt, setOptimizedAt] =
+    useState<ReviewSettings["parametersOptimizedAt"]>(null);
+  const [isOptimizing, setIsOptimizing] = useState(false);
+  const { user, refetch: refetchUser } = useAuth();
+  const updateUser = useUpdateUser();
+  const extendedUser = user as ExtendedUser | undefined;
+  const userTimezone = extendedUser?.timezone || "Asia/Shanghai";
+  const userDayStartHour = extendedUser?.dayStartHour ?? 0;
+
+  // 打开时加载当前设置
+  useEffect(() => {
+    if (!open) return;
+
+    setForm(null);
+    setOptimizer(null);
+    extractApiData<ReviewSettingsResponse>(
+      apiClient.api.review.settings.$get()
+    )
+      .then((settings) => {
+        setForm({
+          schedulerType: settings.schedulerType,
+          desiredRetention: settings.desiredRetention,
+          loadBalancing: settings.loadBalancing,
+          learningSteps: formatSteps(settings.learningSteps),
+          relearningSteps: formatSteps(settings.relearningSteps),
+          newCardsPerDay: String(settings.newCardsPerDay),
+          reviewsPerDay: String(settings.reviewsPerDay),
+          leechThreshold: String(settings.leechThreshold),
+          leechAction: settings.leechAction,
+          burySiblings: settings.burySiblings,
+          extraCardTemplates: settings.extraCardTemplates,
+          typedAnswerMode: settings.typedAnswerMode,
+          autoPlayAudio: settings.autoPlayAudio,
+          timezone: userTimezone,
+          dayStartHour: String(userDayStartHour),
+        });
+        setOptimizedAt(settings.parametersOptimizedAt);
+      })
+      .catch((error) => {
+        console.error("加载复习设置失败:", getErrorMessage(error));
+        showToastError("加载设置失败，请重试");
+        onOpenChange(false);
+      });
+  }, [open, onOpenChange, userTimezone, userDayStartHour]);
+
+  // 打开时加载参数优化报告（失败时只是不显示复习量估算）
+  useEffect(() => {
+    if (!open) return;
+
+    extractApiData<SchedulerOptimizerResponse>(
+      apiClient.api.review.optimizer.$get()
+    )
+      .then(setOptimizer)
+      .catch((error) => {
+        console.error("加载参数优化报告失败:", getErrorMessage(error));
+      });
+  }, [open]);
+
+  const updateField = <K extends keyof SettingsForm>(
+    key: K,
+    value: SettingsForm[K]
+  ) => {
+    setForm((prev) => (prev ? { ...prev, [key]: value } : prev));
+  };
+
+  const toggleTemplate = (
+    template: ReviewSettings["extraCardTemplates"][number],
+    enabled: boolean
+  ) => {
+    setForm((prev) => {
+      if (!prev) return prev;
+      const others = prev.extraCardTemplates.filter((t) => t !== template);
+      return {
+        ...prev,
+        extraCardTemplates: enabled ? [...others, template] : others,
+      };
+    });
+  };
+
+  // 根据复习记录拟合调度参数，立即写入设置
+  const handleOptimize = async () => {
+    setIsOptimizing(true);
+    try {
+      const result = await extractApiData<ApplyOptimizerResponse>(
+        apiClient.api.review.optimizer.$post()
+      );
+      setOptimizer(result.report);
+      setOptimizedAt(result.settings.parametersOptimizedAt);
+      showToastSuccess("已根据复习记录优化参数");
+    } catch (error) {
+      // 复习记录不足时后端返回 400 和提示信息
+      showToastError(getErrorMessage(error));
+    } finally {
+      setIsOptimizing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    const learningSteps = parseSteps(form.learningSteps);
+    const relearningSteps = parseSteps(form.relearningSteps);
+    if (!learningSteps || !relearningSteps) {
+      showToastError("学习步骤需为 1 - 1440 之间的整数（分钟）");
+      return;
+    }
+
+    const newCardsPerDay = parseLimit(form.newCardsPerDay);
+    const reviewsPerDay = parseLimit(form.reviewsPerDay);
+    if (newCardsPerDay === null || reviewsPerDay === null) {
+      showToastError("每日上限需为 0 - 9999 之间的整数");
+      return;
+    }
+
+    const leechThreshold = Number(form.leechThreshold);
+    if (
+      !Number.isInteger(leechThreshold) ||
+      leechThreshold < 1 ||
+      leechThreshold > 99
+    ) {
+      showToastError("难记卡片阈值需为 1 - 99 之间的整数");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const settings = await extractApiData<ReviewSettingsResponse>(
+        apiClient.api.review.settings.$patch({
+          json: {
+            schedulerType: form.schedulerType,
+            desiredRetention: form.desiredRetention,
+            loadBalancing: form.loadBalancing,
+            learningSteps,
+            relearningSteps,
+            newCardsPerDay,
+            reviewsPerDay,
+            leechThreshold,
+            leechAction: form.leechAction,
+            burySiblings: form.burySiblings,
+            extraCardTemplates: form.extraCardTemplates,
+            typedAnswerMode: form.typedAnswerMode,
+            autoPlayAudio: form.autoPlayAudio,
+          },
+        })
+      );
+
+      // 学习日边界保存在用户信息中，只在修改时更新
+      const dayStartHour = Number(form.dayStartHour);
+      if (
+        form.timezone !== userTimezone ||
+        dayStartHour !== userDayStartHour
+      ) {
+        await updateUser.mutateAsync({ timezone: form.timezone, dayStartHour });
+        refetchUser();
+      }
+
+      showToastSuccess("设置已保存");
+      onSaved?.(settings);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("保存复习设置失败:", getErrorMessage(error));
+      showToastError("保存失败，请重试");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>复习设置</DialogTitle>
+          <DialogDescription>调整复习算法和每日学习量</DialogDescription>
+        </DialogHeader>
+
+        {!form ? (
+          <div className="py-8 text-center text-muted-foreground">
+            加载中...
+          </div>
+        ) : (
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label>调度算法</Label>
+              <Select
+                value={form.schedulerType}
+                onValueChange={(value) =>
+                  updateField(
+                    "schedulerType",
+                    value as ReviewSettings["schedulerType"]
+                  )
+                }
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="sm2">SM-2（经典 Anki 算法）</SelectItem>
+                  <SelectItem value="fsrs">FSRS（记忆模型，更高效）</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="desiredRetention">目标保留率</Label>
+                <span className="text-sm font-medium">
+                  {formatPercent(form.desiredRetention)}
+                </span>
+              </div>
+              <input
+                id="desiredRetention"
+                type="range"
+                min={0.7}
+                max={0.97}
+                step={0.01}
+                value={form.desiredRetention}
+                onChange={(e) =>
+                  updateField("desiredRetention", Number(e.target.value))
+                }
+                className="w-full accent-primary"
+              />
+              <p className="text-xs text-muted-foreground">
+                复习时预计能记住的比例，越高间隔越短、每天的复习越多
+                {optimizer &&
+                  `（约为 90% 时的 ${findTradeoff(
+                    optimizer,
+                    form.desiredRetention
+                  ).relativeWorkload.toFixed(2)} 倍）`}
+              </p>
+            </div>
+
+            <div className="flex items-start gap-2.5">
+              <Checkbox
+                id="loadBalancing"
+                checked={form.loadBalancing}
+                onCheckedChange={(checked) =>
+                  updateField("loadBalancing", checked === true)
+                }
+                className="mt-0.5"
+              />
+              <div className="space-y-1">
+                <Label htmlFor="loadBalancing">均衡每日复习量</Label>
+                <p className="text-xs text-muted-foreground">
+                  复习间隔会在附近几天内随机浮动，开启后优先安排到复习较少的一天
+                </p>
+              </div>
+            </div>
+
+            <div className="space-y-2 rounded-md border p-3">
+              <div className="flex items-center justify-between gap-2">
+                <Label>参数优化</Label>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleOptimize}
+                  disabled={
+                    isOptimizing || !optimizer || !optimizer.parameters
+                  }
+                >
+                  {isOptimizing ? "优化中..." : "优化参数"}
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {!optimizer
+                  ? "加载中..."
+                  : optimizer.parameters
+                    ? `根据 ${optimizer.reviewCount} 次复习拟合调度参数，` +
+                      `实际保留率 ${formatPercent(
+                        optimizer.observedRetention ?? 0
+                      )}`
+                    : `复习记录不足（${optimizer.reviewCount} 次），` +
+                      "积累更多复习后可根据记录优化参数"}
+              </p>
+              {optimizedAt && (
+                <p className="text-xs text-muted-foreground">
+                  上次优化：{new Date(optimizedAt).toLocaleDateString()}
+                </p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>时区</Label>
+                <Select
+                  value={form.timezone}
+                  onValueChange={(value) => updateField("timezone", value)}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {getTimezoneOptions(form.timezone).map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>每天开始时间</Label>
+                <Select
+                  value={form.dayStartHour}
+                  onValueChange={(value) => updateField("dayStartHour", value)}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from({ length: 24 }, (_, hour) => (
+                      <SelectItem key={hour} value={String(hour)}>
+                        {`${hour}:00`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground -mt-2">
+              每日统计、上限和配额按该时区的"每天开始时间"切换到新的一天
+            </p>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="newCardsPerDay">每日新卡片上限</Label>
+                <Input
+                  id="newCardsPerDay"
+                  type="number"
+                  min={0}
+                  value={form.newCardsPerDay}
+                  onChange={(e) =>
+                    updateField("newCardsPerDay", e.target.value)
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="reviewsPerDay">每日复习上限</Label>
+                <Input
+                  id="reviewsPerDay"
+                  type="number"
+                  min={0}
+                  value={form.reviewsPerDay}
+                  onChange={(e) => updateField("reviewsPerDay", e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="learningSteps">学习步骤（分钟）</Label>
+              <Input
+                id="learningSteps"
+                value={form.learningSteps}
+                onChange={(e) => updateField("learningSteps", e.target.value)}
+                placeholder="例如：1 10"
+              />
+              <p className="text-xs text-muted-foreground">
+                新卡片在当天按这些间隔重复出现，留空表示不使用学习步骤
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="relearningSteps">重学步骤（分钟）</Label>
+              <Input
+                id="relearningSteps"
+                value={form.relearningSteps}
+                onChange={(e) => updateField("relearningSteps", e.target.value)}
+                placeholder="例如：10"
+              />
+              <p className="text-xs text-muted-foreground">
+                遗忘的卡片在当天按这些间隔重复出现
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="leechThreshold">难记卡片阈值（遗忘次数）</Label>
+                <Input
+                  id="leechThreshold"
+                  type="number"
+                  min={1}
+                  value={form.leechThreshold}
+                  onChange={(e) =>
+                    updateField("leechThreshold", e.target.value)
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>难记卡片处理</Label>
+                <Select
+                  value={form.leechAction}
+                  onValueChange={(value) =>
+                    updateField(
+                      "leechAction",
+                      value as ReviewSettings["leechAction"]
+                    )
+                  }
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="tag">仅标记</SelectItem>
+                    <SelectItem value="suspend">标记并暂停</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex items-start gap-2.5">
+              <Checkbox
+                id="burySiblings"
+                checked={form.burySiblings}
+                onCheckedChange={(checked) =>
+                  updateField("burySiblings", checked === true)
+                }
+                className="mt-0.5"
+              />
+              <div className="space-y-1">
+                <Label htmlFor="burySiblings">搁置同一单词的其他含义</Label>
+                <p className="text-xs text-muted-foreground">
+                  复习某个含义后，同一单词的其他含义推迟到明天再出现
+                </p>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>额外卡片类型</Label>
+              {CARD_TEMPLATE_OPTIONS.map((option) => (
+                <div key={option.value} className="flex items-start gap-2.5">
+                  <Checkbox
+                    id={`template-${option.value}`}
+                    checked={form.extraCardTemplates.includes(option.value)}
+                    onCheckedChange={(checked) =>
+                      toggleTemplate(option.value, checked === true)
+                    }
+                    className="mt-0.5"
+                  />
+                  <div className="space-y-1">
+                    <Label htmlFor={`template-${option.value}`}>
+                      {option.label}
+                    </Label>
+                    <p className="text-xs text-muted-foreground">
+                      {option.description}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-start gap-2.5">
+              <Checkbox
+                id="typedAnswerMode"
+                checked={form.typedAnswerMode}
+                onCheckedChange={(checked) =>
+                  updateField("typedAnswerMode", checked === true)
+                }
+                className="mt-0.5"
+              />
+              <div className="space-y-1">
+                <Label htmlFor="typedAnswerMode">输入单词作答</Label>
+                <p className="text-xs text-muted-foreground">
+                  看义忆词和例句填空卡片通过输入单词作答，自动评分并建议评级
+                </p>
+              </div>
+            </div>
+
+            <div className="flex items-start gap-2.5">
+              <Checkbox
+                id="autoPlayAudio"
+                checked={form.autoPlayAudio}
+                onCheckedChange={(checked) =>
+                  updateField("autoPlayAudio", checked === true)
+                }
+                className="mt-0.5"
+              />
+              <div className="space-y-1">
+                <Label htmlFor="autoPlayAudio">翻转时自动朗读</Label>
+                <p className="text-xs text-muted-foreground">
+                  翻转卡片看到答案时自动朗读单词（使用浏览器的语音合成）
+                </p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            取消
+          </Button>
+          <Button onClick={handleSave} disabled={!form || isSaving}>
+            {isSaving ? "保存中..." : "保存"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
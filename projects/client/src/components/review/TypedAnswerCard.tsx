@@ -0,0 +1,160 @@
+import { useState, useEffect, useRef } from "react";
+import { CheckCircle2, AlertCircle, XCircle } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import type { GradeAnswerResponse } from "../../../../api/src/route/review.route";
+
+type AnswerGrade = GradeAnswerResponse["data"];
+
+interface CardData {
+  word: string;
+  pos?: string; // 词性
+  meaning: string;
+  sentence?: string;
+  type: "new" | "extend";
+  template: "recognition" | "reverse" | "cloze"; // 卡片模板
+  clozeSentence?: string; // 挖空后的例句（仅 cloze 模板）
+}
+
+interface TypedAnswerCardProps {
+  cardData: CardData;
+  grade: AnswerGrade | null; // 评分结果（未提交时为 null）
+  isGrading: boolean;
+  onSubmit: (typedAnswer: string) => void;
+}
+
+// 评分结果的展示样式
+const GRADE_DISPLAY = {
+  exact: { label: "完全正确", icon: CheckCircle2, color: "text-green-600" },
+  inflection: {
+    label: "正确（词形不同）",
+    icon: CheckCircle2,
+    color: "text-green-600",
+  },
+  typo: {
+    label: "基本正确（有拼写错误）",
+    icon: AlertCircle,
+    color: "text-amber-600",
+  },
+  wrong: { label: "回答错误", icon: XCircle, color: "text-red-600" },
+} as const;
+
+/**
+ * 输入模式的复习卡片（FlipCard 的输入版本）
+ *
+ * 用于 reverse / cloze 卡片：用户输入单词后由服务端评分，
+ * 评分后展示对错、期望答案和完整释义
+ */
+export default function TypedAnswerCard({
+  cardData,
+  grade,
+  isGrading,
+  onSubmit,
+}: TypedAnswerCardProps) {
+  const [typedAnswer, setTypedAnswer] = useState("");
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // 当卡片数据变化时，清空输入并聚焦输入框
+  useEffect(() => {
+    setTypedAnswer("");
+    inputRef.current?.focus();
+  }, [cardData]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (grade || isGrading) return;
+    onSubmit(typedAnswer);
+  };
+
+  const gradeDisplay = grade ? GRADE_DISPLAY[grade.match] : null;
+  const showCloze = cardData.template === "cloze" && cardData.clozeSentence;
+
+  return (
+    <div className="rounded-3xl border border-border bg-card p-10 shadow-xl min-h-[480px] flex flex-col justify-between gap-8">
+      <div className="self-start flex items-center gap-2">
+        <span
+          className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold text-white ${
+            cardData.type === "new" ? "bg-chart-2" : "bg-chart-4"
+          }`}
+        >
+          {cardData.type === "new" ? "新单词" : "扩展含义"}
+        </span>
+        <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold bg-muted text-muted-foreground">
+          {showCloze ? "例句填空" : "看义忆词"}
+        </span>
+      </div>
+
+      {/* 题目 */}
+      <div className="text-center space-y-4">
+        {showCloze ? (
+          <>
+            <p className="text-2xl md:text-3xl leading-relaxed font-light">
+              {cardData.clozeSentence}
+            </p>
+            <p className="text-base text-muted-foreground">
+              提示：{cardData.meaning}
+            </p>
+          </>
+        ) : (
+          <>
+            {cardData.pos && (
+              <span className="text-lg text-muted-foreground">
+                {cardData.pos}
+              </span>
+            )}
+            <p className="text-2xl md:text-3xl leading-relaxed font-medium">
+              {cardData.meaning}
+            </p>
+          </>
+        )}
+      </div>
+
+      {/* 输入框 */}
+      <form
+        onSubmit={handleSubmit}
+        className="flex gap-3 max-w-md w-full mx-auto"
+      >
+        <Input
+          ref={inputRef}
+          value={typedAnswer}
+          onChange={(e) => setTypedAnswer(e.target.value)}
+          placeholder="输入英文单词，按回车确认"
+          disabled={!!grade || isGrading}
+          autoComplete="off"
+          autoCapitalize="off"
+          spellCheck={false}
+          className="text-lg h-12"
+        />
+        <Button
+          type="submit"
+          disabled={!!grade || isGrading}
+          className="h-12 px-6"
+        >
+          {isGrading ? "评分中..." : "确认"}
+        </Button>
+      </form>
+
+      {/* 评分结果 */}
+      {grade && gradeDisplay && (
+        <div className="space-y-4 animate-in fade-in duration-300">
+          <div
+            className={`flex items-center justify-center gap-2 font-semibold ${gradeDisplay.color}`}
+          >
+            <gradeDisplay.icon className="w-5 h-5" />
+            {gradeDisplay.label}
+          </div>
+          <div className="p-4 rounded-xl bg-muted text-center space-y-2">
+            <div className="text-3xl font-bold">{grade.expected}</div>
+            <div className="text-sm text-muted-foreground">
+              {cardData.pos && `${cardData.pos} `}
+              {cardData.meaning}
+            </div>
+            {cardData.sentence && (
+              <p className="text-base leading-relaxed">{cardData.sentence}</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
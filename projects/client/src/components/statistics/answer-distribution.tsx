@@ -0,0 +1,78 @@
+import type { AnswerDistributionResponse } from "../../../../api/src/route/review.route";
+
+type AnswerDistribution = AnswerDistributionResponse["data"];
+
+interface AnswerDistributionChartProps {
+  distribution: AnswerDistribution;
+}
+
+const KIND_LABELS = [
+  { kind: "learning", label: "学习中" },
+  { kind: "young", label: "短期卡片" },
+  { kind: "mature", label: "成熟卡片" },
+] as const;
+
+// 与复习页面答题按钮的颜色一致
+const RATINGS = [
+  { rating: "again", label: "再来一次", color: "bg-red-500" },
+  { rating: "hard", label: "有点难", color: "bg-amber-500" },
+  { rating: "good", label: "还不错", color: "bg-green-500" },
+  { rating: "easy", label: "很简单", color: "bg-blue-500" },
+] as const;
+
+/**
+ * 答题按钮分布
+ *
+ * 按答题时卡片所处阶段分组，每组显示各评级的占比
+ */
+export function AnswerDistributionChart({
+  distribution,
+}: AnswerDistributionChartProps) {
+  return (
+    <div className="space-y-5">
+      {KIND_LABELS.map(({ kind, label }) => {
+        const counts = distribution[kind];
+        const total = RATINGS.reduce(
+          (sum, { rating }) => sum + counts[rating],
+          0
+        );
+        const correctRate =
+          total > 0 ? Math.round(((total - counts.again) / total) * 100) : null;
+
+        return (
+          <div key={kind} className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span className="font-medium">{label}</span>
+              <span className="text-muted-foreground">
+                {total} 次
+                {correctRate !== null && ` · 答对 ${correctRate}%`}
+              </span>
+            </div>
+            <div className="flex h-4 rounded-full overflow-hidden bg-muted">
+              {total > 0 &&
+                RATINGS.map(({ rating, label, color }) =>
+                  counts[rating] > 0 ? (
+                    <div
+                      key={rating}
+                      className={color}
+                      style={{ width: `${(counts[rating] / total) * 100}%` }}
+                      title={`${label}：${counts[rating]} 次`}
+                    />
+                  ) : null
+                )}
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+        {RATINGS.map(({ rating, label, color }) => (
+          <span key={rating} className="flex items-center gap-1">
+            <span className={`w-3 h-3 rounded-sm ${color}`} />
+            {label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import type { CardMaturityResponse } from "../../../../api/src/route/review.route";
+
+type CardMaturityStats = CardMaturityResponse["data"];
+
+interface CardMaturityChartProps {
+  stats: CardMaturityStats;
+}
+
+const MATURITY_ITEMS = [
+  { key: "new", label: "新卡片", color: "bg-chart-2" },
+  { key: "learning", label: "学习中", color: "bg-amber-500" },
+  { key: "young", label: "短期卡片", color: "bg-green-400" },
+  { key: "mature", label: "成熟卡片", color: "bg-green-700" },
+  { key: "suspended", label: "已暂停", color: "bg-muted-foreground" },
+] as const;
+
+/**
+ * 卡片成熟度分布
+ *
+ * 短期卡片：复习间隔 < 21 天；成熟卡片：复习间隔 >= 21 天
+ */
+export function CardMaturityChart({ stats }: CardMaturityChartProps) {
+  return (
+    <div className="space-y-5">
+      <div className="flex h-4 rounded-full overflow-hidden bg-muted">
+        {stats.total > 0 &&
+          MATURITY_ITEMS.map(({ key, label, color }) =>
+            stats[key] > 0 ? (
+              <div
+                key={key}
+                className={color}
+                style={{ width: `${(stats[key] / stats.total) * 100}%` }}
+                title={`${label}：${stats[key]} 张`}
+              />
+            ) : null
+          )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        {MATURITY_ITEMS.map(({ key, label, color }) => (
+          <div key={key} className="flex items-center gap-2 text-sm">
+            <span className={`w-3 h-3 rounded-sm ${color}`} />
+            <span className="text-muted-foreground">{label}</span>
+            <span className="font-semibold ml-auto md:ml-0">{stats[key]}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="text-sm text-muted-foreground">
+        共 {stats.total} 张卡片
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import type { RetentionStatsResponse } from "../../../../api/src/route/review.route";
+
+type RetentionStats = RetentionStatsResponse["data"];
+
+interface RetentionChartProps {
+  stats: RetentionStats;
+}
+
+const formatRate = (rate: number | null) =>
+  rate === null ? "--" : `${Math.round(rate * 100)}%`;
+
+const getRate = ({ passed, total }: { passed: number; total: number }) =>
+  total > 0 ? passed / total : null;
+
+/**
+ * 真实记忆保持率
+ *
+ * 只统计复习阶段的答题（不含新卡片和学习步骤），
+ * 上方为范围内汇总，下方柱状图为每日保持率
+ */
+export function RetentionChart({ stats }: RetentionChartProps) {
+  const summary = [
+    { label: "整体", rate: stats.retention, total: null },
+    {
+      label: "短期卡片",
+      rate: getRate(stats.young),
+      total: stats.young.total,
+    },
+    {
+      label: "成熟卡片",
+      rate: getRate(stats.mature),
+      total: stats.mature.total,
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-3 gap-4 text-center">
+        {summary.map((item) => (
+          <div key={item.label} className="p-4 rounded-xl bg-muted">
+            <div className="text-xs text-muted-foreground mb-1">
+              {item.label}
+            </div>
+            <div className="text-2xl font-bold">{formatRate(item.rate)}</div>
+            {item.total !== null && (
+              <div className="text-xs text-muted-foreground mt-1">
+                {item.total} 次复习
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* 每日保持率柱状图（没有复习的日期留空） */}
+      <div className="flex items-end gap-px h-32 border-b border-border">
+        {stats.series.map((point) => (
+          <div
+            key={point.date}
+            className="flex-1 h-full flex items-end"
+            title={`${point.date}：${formatRate(point.retention)}`}
+          >
+            {point.retention !== null && (
+              <div
+                className="w-full rounded-t-sm bg-green-500"
+                style={{ height: `${Math.max(point.retention * 100, 2)}%` }}
+              />
+            )}
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{stats.series[0]?.date}</span>
+        <span>{stats.series[stats.series.length - 1]?.date}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import type { ReviewForecastResponse } from "../../../../api/src/route/review.route";
+
+type ReviewForecast = ReviewForecastResponse["data"];
+
+interface ReviewForecastChartProps {
+  forecast: ReviewForecast;
+}
+
+// 日期键（YYYY-MM-DD）显示为 M/D
+const formatShortDate = (date: string) => {
+  const [, month, day] = date.split("-").map(Number);
+  return `${month}/${day}`;
+};
+
+/**
+ * 未来每日到期卡片数量柱状图
+ *
+ * 第一根柱子（今天）包含已逾期的卡片；天数较少时在每根柱子下显示日期
+ */
+export function ReviewForecastChart({ forecast }: ReviewForecastChartProps) {
+  const max = Math.max(0, ...forecast.days.map((day) => day.dueCount));
+  const total = forecast.days.reduce((sum, day) => sum + day.dueCount, 0);
+  const showEachLabel = forecast.days.length <= 14;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-muted-foreground">
+        <span>
+          共 <strong className="text-foreground">{total}</strong> 张到期
+        </span>
+        {forecast.overdueCount > 0 && (
+          <span>
+            已逾期{" "}
+            <strong className="text-red-600">{forecast.overdueCount}</strong> 张
+          </span>
+        )}
+        {forecast.newCount > 0 && (
+          <span>另有 {forecast.newCount} 张新卡片待学习</span>
+        )}
+      </div>
+
+      <div className="flex items-end gap-1 h-32 border-b border-border">
+        {forecast.days.map((day, i) => (
+          <div
+            key={day.date}
+            className="flex-1 h-full flex flex-col justify-end items-center"
+            title={`${day.date}：${day.dueCount} 张`}
+          >
+            {showEachLabel && day.dueCount > 0 && (
+              <span className="text-xs text-muted-foreground mb-1">
+                {day.dueCount}
+              </span>
+            )}
+            {day.dueCount > 0 && (
+              <div
+                className={`w-full rounded-t-sm ${
+                  i === 0 ? "bg-primary" : "bg-primary/60"
+                }`}
+                style={{ height: `${(day.dueCount / max) * 100}%` }}
+              />
+            )}
+          </div>
+        ))}
+      </div>
+
+      {showEachLabel ? (
+        <div className="flex gap-1 text-xs text-muted-foreground">
+          {forecast.days.map((day, i) => (
+            <span key={day.date} className="flex-1 text-center">
+              {i === 0 ? "今天" : formatShortDate(day.date)}
+            </span>
+          ))}
+        </div>
+      ) : (
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>今天</span>
+          <span>
+            {formatShortDate(forecast.days[forecast.days.length - 1].date)}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
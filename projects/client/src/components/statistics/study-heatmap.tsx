@@ -0,0 +1,90 @@
+import type { ReviewHeatmapResponse } from "../../../../api/src/route/review.route";
+
+type HeatmapDay = ReviewHeatmapResponse["data"]["days"][number];
+
+interface StudyHeatmapProps {
+  days: HeatmapDay[];
+}
+
+// 颜色深浅等级（按当天复习次数占范围内最大值的比例）
+const LEVEL_CLASSES = [
+  "bg-muted",
+  "bg-primary/25",
+  "bg-primary/50",
+  "bg-primary/75",
+  "bg-primary",
+];
+
+const WEEKDAY_LABELS = ["日", "一", "二", "三", "四", "五", "六"];
+
+const getLevel = (count: number, max: number) => {
+  if (count === 0 || max === 0) return 0;
+  return Math.min(4, Math.ceil((count / max) * 4));
+};
+
+// 日期键（YYYY-MM-DD）对应的星期（0 = 周日）
+const getWeekday = (date: string) => {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day).getDay();
+};
+
+/**
+ * 学习日历热力图
+ *
+ * 按周排列（每列一周，每行一个星期几），颜色深浅表示当天复习次数
+ */
+export function StudyHeatmap({ days }: StudyHeatmapProps) {
+  const max = Math.max(0, ...days.map((day) => day.reviewedCount));
+  const totalReviewed = days.reduce((sum, day) => sum + day.reviewedCount, 0);
+  const activeDays = days.filter(
+    (day) => day.reviewedCount > 0 || day.newWordsCount > 0
+  ).length;
+
+  // 第一天之前补空格，使每列从周日开始
+  const leadingBlanks = days.length > 0 ? getWeekday(days[0].date) : 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-6 text-sm text-muted-foreground">
+        <span>
+          复习 <strong className="text-foreground">{totalReviewed}</strong> 次
+        </span>
+        <span>
+          学习 <strong className="text-foreground">{activeDays}</strong> 天
+        </span>
+      </div>
+
+      <div className="flex gap-2 overflow-x-auto pb-2">
+        <div className="grid grid-rows-7 gap-1 text-[10px] text-muted-foreground">
+          {WEEKDAY_LABELS.map((label) => (
+            <div key={label} className="h-3 leading-3">
+              {label}
+            </div>
+          ))}
+        </div>
+        <div className="grid grid-rows-7 grid-flow-col gap-1">
+          {Array.from({ length: leadingBlanks }, (_, i) => (
+            <div key={`blank-${i}`} className="w-3 h-3" />
+          ))}
+          {days.map((day) => (
+            <div
+              key={day.date}
+              className={`w-3 h-3 rounded-sm ${
+                LEVEL_CLASSES[getLevel(day.reviewedCount, max)]
+              }`}
+              title={`${day.date}：复习 ${day.reviewedCount} 次，答对 ${day.correctCount} 次，新词 ${day.newWordsCount} 个`}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-end gap-1 text-xs text-muted-foreground">
+        <span>少</span>
+        {LEVEL_CLASSES.map((className) => (
+          <div key={className} className={`w-3 h-3 rounded-sm ${className}`} />
+        ))}
+        <span>多</span>
+      </div>
+    </div>
+  );
+}
@@ -17,9 +17,14 @@ interface LearningWord {
   word: string;
   meaningText: string;
   pos: string | null;
+  exampleSentence: string | null;
   addedAt: string;
   repetitions: number;
   totalReviews: number;
+  lapses: number;
+  isLeech: boolean;
+  isSuspended: boolean;
+  isBuried: boolean;
 }
 
 interface EditLearningWordDialogProps {
@@ -44,6 +49,7 @@ export function EditLearningWordDialog({
   const [editedWord, setEditedWord] = useState<string>("");
   const [editedMeaning, setEditedMeaning] = useState<string>("");
   const [editedPos, setEditedPos] = useState<string>("");
+  const [editedExample, setEditedExample] = useState<string>("");
 
   const isAddMode = !word;
 
@@ -52,11 +58,13 @@ export function EditLearningWordDialog({
       setEditedWord(word.word);
       setEditedMeaning(word.meaningText);
       setEditedPos(word.pos || "");
+      setEditedExample(word.exampleSentence || "");
     } else {
       // 新增模式，清空表单
       setEditedWord("");
       setEditedMeaning("");
       setEditedPos("");
+      setEditedExample("");
     }
   }, [word, open]);
 
@@ -81,6 +89,7 @@ export function EditLearningWordDialog({
         word: editedWord.trim(),
         meaningText: editedMeaning.trim(),
         pos: editedPos.trim() || null,
+        exampleSentence: editedExample.trim() || null,
       });
       onOpenChange(false);
     }
@@ -90,6 +99,7 @@ export function EditLearningWordDialog({
     setEditedWord("");
     setEditedMeaning("");
     setEditedPos("");
+    setEditedExample("");
     onOpenChange(false);
   };
 
@@ -147,6 +157,26 @@ export function EditLearningWordDialog({
               }}
             />
           </div>
+          {!isAddMode && (
+            <div className="space-y-2">
+              <Label htmlFor="example">
+                例句{" "}
+                <span className="text-muted-foreground text-sm">(选填)</span>
+              </Label>
+              <Textarea
+                id="example"
+                value={editedExample}
+                onChange={(e) => setEditedExample(e.target.value)}
+                placeholder="包含该单词的例句"
+                rows={2}
+              />
+            </div>
+          )}
+          {!isAddMode && word?.isLeech && (
+            <p className="text-sm text-muted-foreground">
+              该单词已遗忘 {word.lapses} 次，试着改写含义或换一个更好记的例句
+            </p>
+          )}
           {!isAddMode && (
             <div className="space-y-2">
               <Label htmlFor="addedAt">添加时间</Label>
@@ -7,28 +7,52 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
-import { Pencil, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Pencil,
+  Trash2,
+  MoreHorizontal,
+  Pause,
+  Play,
+  Moon,
+  RotateCcw,
+} from "lucide-react";
 
 interface LearningWord {
   id: number;
   word: string;
   meaningText: string;
   pos: string | null;
+  exampleSentence: string | null;
   addedAt: string;
   repetitions: number;
   totalReviews: number;
+  lapses: number;
+  isLeech: boolean;
+  isSuspended: boolean;
+  isBuried: boolean;
 }
 
+export type LearningWordAction = "suspend" | "unsuspend" | "bury" | "reset";
+
 interface LearningWordsTableProps {
   words: LearningWord[];
   onEdit: (word: LearningWord) => void;
   onDelete: (word: LearningWord) => void;
+  onAction: (word: LearningWord, action: LearningWordAction) => void;
 }
 
 export function LearningWordsTable({
   words,
   onEdit,
   onDelete,
+  onAction,
 }: LearningWordsTableProps) {
   return (
     <div className="rounded-md border">
@@ -40,13 +64,27 @@ export function LearningWordsTable({
             <TableHead>含义</TableHead>
             <TableHead className="w-[100px] text-center">复习次数</TableHead>
             <TableHead className="w-[180px]">添加时间</TableHead>
-            <TableHead className="w-[120px] text-right">操作</TableHead>
+            <TableHead className="w-[160px] text-right">操作</TableHead>
           </TableRow>
         </TableHeader>
         <TableBody>
           {words.map((word) => (
             <TableRow key={word.id}>
-              <TableCell className="font-medium">{word.word}</TableCell>
+              <TableCell className="font-medium">
+                <div className="flex items-center gap-2">
+                  {word.word}
+                  {word.isLeech && (
+                    <Badge
+                      variant="destructive"
+                      title={`已遗忘 ${word.lapses} 次`}
+                    >
+                      难记
+                    </Badge>
+                  )}
+                  {word.isSuspended && <Badge variant="secondary">已暂停</Badge>}
+                  {word.isBuried && <Badge variant="outline">已搁置</Badge>}
+                </div>
+              </TableCell>
               <TableCell className="text-muted-foreground">
                 {word.pos || "-"}
               </TableCell>
@@ -81,6 +119,41 @@ export function LearningWordsTable({
                   >
                     <Trash2 className="w-4 h-4 text-destructive" />
                   </Button>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="sm">
+                        <MoreHorizontal className="w-4 h-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      {word.isSuspended ? (
+                        <DropdownMenuItem
+                          onClick={() => onAction(word, "unsuspend")}
+                        >
+                          <Play className="mr-2 h-4 w-4" />
+                          恢复复习
+                        </DropdownMenuItem>
+                      ) : (
+                        <DropdownMenuItem
+                          onClick={() => onAction(word, "suspend")}
+                        >
+                          <Pause className="mr-2 h-4 w-4" />
+                          暂停复习
+                        </DropdownMenuItem>
+                      )}
+                      <DropdownMenuItem
+                        disabled={word.isBuried}
+                        onClick={() => onAction(word, "bury")}
+                      >
+                        <Moon className="mr-2 h-4 w-4" />
+                        搁置到明天
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => onAction(word, "reset")}>
+                        <RotateCcw className="mr-2 h-4 w-4" />
+                        重置进度
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
                 </div>
               </TableCell>
             </TableRow>
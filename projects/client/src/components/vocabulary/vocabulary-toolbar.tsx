@@ -15,6 +15,10 @@ interface VocabularyToolbarProps {
   onSearchChange: (query: string) => void;
   onSortOrderChange: (value: string) => void;
   onAddWord: () => void;
+  // 可选的状态筛选（不传则不显示筛选下拉框）
+  filter?: string;
+  filterOptions?: { value: string; label: string }[];
+  onFilterChange?: (value: string) => void;
 }
 
 export function VocabularyToolbar({
@@ -23,6 +27,9 @@ export function VocabularyToolbar({
   onSearchChange,
   onSortOrderChange,
   onAddWord,
+  filter,
+  filterOptions,
+  onFilterChange,
 }: VocabularyToolbarProps) {
   return (
     <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-3 sm:gap-4">
@@ -36,6 +43,20 @@ export function VocabularyToolbar({
           className="pl-10"
         />
       </div>
+      {filterOptions && onFilterChange && (
+        <Select value={filter} onValueChange={onFilterChange}>
+          <SelectTrigger className="w-full sm:w-40">
+            <SelectValue placeholder="筛选" />
+          </SelectTrigger>
+          <SelectContent>
+            {filterOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
       <Select value={sortOrder} onValueChange={onSortOrderChange}>
         <SelectTrigger className="w-full sm:w-48">
           <SelectValue placeholder="排序方式" />
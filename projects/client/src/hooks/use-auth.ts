@@ -40,6 +40,8 @@ export function useUpdateUser() {
         | "cet6"
         | "ielts_toefl"
         | "gre";
+      timezone?: string;
+      dayStartHour?: number;
     }) => {
       const res = await apiClient.api.users.me.$patch({
         json: data,
@@ -0,0 +1,39 @@
+import { useState, useEffect } from "react";
+import { apiClient } from "@/lib/api-client";
+import { extractApiData } from "@/utils/api-helpers";
+import type { UserStatsResponse } from "../../../api/src/route/user.route";
+
+export type LearningStats = UserStatsResponse["data"];
+
+export function useLearningStats() {
+  const [stats, setStats] = useState<LearningStats | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStats = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const data = await extractApiData<UserStatsResponse>(
+        apiClient.api.users.me.stats.$get()
+      );
+      setStats(data);
+    } catch (err) {
+      console.error("Failed to fetch learning stats:", err);
+      setError("获取学习统计失败");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchStats();
+  }, []);
+
+  return {
+    stats,
+    isLoading,
+    error,
+    refetch: fetchStats,
+  };
+}
@@ -0,0 +1,52 @@
+import { useEffect, useRef } from "react";
+import {
+  getEventKey,
+  isTypingTarget,
+  type KeyBindings,
+  type ReviewAction,
+} from "@/utils/review-hotkeys";
+
+export type ReviewHotkeyHandlers = Partial<Record<ReviewAction, () => void>>;
+
+/**
+ * 复习快捷键
+ *
+ * 按用户的快捷键绑定把按键分发到对应的操作；
+ * 在输入框中输入、按下组合键或 enabled 为 false（如弹窗打开时）时不触发
+ *
+ * @param bindings 快捷键绑定（设置加载前为 null，此时不触发）
+ * @param handlers 各操作的处理函数（没有处理函数的操作忽略对应按键）
+ * @param enabled 是否启用
+ */
+export function useReviewHotkeys(
+  bindings: KeyBindings | null,
+  handlers: ReviewHotkeyHandlers,
+  enabled: boolean = true
+) {
+  // 处理函数每次渲染都会变化，用 ref 保存最新的，避免反复注册监听
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!bindings || !enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || isTypingTarget(e.target)) return;
+
+      const key = getEventKey(e);
+      if (!key) return;
+
+      const action = (Object.keys(bindings) as ReviewAction[]).find(
+        (a) => bindings[a] === key
+      );
+      const handler = action && handlersRef.current[action];
+      if (handler) {
+        e.preventDefault();
+        handler();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [bindings, enabled]);
+}
@@ -64,6 +64,8 @@ export type ExtendedUser = {
     | "gre"
     | null;
   onboardingCompleted?: boolean;
+  timezone?: string; // IANA 时区（学习日按该时区划分）
+  dayStartHour?: number; // 每天开始的小时（0-23）
   lastLoginAt?: Date | null;
 };
 
@@ -4,6 +4,7 @@ import type { ExtendedUser } from "@/lib/api-client";
 
 import { Navbar } from "@/components/layout/navbar";
 import ArticleAnalysis from "@/components/dashboard/article-analysis";
+import { StatsCards } from "@/components/dashboard/stats-cards";
 
 export default function DashboardPage() {
   const { user, isLoading } = useAuth();
@@ -31,6 +32,7 @@ export default function DashboardPage() {
       <Navbar />
 
       <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 lg:py-8">
+        <StatsCards />
         <ArticleAnalysis />
       </main>
     </div>
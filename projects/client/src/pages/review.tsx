@@ -6,7 +6,10 @@ import ReviewComplete from "@/components/review/ReviewComplete";
 import { apiClient } from "@/lib/api-client";
 import type { CompleteStats } from "@/types/review";
 import { extractApiData, getErrorMessage } from "@/utils/api-helpers";
-import type { ReviewStatsResponse } from "../../../api/src/route/review.route";
+import type {
+  ReviewStatsResponse,
+  CustomSessionResponse,
+} from "../../../api/src/route/review.route";
 
 type ReviewPage = "entrance" | "session" | "complete";
 
@@ -19,8 +22,13 @@ export default function ReviewPage() {
     hard: 0,
     good: 0,
     easy: 0,
+    timeSpentMinutes: 0,
   });
   const [isLoading, setIsLoading] = useState(true);
+  // 自定义学习会话（为 null 时按全局复习队列复习）
+  const [customSession, setCustomSession] = useState<
+    CustomSessionResponse["data"] | null
+  >(null);
 
   // 加载复习统计数据
   useEffect(() => {
@@ -42,6 +50,18 @@ export default function ReviewPage() {
     }
   };
 
+  const handleStartReview = () => {
+    setCustomSession(null);
+    setCurrentPage("session");
+  };
+
+  const handleStartCustomSession = (
+    session: CustomSessionResponse["data"]
+  ) => {
+    setCustomSession(session);
+    setCurrentPage("session");
+  };
+
   const handleCompleteReview = (sessionCompleteStats: CompleteStats) => {
     setCompleteStats(sessionCompleteStats);
     setCurrentPage("complete");
@@ -87,13 +107,18 @@ export default function ReviewPage() {
         {currentPage === "entrance" && (
           <ReviewEntrance
             stats={stats}
-            onStartReview={() => setCurrentPage("session")}
+            onStartReview={handleStartReview}
+            onStartCustomSession={handleStartCustomSession}
+            onSettingsChange={loadStats}
           />
         )}
 
         {currentPage === "session" && (
           <ReviewSession
-            initialTotalCards={stats.todayDue}
+            initialTotalCards={
+              customSession?.remainingCount ?? stats.todayDue
+            }
+            customSession={customSession}
             onExit={handleBackToEntrance}
             onComplete={handleCompleteReview}
           />
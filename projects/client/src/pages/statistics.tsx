@@ -0,0 +1,191 @@
+import { useState, useEffect, useCallback } from "react";
+import { Navbar } from "@/components/layout/navbar";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { StudyHeatmap } from "@/components/statistics/study-heatmap";
+import { RetentionChart } from "@/components/statistics/retention-chart";
+import { AnswerDistributionChart } from "@/components/statistics/answer-distribution";
+import { CardMaturityChart } from "@/components/statistics/card-maturity";
+import { ReviewForecastChart } from "@/components/statistics/review-forecast";
+import { apiClient } from "@/lib/api-client";
+import { extractApiData, getErrorMessage } from "@/utils/api-helpers";
+import { showToastError } from "@/utils/toast";
+import type {
+  ReviewHeatmapResponse,
+  RetentionStatsResponse,
+  AnswerDistributionResponse,
+  CardMaturityResponse,
+  ReviewForecastResponse,
+} from "../../../api/src/route/review.route";
+
+// 可选的统计范围（天）
+const RANGE_OPTIONS = [
+  { days: 7, label: "7 天" },
+  { days: 30, label: "30 天" },
+  { days: 90, label: "3 个月" },
+  { days: 365, label: "1 年" },
+];
+
+interface RangeStats {
+  heatmap: ReviewHeatmapResponse["data"]["days"];
+  retention: RetentionStatsResponse["data"];
+  answers: AnswerDistributionResponse["data"];
+  forecast: ReviewForecastResponse["data"];
+}
+
+export default function StatisticsPage() {
+  const [days, setDays] = useState(30);
+  const [rangeStats, setRangeStats] = useState<RangeStats | null>(null);
+  const [maturity, setMaturity] = useState<
+    CardMaturityResponse["data"] | null
+  >(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // 与统计范围相关的数据（切换范围时重新加载）
+  const loadRangeStats = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const query = { days: String(days) };
+      const [heatmap, retention, answers, forecast] = await Promise.all([
+        extractApiData<ReviewHeatmapResponse>(
+          apiClient.api.review.analytics.heatmap.$get({ query })
+        ),
+        extractApiData<RetentionStatsResponse>(
+          apiClient.api.review.analytics.retention.$get({ query })
+        ),
+        extractApiData<AnswerDistributionResponse>(
+          apiClient.api.review.analytics.answers.$get({ query })
+        ),
+        extractApiData<ReviewForecastResponse>(
+          apiClient.api.review.forecast.$get({ query })
+        ),
+      ]);
+      setRangeStats({ heatmap: heatmap.days, retention, answers, forecast });
+    } catch (error) {
+      console.error("加载统计失败:", getErrorMessage(error));
+      showToastError("加载统计数据失败");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    loadRangeStats();
+  }, [loadRangeStats]);
+
+  // 卡片成熟度与统计范围无关，只加载一次
+  useEffect(() => {
+    extractApiData<CardMaturityResponse>(
+      apiClient.api.review.analytics.maturity.$get()
+    )
+      .then(setMaturity)
+      .catch((error) => {
+        console.error("加载卡片成熟度失败:", getErrorMessage(error));
+      });
+  }, []);
+
+  return (
+    <>
+      <Navbar />
+      <div className="min-h-screen bg-linear-to-br from-background to-muted p-4 md:p-8">
+        <div className="max-w-5xl mx-auto space-y-6">
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold">学习统计</h1>
+              <p className="text-muted-foreground mt-1">
+                回顾你的复习记录和记忆效果
+              </p>
+            </div>
+
+            {/* 统计范围选择 */}
+            <div className="flex gap-2">
+              {RANGE_OPTIONS.map((option) => (
+                <Button
+                  key={option.days}
+                  variant={days === option.days ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setDays(option.days)}
+                  disabled={isLoading}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {!rangeStats ? (
+            <div className="text-center text-lg text-muted-foreground py-20">
+              {isLoading ? "加载中..." : "加载失败，请刷新重试"}
+            </div>
+          ) : (
+            <>
+              <Card>
+                <CardHeader>
+                  <CardTitle>学习日历</CardTitle>
+                  <CardDescription>每天的复习次数</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <StudyHeatmap days={rangeStats.heatmap} />
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>记忆保持率</CardTitle>
+                  <CardDescription>
+                    复习阶段答对（非"再来一次"）的比例，不含新卡片和学习步骤
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <RetentionChart stats={rangeStats.retention} />
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>答题分布</CardTitle>
+                  <CardDescription>各阶段卡片的答题按钮选择情况</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <AnswerDistributionChart distribution={rangeStats.answers} />
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>复习预测</CardTitle>
+                  <CardDescription>
+                    未来每天到期的卡片数量（今天包含已逾期的卡片）
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ReviewForecastChart forecast={rangeStats.forecast} />
+                </CardContent>
+              </Card>
+            </>
+          )}
+
+          {maturity && (
+            <Card>
+              <CardHeader>
+                <CardTitle>卡片成熟度</CardTitle>
+                <CardDescription>
+                  复习间隔达到 21 天的卡片视为成熟卡片
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <CardMaturityChart stats={maturity} />
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -6,7 +6,10 @@ import { BookOpen, Archive, Loader2 } from "lucide-react";
 import { showToastInfo, showToastSuccess, showToastError } from "@/utils/toast";
 import { VocabularyToolbar } from "@/components/vocabulary/vocabulary-toolbar";
 import { KnownWordsTable } from "@/components/vocabulary/known-words-table";
-import { LearningWordsTable } from "@/components/vocabulary/learning-words-table";
+import {
+  LearningWordsTable,
+  type LearningWordAction,
+} from "@/components/vocabulary/learning-words-table";
 import { VocabularyPagination } from "@/components/vocabulary/vocabulary-pagination";
 import { EditWordDialog } from "@/components/vocabulary/edit-word-dialog";
 import { EditLearningWordDialog } from "@/components/vocabulary/edit-learning-word-dialog";
@@ -24,6 +27,7 @@ import type {
   LearningWordItem,
   AddLearningWordResponse,
   UpdateLearningWordResponse,
+  LearningWordActionResponse,
 } from "../../../api/src/route/user-learned-meanings.route";
 
 interface VocabularyWord {
@@ -38,11 +42,18 @@ interface LearningWord {
   word: string;
   meaningText: string;
   pos: string | null;
+  exampleSentence: string | null;
   addedAt: string;
   repetitions: number;
   totalReviews: number;
+  lapses: number;
+  isLeech: boolean;
+  isSuspended: boolean;
+  isBuried: boolean;
 }
 
+type LearningFilter = "all" | "leech" | "suspended";
+
 export default function VocabularyPage() {
   const [activeTab, setActiveTab] = useState<"known" | "learning">("known");
   const [searchQuery, setSearchQuery] = useState("");
@@ -68,6 +79,7 @@ export default function VocabularyPage() {
   const [learningCurrentPage, setLearningCurrentPage] = useState(1);
   const [isLoadingLearning, setIsLoadingLearning] = useState(true);
   const [allLearningWords, setAllLearningWords] = useState<LearningWord[]>([]);
+  const [learningFilter, setLearningFilter] = useState<LearningFilter>("all");
 
   const loadWords = useCallback(async () => {
     setIsLoading(true);
@@ -118,8 +130,14 @@ export default function VocabularyPage() {
         word: word.word,
         meaningText: word.meaningText,
         pos: word.pos,
+        exampleSentence: word.exampleSentence,
         repetitions: word.repetitions,
         totalReviews: word.totalReviews,
+        lapses: word.lapses,
+        isLeech: word.isLeech,
+        isSuspended: word.isSuspended,
+        isBuried:
+          word.buriedUntil !== null && new Date(word.buriedUntil) > new Date(),
         addedAt: new Date(word.createdAt).toLocaleString("zh-CN", {
           year: "numeric",
           month: "2-digit",
@@ -172,6 +190,13 @@ export default function VocabularyPage() {
   const filteredLearningWords = useMemo(() => {
     let result = [...allLearningWords];
 
+    // 应用状态筛选
+    if (learningFilter === "leech") {
+      result = result.filter((word) => word.isLeech);
+    } else if (learningFilter === "suspended") {
+      result = result.filter((word) => word.isSuspended);
+    }
+
     // 应用搜索筛选
     if (searchQuery.trim()) {
       const query = searchQuery.toLowerCase();
@@ -183,7 +208,7 @@ export default function VocabularyPage() {
     }
 
     return result;
-  }, [allLearningWords, searchQuery]);
+  }, [allLearningWords, searchQuery, learningFilter]);
 
   const learningTotalItems = filteredLearningWords.length;
   const learningTotalPages = Math.ceil(learningTotalItems / itemsPerPage);
@@ -200,6 +225,11 @@ export default function VocabularyPage() {
     setLearningCurrentPage(1);
   };
 
+  const handleLearningFilterChange = (value: string) => {
+    setLearningFilter(value as LearningFilter);
+    setLearningCurrentPage(1);
+  };
+
   const handleSortOrderChange = (value: string) => {
     setSortOrder(value);
     setCurrentPage(1);
@@ -356,6 +386,8 @@ export default function VocabularyPage() {
             id: word.id,
             word: word.word,
             meaningText: word.meaningText,
+            pos: word.pos,
+            exampleSentence: word.exampleSentence,
           },
         })
       );
@@ -368,6 +400,7 @@ export default function VocabularyPage() {
                 word: word.word,
                 meaningText: word.meaningText,
                 pos: word.pos,
+                exampleSentence: word.exampleSentence,
               }
             : w
         )
@@ -380,6 +413,49 @@ export default function VocabularyPage() {
     }
   };
 
+  const handleLearningWordAction = async (
+    word: LearningWord,
+    action: LearningWordAction
+  ) => {
+    try {
+      const endpoints = {
+        suspend: apiClient.api["learning-words"].suspend,
+        unsuspend: apiClient.api["learning-words"].unsuspend,
+        bury: apiClient.api["learning-words"].bury,
+        reset: apiClient.api["learning-words"].reset,
+      };
+      const data = await extractApiData<LearningWordActionResponse>(
+        endpoints[action].$post({ json: { id: word.id } })
+      );
+
+      // 重置进度会改变多个字段，直接重新加载；其余操作本地更新
+      if (action === "reset") {
+        await loadLearningWords();
+      } else {
+        setAllLearningWords((prev) =>
+          prev.map((w) =>
+            w.id === word.id
+              ? {
+                  ...w,
+                  isSuspended:
+                    action === "suspend"
+                      ? true
+                      : action === "unsuspend"
+                      ? false
+                      : w.isSuspended,
+                  isBuried: action === "bury" ? true : w.isBuried,
+                }
+              : w
+          )
+        );
+      }
+
+      showToastSuccess(`"${word.word}" ${data.message}`);
+    } catch (error) {
+      showToastError(getErrorMessage(error, "操作失败"));
+    }
+  };
+
   const handleDeleteLearningWord = (word: LearningWord) => {
     setLearningWordToDelete(word);
     setLearningDeleteDialogOpen(true);
@@ -509,6 +585,13 @@ export default function VocabularyPage() {
                   onSearchChange={handleSearch}
                   onSortOrderChange={handleSortOrderChange}
                   onAddWord={handleAddLearningWord}
+                  filter={learningFilter}
+                  filterOptions={[
+                    { value: "all", label: "全部单词" },
+                    { value: "leech", label: "难记卡片" },
+                    { value: "suspended", label: "已暂停" },
+                  ]}
+                  onFilterChange={handleLearningFilterChange}
                 />
 
                 {isLoadingLearning && (
@@ -523,6 +606,10 @@ export default function VocabularyPage() {
                       <div className="text-center py-12 text-muted-foreground">
                         {searchQuery
                           ? "没有找到匹配的单词"
+                          : learningFilter === "leech"
+                          ? "暂无难记卡片"
+                          : learningFilter === "suspended"
+                          ? "暂无已暂停的单词"
                           : "暂无学习单词，快去添加吧"}
                       </div>
                     ) : (
@@ -531,6 +618,7 @@ export default function VocabularyPage() {
                           words={currentLearningWords}
                           onEdit={handleEditLearningWord}
                           onDelete={handleDeleteLearningWord}
+                          onAction={handleLearningWordAction}
                         />
 
                         {learningTotalPages > 1 && (
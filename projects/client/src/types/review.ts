@@ -45,6 +45,7 @@ export interface CompleteStats {
   hard: number;
   good: number;
   easy: number;
+  timeSpentMinutes: number; // 本次会话学习时长（服务端计时）
 }
 
 // ==================== 答题评级 ====================
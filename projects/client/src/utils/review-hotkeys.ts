@@ -0,0 +1,79 @@
+import type { ReviewSettingsResponse } from "../../../api/src/route/review.route";
+
+/**
+ * 复习快捷键
+ *
+ * 按键格式与后端一致：空格为 "Space"，字母小写，其他可见字符原样，
+ * 少数功能键使用 KeyboardEvent.key 的名称（如 "ArrowLeft"）
+ */
+
+export type KeyBindings = ReviewSettingsResponse["data"]["keyBindings"];
+export type ReviewAction = keyof KeyBindings;
+
+// 快捷键面板中的展示顺序和名称
+export const REVIEW_ACTION_LABELS: {
+  action: ReviewAction;
+  label: string;
+}[] = [
+  { action: "flip", label: "翻转卡片" },
+  { action: "again", label: "Again（再来一次）" },
+  { action: "hard", label: "Hard（有点难）" },
+  { action: "good", label: "Good（还不错）" },
+  { action: "easy", label: "Easy（很简单）" },
+  { action: "skip", label: "跳过当前卡片" },
+  { action: "undo", label: "撤销上一次答题" },
+  { action: "playAudio", label: "朗读单词" },
+  { action: "edit", label: "编辑当前卡片" },
+  { action: "help", label: "打开快捷键面板" },
+];
+
+// 可以绑定的功能键（与后端的校验一致）
+const NAMED_KEYS = [
+  "ArrowUp",
+  "ArrowDown",
+  "ArrowLeft",
+  "ArrowRight",
+  "Backspace",
+  "Delete",
+  "Home",
+  "End",
+  "PageUp",
+  "PageDown",
+];
+
+const KEY_DISPLAY: Record<string, string> = {
+  Space: "空格",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  ArrowLeft: "←",
+  ArrowRight: "→",
+};
+
+/**
+ * 将键盘事件换算为绑定格式
+ * @returns 按键，组合键（Ctrl / Alt / Meta）或不可绑定的按键返回 null
+ */
+export function getEventKey(e: KeyboardEvent): string | null {
+  if (e.ctrlKey || e.metaKey || e.altKey) return null;
+  if (e.key === " ") return "Space";
+  if (NAMED_KEYS.includes(e.key)) return e.key;
+  return [...e.key].length === 1 ? e.key.toLowerCase() : null;
+}
+
+/**
+ * 按键的展示文本
+ */
+export function formatKey(key: string): string {
+  return KEY_DISPLAY[key] ?? key.toUpperCase();
+}
+
+/**
+ * 事件是否来自输入框（输入时不触发快捷键）
+ */
+export function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)
+  );
+}
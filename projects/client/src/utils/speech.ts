@@ -0,0 +1,57 @@
+/**
+ * 单词朗读（浏览器 Speech Synthesis API）
+ *
+ * 不需要后端参与，浏览器不支持时朗读按钮隐藏
+ */
+
+// 朗读语言和语速（稍慢于正常语速，便于听清单个单词）
+const SPEECH_LANG = "en-US";
+const SPEECH_RATE = 0.9;
+
+/**
+ * 浏览器是否支持语音合成
+ */
+export function isSpeechSupported(): boolean {
+  return typeof window !== "undefined" && "speechSynthesis" in window;
+}
+
+/**
+ * 选择英语发音（优先与朗读语言完全一致的，没有时使用任意英语发音）
+ *
+ * 部分浏览器首次调用时发音列表为空，此时返回 undefined 交给浏览器选择默认发音
+ */
+function pickEnglishVoice(): SpeechSynthesisVoice | undefined {
+  const voices = window.speechSynthesis.getVoices();
+  return (
+    voices.find((voice) => voice.lang === SPEECH_LANG) ??
+    voices.find((voice) => voice.lang.startsWith("en"))
+  );
+}
+
+/**
+ * 朗读文本（会打断正在进行的朗读）
+ * @param text 要朗读的单词或句子
+ * @returns 是否开始朗读（浏览器不支持或文本为空时返回 false）
+ */
+export function speak(text: string): boolean {
+  if (!isSpeechSupported() || !text.trim()) return false;
+
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = SPEECH_LANG;
+  utterance.rate = SPEECH_RATE;
+  const voice = pickEnglishVoice();
+  if (voice) utterance.voice = voice;
+
+  window.speechSynthesis.cancel();
+  window.speechSynthesis.speak(utterance);
+  return true;
+}
+
+/**
+ * 停止朗读
+ */
+export function stopSpeaking() {
+  if (isSpeechSupported()) {
+    window.speechSynthesis.cancel();
+  }
+}
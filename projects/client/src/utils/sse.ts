@@ -0,0 +1,68 @@
+/**
+ * Server-Sent Events 读取工具
+ *
+ * 浏览器的 EventSource 只支持 GET 请求，流式接口使用 POST 提交数据，
+ * 因此直接读取 fetch 响应体并按 SSE 格式解析
+ */
+
+/**
+ * 一条 SSE 事件
+ */
+export interface SSEMessage {
+  event: string; // 事件名（未指定时为 "message"）
+  data: string; // 事件数据（多行 data 以换行连接）
+}
+
+/**
+ * 解析一个事件块（以空行分隔）
+ */
+function parseBlock(block: string): SSEMessage | null {
+  let event = "message";
+  const dataLines: string[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    if (line.startsWith("event:")) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith("data:")) {
+      dataLines.push(line.slice(5).replace(/^ /, ""));
+    }
+  }
+
+  return dataLines.length > 0 ? { event, data: dataLines.join("\n") } : null;
+}
+
+/**
+ * 逐条读取响应中的 SSE 事件
+ *
+ * @param response - fetch 响应（Content-Type: text/event-stream）
+ * @param onMessage - 每收到一条事件时调用
+ * @throws 响应没有可读取的内容时抛出错误
+ */
+export async function readSSE(
+  response: Response,
+  onMessage: (message: SSEMessage) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error("响应没有内容");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    // 事件之间以空行分隔，最后一段可能不完整，留到下次读取
+    const blocks = buffer.split(/\r?\n\r?\n/);
+    buffer = done ? "" : (blocks.pop() ?? "");
+
+    for (const block of blocks) {
+      const message = parseBlock(block);
+      if (message) onMessage(message);
+    }
+
+    if (done) return;
+  }
+}